@@ -3,6 +3,8 @@
 
 -- Enable UUID extension
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+-- hmac and gen_random_bytes, for signing QR tickets
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
 
 -- Create users table (extends Supabase auth.users)
 CREATE TABLE IF NOT EXISTS public.users (
@@ -24,21 +26,70 @@ CREATE TABLE IF NOT EXISTS public.events (
   start_time TIME NOT NULL,
   end_time TIME NOT NULL,
   location VARCHAR(255) NOT NULL,
+  -- Array of {id, name, session_date, start_time, end_time}; NULL means one implicit 'main' session
+  sessions JSONB,
+  -- Array of {id, label, type, required, options}; answers are stored on registrations
+  questions JSONB,
   qr_code_data TEXT NOT NULL UNIQUE,
   max_capacity INTEGER,
+  cancellation_cutoff_hours INTEGER,
+  -- Check-outs sooner than this after check-in are reported as partial attendance
+  min_attendance_minutes INTEGER,
+  -- Check-ins within the grace period after a session starts are on time; NULL uses the app defaults
+  late_grace_minutes INTEGER,
+  very_late_after_minutes INTEGER,
+  poster_url TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'published', 'registration_closed', 'archived', 'cancelled')),
+  registration_opens_at TIMESTAMP WITH TIME ZONE,
+  registration_closes_at TIMESTAMP WITH TIME ZONE,
+  -- Set for team events, which only accept registrations through create_team and join_team
+  min_team_size INTEGER,
+  max_team_size INTEGER,
+  -- {title, body, signatory_name, signatory_title}, saved when certificates are first issued
+  certificate_template JSONB,
+  changed_fields TEXT[],
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  cancellation_reason TEXT,
   created_by UUID REFERENCES public.users(id),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Create teams table
+CREATE TABLE IF NOT EXISTS public.teams (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID REFERENCES public.events(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  invite_code VARCHAR(20) NOT NULL,
+  leader_id UUID REFERENCES public.users(id),
+  max_size INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(event_id, name),
+  UNIQUE(event_id, invite_code)
+);
+
 -- Create registrations table
 CREATE TABLE IF NOT EXISTS public.registrations (
   id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
   event_id UUID REFERENCES public.events(id) ON DELETE CASCADE,
   user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
-  qr_code_data TEXT NOT NULL UNIQUE,
-  backup_code VARCHAR(20) NOT NULL UNIQUE,
+  user_name VARCHAR(255) NOT NULL,
+  user_email VARCHAR(255) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'confirmed' CHECK (status IN ('confirmed', 'waitlisted')),
+  -- Answers to the event's questions keyed by question id, validated by the app
+  answers JSONB,
+  team_id UUID REFERENCES public.teams(id) ON DELETE SET NULL,
+  student_id VARCHAR(50),
+  -- Registered at the door by staff; user_id is NULL when the walk-in has no account
+  walk_in BOOLEAN NOT NULL DEFAULT FALSE,
+  -- Issued on confirmation; waitlisted registrations have none yet
+  qr_code_data TEXT UNIQUE,
+  backup_code VARCHAR(20) UNIQUE,
   registration_date TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  promoted_at TIMESTAMP WITH TIME ZONE,
+  transferred_from VARCHAR(255),
+  transferred_at TIMESTAMP WITH TIME ZONE,
   UNIQUE(event_id, user_id)
 );
 
@@ -46,19 +97,69 @@ CREATE TABLE IF NOT EXISTS public.registrations (
 CREATE TABLE IF NOT EXISTS public.attendance (
   id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
   registration_id UUID REFERENCES public.registrations(id) ON DELETE CASCADE,
+  event_id UUID REFERENCES public.events(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  session_id VARCHAR(100) NOT NULL DEFAULT 'main',
   check_in_time TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  check_in_method VARCHAR(20) NOT NULL CHECK (check_in_method IN ('qr_scan', 'backup_code')),
+  check_in_method VARCHAR(20) NOT NULL CHECK (check_in_method IN ('qr_scan', 'backup_code', 'walk_in')),
   checked_in_by UUID REFERENCES public.users(id),
+  staff_name VARCHAR(255),
+  check_out_time TIMESTAMP WITH TIME ZONE,
+  checked_out_by UUID REFERENCES public.users(id),
+  check_out_staff_name VARCHAR(255),
+  -- One check-in per registration and session
+  UNIQUE(registration_id, session_id)
+);
+
+-- Create certificates table
+CREATE TABLE IF NOT EXISTS public.certificates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID REFERENCES public.events(id) ON DELETE CASCADE,
+  registration_id UUID REFERENCES public.registrations(id) ON DELETE CASCADE,
+  -- NULL for walk-ins without an account
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  recipient_name VARCHAR(255) NOT NULL,
+  -- Printed on the certificate and checked through verify_certificate
+  verification_code VARCHAR(20) NOT NULL UNIQUE,
+  issued_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   UNIQUE(registration_id)
 );
 
+-- Create signing keys table
+-- One secret per event that signs its QR tickets; scanners load it to verify tickets offline
+CREATE TABLE IF NOT EXISTS public.signing_keys (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id UUID NOT NULL UNIQUE REFERENCES public.events(id) ON DELETE CASCADE,
+  secret TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create support messages table
+CREATE TABLE IF NOT EXISTS public.support_messages (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id VARCHAR(255) NOT NULL,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  user_name VARCHAR(255) NOT NULL,
+  user_email VARCHAR(255) NOT NULL,
+  message TEXT NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolved_by UUID REFERENCES public.users(id)
+);
+
 -- Create indexes for performance
 CREATE INDEX IF NOT EXISTS idx_events_date ON public.events(event_date);
 CREATE INDEX IF NOT EXISTS idx_events_created_by ON public.events(created_by);
 CREATE INDEX IF NOT EXISTS idx_registrations_event ON public.registrations(event_id);
 CREATE INDEX IF NOT EXISTS idx_registrations_user ON public.registrations(user_id);
+CREATE INDEX IF NOT EXISTS idx_registrations_team ON public.registrations(team_id);
+CREATE INDEX IF NOT EXISTS idx_teams_event ON public.teams(event_id);
 CREATE INDEX IF NOT EXISTS idx_attendance_registration ON public.attendance(registration_id);
 CREATE INDEX IF NOT EXISTS idx_attendance_checked_in_by ON public.attendance(checked_in_by);
+CREATE INDEX IF NOT EXISTS idx_attendance_event ON public.attendance(event_id);
+CREATE INDEX IF NOT EXISTS idx_certificates_event ON public.certificates(event_id);
+CREATE INDEX IF NOT EXISTS idx_support_messages_event ON public.support_messages(event_id);
 CREATE INDEX IF NOT EXISTS idx_users_role ON public.users(role);
 
 -- Function to automatically create user profile on signup
@@ -70,19 +171,660 @@ BEGIN
     NEW.id,
     NEW.email,
     COALESCE(NEW.raw_user_meta_data->>'full_name', ''),
-    COALESCE(NEW.raw_user_meta_data->>'role', 'participant'),
+    -- Sign-up metadata is chosen by the client, so it never grants a role
+    'participant',
     NEW.raw_user_meta_data->>'student_id'
   );
   RETURN NEW;
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
+-- "Users can update own profile" covers every column, so only admins may change a role.
+-- The SQL editor and the service role have no auth.uid(); that is how the first admin is made.
+CREATE OR REPLACE FUNCTION public.protect_user_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role AND auth.uid() IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change roles';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
 -- Trigger to create user profile on signup
 DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
 CREATE TRIGGER on_auth_user_created
   AFTER INSERT ON auth.users
   FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
 
+DROP TRIGGER IF EXISTS on_user_role_change ON public.users;
+CREATE TRIGGER on_user_role_change
+  BEFORE UPDATE ON public.users
+  FOR EACH ROW EXECUTE FUNCTION public.protect_user_role();
+
+-- Backup codes are seven random characters from an alphabet without 0/O and 1/I plus a
+-- Luhn mod 32 check character, matching createBackupCode in src/lib/models.ts.
+-- gen_random_uuid() draws from the cryptographic random source; bytes 6 and 8 carry
+-- the UUID version and variant bits, so only the others are used.
+CREATE OR REPLACE FUNCTION public.generate_backup_code()
+RETURNS VARCHAR AS $$
+DECLARE
+  alphabet CONSTANT TEXT := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  bytes BYTEA := decode(replace(gen_random_uuid()::TEXT, '-', ''), 'hex');
+  code TEXT := '';
+  total INTEGER := 0;
+  factor INTEGER := 2;
+  addend INTEGER;
+  i INTEGER;
+BEGIN
+  FOREACH i IN ARRAY ARRAY[0, 1, 2, 3, 4, 5, 7] LOOP
+    code := code || substr(alphabet, get_byte(bytes, i) % 32 + 1, 1);
+  END LOOP;
+  FOR i IN REVERSE 7..1 LOOP
+    addend := factor * (strpos(alphabet, substr(code, i, 1)) - 1);
+    total := total + addend / 32 + addend % 32;
+    factor := 3 - factor;
+  END LOOP;
+  RETURN code || substr(alphabet, (32 - total % 32) % 32 + 1, 1);
+END;
+$$ LANGUAGE plpgsql;
+
+-- A backup code no registration uses yet. Runs as definer so it can see every event's
+-- codes; codes are looked up before the event is known, so they must be unique overall.
+CREATE OR REPLACE FUNCTION public.new_backup_code()
+RETURNS VARCHAR AS $$
+DECLARE
+  code VARCHAR;
+BEGIN
+  LOOP
+    code := public.generate_backup_code();
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.registrations WHERE backup_code = code);
+  END LOOP;
+  RETURN code;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The event's ticket signing secret, created on first use: 32 random bytes as base64url.
+-- Runs as definer because only staff may read secrets; clients cannot execute it.
+CREATE OR REPLACE FUNCTION public.event_signing_secret(p_event_id UUID)
+RETURNS TEXT AS $$
+  INSERT INTO public.signing_keys (event_id, secret)
+  VALUES (p_event_id, translate(rtrim(encode(gen_random_bytes(32), 'base64'), '='), '+/', '-_'))
+  ON CONFLICT (event_id) DO UPDATE SET event_id = EXCLUDED.event_id
+  RETURNING secret;
+$$ LANGUAGE sql SECURITY DEFINER;
+
+-- Scanners load an event's secret once and then verify its tickets offline; staff only
+CREATE OR REPLACE FUNCTION public.get_signing_secret(p_event_id UUID)
+RETURNS TEXT AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role IN ('admin', 'staff')) THEN
+    RAISE EXCEPTION 'Only staff can load ticket signing keys';
+  END IF;
+  RETURN public.event_signing_secret(p_event_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- SA1.<event id>.<registration id>.<issued at, hex milliseconds>.<signature>, where the
+-- signature is the first 16 bytes of HMAC-SHA256 over the rest, as base64url. Must match
+-- createTicketPayload in src/lib/tickets.ts. Clients cannot execute it, or they could forge tickets.
+CREATE OR REPLACE FUNCTION public.sign_ticket(p_event_id UUID, p_registration_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  message TEXT := 'SA1.' || p_event_id || '.' || p_registration_id || '.' || to_hex((extract(epoch FROM clock_timestamp()) * 1000)::BIGINT);
+BEGIN
+  RETURN message || '.' || translate(rtrim(encode(
+    substring(hmac(message, public.event_signing_secret(p_event_id), 'sha256') FROM 1 FOR 16), 'base64'
+  ), '='), '+/', '-_');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Issue a signed ticket whenever a registration becomes confirmed without one and whenever it
+-- changes hands, so the previous holder's ticket stops working. Restored tickets are kept.
+CREATE OR REPLACE FUNCTION public.issue_ticket()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status <> 'confirmed' THEN
+    NEW.qr_code_data := NULL;
+  ELSIF TG_OP = 'INSERT' THEN
+    NEW.qr_code_data := COALESCE(NEW.qr_code_data, public.sign_ticket(NEW.event_id, NEW.id));
+  ELSIF OLD.status <> 'confirmed' OR NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    NEW.qr_code_data := public.sign_ticket(NEW.event_id, NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_registration_ticket ON public.registrations;
+CREATE TRIGGER on_registration_ticket
+  BEFORE INSERT OR UPDATE ON public.registrations
+  FOR EACH ROW EXECUTE FUNCTION public.issue_ticket();
+
+-- Capacity-aware registration. Locking the event row serializes concurrent registrations,
+-- so the event can never be overbooked; registrations beyond max_capacity are waitlisted.
+-- Team events require p_team_id, which create_team and join_team pass.
+-- Runs as definer so the lock and the capacity count cover every registration, not just
+-- the rows the caller may see. Participants can only register themselves; admins importing
+-- a roster pass a NULL p_user_id and the account, if any, is found by email.
+CREATE OR REPLACE FUNCTION public.register_for_event(
+  p_event_id UUID,
+  p_user_id UUID,
+  p_user_name VARCHAR,
+  p_user_email VARCHAR,
+  p_answers JSONB DEFAULT NULL,
+  p_team_id UUID DEFAULT NULL,
+  p_student_id VARCHAR DEFAULT NULL
+)
+RETURNS public.registrations AS $$
+DECLARE
+  ev public.events%ROWTYPE;
+  tm public.teams%ROWTYPE;
+  confirmed_count INTEGER;
+  is_full BOOLEAN;
+  result public.registrations%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to register';
+  END IF;
+  IF p_user_id IS NULL AND EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin') THEN
+    SELECT id INTO p_user_id FROM public.users WHERE lower(email) = lower(p_user_email);
+    IF EXISTS (
+      SELECT 1 FROM public.registrations
+      WHERE event_id = p_event_id AND (user_id = p_user_id OR lower(user_email) = lower(p_user_email))
+    ) THEN
+      RAISE EXCEPTION 'Already registered for this event';
+    END IF;
+  ELSIF p_user_id IS NULL OR p_user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'You can only register yourself';
+  END IF;
+
+  SELECT * INTO ev FROM public.events WHERE id = p_event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+  IF ev.status = 'cancelled' THEN
+    RAISE EXCEPTION 'This event has been cancelled';
+  END IF;
+  IF ev.status = 'draft' THEN
+    RAISE EXCEPTION 'This event has not been published yet';
+  END IF;
+  IF ev.status = 'archived' THEN
+    RAISE EXCEPTION 'This event has been archived';
+  END IF;
+  IF ev.status = 'registration_closed' OR NOW() >= ev.registration_closes_at THEN
+    RAISE EXCEPTION 'Registration for this event is closed';
+  END IF;
+  IF NOW() < ev.registration_opens_at THEN
+    RAISE EXCEPTION 'Registration has not opened yet';
+  END IF;
+
+  IF p_team_id IS NOT NULL THEN
+    SELECT * INTO tm FROM public.teams WHERE id = p_team_id AND event_id = p_event_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Team not found';
+    END IF;
+    IF (SELECT COUNT(*) FROM public.registrations WHERE team_id = p_team_id) >= tm.max_size THEN
+      RAISE EXCEPTION 'This team is full';
+    END IF;
+  ELSIF ev.max_team_size IS NOT NULL THEN
+    RAISE EXCEPTION 'Create or join a team to register for this event';
+  END IF;
+
+  SELECT COUNT(*) INTO confirmed_count FROM public.registrations
+    WHERE event_id = p_event_id AND status = 'confirmed';
+  is_full := ev.max_capacity IS NOT NULL AND confirmed_count >= ev.max_capacity;
+
+  -- issue_ticket signs the QR ticket of a confirmed registration
+  INSERT INTO public.registrations (event_id, user_id, user_name, user_email, status, answers, team_id, student_id, backup_code)
+  VALUES (
+    p_event_id, p_user_id, p_user_name, p_user_email,
+    CASE WHEN is_full THEN 'waitlisted' ELSE 'confirmed' END,
+    p_answers,
+    p_team_id,
+    p_student_id,
+    CASE WHEN is_full THEN NULL ELSE public.new_backup_code() END
+  )
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Start a team and register its leader in one transaction. Runs as definer so the
+-- new team can be read back before the leader's registration links them to it.
+CREATE OR REPLACE FUNCTION public.create_team(
+  p_event_id UUID,
+  p_name VARCHAR,
+  p_max_size INTEGER,
+  p_invite_code VARCHAR,
+  p_user_id UUID,
+  p_user_name VARCHAR,
+  p_user_email VARCHAR,
+  p_answers JSONB DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  ev public.events%ROWTYPE;
+  new_team public.teams%ROWTYPE;
+  reg public.registrations%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL OR p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You can only register yourself';
+  END IF;
+
+  SELECT * INTO ev FROM public.events WHERE id = p_event_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+  IF ev.max_team_size IS NULL THEN
+    RAISE EXCEPTION 'This event does not use teams';
+  END IF;
+  IF COALESCE(TRIM(p_name), '') = '' THEN
+    RAISE EXCEPTION 'Team name is required';
+  END IF;
+  IF p_max_size < GREATEST(COALESCE(ev.min_team_size, 1), 1) OR p_max_size > ev.max_team_size THEN
+    RAISE EXCEPTION 'Team size must be between % and %', GREATEST(COALESCE(ev.min_team_size, 1), 1), ev.max_team_size;
+  END IF;
+
+  INSERT INTO public.teams (event_id, name, invite_code, leader_id, max_size)
+  VALUES (p_event_id, TRIM(p_name), p_invite_code, p_user_id, p_max_size)
+  RETURNING * INTO new_team;
+
+  reg := public.register_for_event(p_event_id, p_user_id, p_user_name, p_user_email, p_answers, new_team.id);
+
+  RETURN json_build_object('team', row_to_json(new_team), 'registration', row_to_json(reg));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Join a team by its invite code. Runs as definer because participants cannot
+-- read a team until they are one of its members.
+CREATE OR REPLACE FUNCTION public.join_team(
+  p_event_id UUID,
+  p_invite_code VARCHAR,
+  p_user_id UUID,
+  p_user_name VARCHAR,
+  p_user_email VARCHAR,
+  p_answers JSONB DEFAULT NULL
+)
+RETURNS public.registrations AS $$
+DECLARE
+  joined_team_id UUID;
+BEGIN
+  IF auth.uid() IS NULL OR p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You can only register yourself';
+  END IF;
+
+  SELECT id INTO joined_team_id FROM public.teams WHERE event_id = p_event_id AND invite_code = upper(trim(p_invite_code));
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No team found with this invite code';
+  END IF;
+
+  RETURN public.register_for_event(p_event_id, p_user_id, p_user_name, p_user_email, p_answers, joined_team_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- When a member's registration goes away, a departing leader hands the team to the
+-- longest-standing member, and a team without members is removed
+CREATE OR REPLACE FUNCTION public.handle_team_member_removed()
+RETURNS TRIGGER AS $$
+DECLARE
+  next_leader UUID;
+BEGIN
+  IF OLD.team_id IS NULL THEN
+    RETURN OLD;
+  END IF;
+
+  SELECT user_id INTO next_leader FROM public.registrations
+    WHERE team_id = OLD.team_id
+    ORDER BY registration_date
+    LIMIT 1;
+
+  IF next_leader IS NULL THEN
+    DELETE FROM public.teams WHERE id = OLD.team_id;
+  ELSE
+    UPDATE public.teams SET leader_id = next_leader WHERE id = OLD.team_id AND leader_id = OLD.user_id;
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_registration_deleted ON public.registrations;
+CREATE TRIGGER on_registration_deleted
+  AFTER DELETE ON public.registrations
+  FOR EACH ROW EXECUTE FUNCTION public.handle_team_member_removed();
+
+-- Move waitlisted registrations into free spots, oldest first, issuing their codes.
+-- Runs as definer to count and update every registration; clients reach it through
+-- promote_waitlisted and cancel_registration, which check the caller.
+CREATE OR REPLACE FUNCTION public.fill_waitlist(p_event_id UUID)
+RETURNS SETOF public.registrations AS $$
+DECLARE
+  ev public.events%ROWTYPE;
+  free_spots INTEGER;
+BEGIN
+  SELECT * INTO ev FROM public.events WHERE id = p_event_id FOR UPDATE;
+  IF NOT FOUND OR ev.status = 'cancelled' THEN
+    RETURN;
+  END IF;
+
+  IF ev.max_capacity IS NULL THEN
+    free_spots := NULL;
+  ELSE
+    SELECT GREATEST(ev.max_capacity - COUNT(*), 0) INTO free_spots FROM public.registrations
+      WHERE event_id = p_event_id AND status = 'confirmed';
+  END IF;
+
+  RETURN QUERY
+  UPDATE public.registrations r
+  SET status = 'confirmed',
+      backup_code = public.new_backup_code(),
+      promoted_at = NOW()
+  WHERE r.id IN (
+    SELECT id FROM public.registrations
+    WHERE event_id = p_event_id AND status = 'waitlisted'
+    ORDER BY registration_date
+    LIMIT free_spots
+  )
+  RETURNING r.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Fill free spots after an admin edits capacity or removes a registration
+CREATE OR REPLACE FUNCTION public.promote_waitlisted(p_event_id UUID)
+RETURNS SETOF public.registrations AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin')
+    AND NOT EXISTS (SELECT 1 FROM public.events WHERE id = p_event_id AND created_by = auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins can promote waitlisted registrations';
+  END IF;
+
+  RETURN QUERY SELECT * FROM public.fill_waitlist(p_event_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Participant self-service rules, matching getSelfServiceBlocker in src/lib/models.ts.
+-- Event times are local to the venue, so the database time zone must be the venue's.
+CREATE OR REPLACE FUNCTION public.check_self_service(reg public.registrations)
+RETURNS VOID AS $$
+DECLARE
+  ev public.events%ROWTYPE;
+  deadline TIMESTAMP;
+BEGIN
+  SELECT * INTO ev FROM public.events WHERE id = reg.event_id;
+  IF ev.status = 'cancelled' THEN
+    RAISE EXCEPTION 'This event has been cancelled';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.attendance WHERE registration_id = reg.id) THEN
+    RAISE EXCEPTION 'You have already checked in';
+  END IF;
+  deadline := (ev.event_date + ev.start_time) - make_interval(hours => COALESCE(ev.cancellation_cutoff_hours, 24));
+  IF LOCALTIMESTAMP > deadline THEN
+    RAISE EXCEPTION 'Changes were possible until %', to_char(deadline, 'YYYY-MM-DD HH24:MI');
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Give up a registration and hand the spot to the waitlist in one transaction.
+-- Runs as definer because participants cannot see the waitlisted registrations they free
+-- a spot for. Participants may only cancel their own, within the self-service rules;
+-- admins may remove any registration.
+CREATE OR REPLACE FUNCTION public.cancel_registration(p_registration_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  reg public.registrations%ROWTYPE;
+  is_admin BOOLEAN := EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin');
+BEGIN
+  SELECT * INTO reg FROM public.registrations WHERE id = p_registration_id FOR UPDATE;
+  IF NOT FOUND OR auth.uid() IS NULL OR (reg.user_id IS DISTINCT FROM auth.uid() AND NOT is_admin) THEN
+    RAISE EXCEPTION 'Registration not found';
+  END IF;
+  IF NOT is_admin THEN
+    PERFORM public.check_self_service(reg);
+  END IF;
+
+  DELETE FROM public.registrations WHERE id = p_registration_id;
+  PERFORM public.fill_waitlist(reg.event_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Seat numbers for the event page. Runs as definer because participants can only read their
+-- own registration; only the counts leave the function.
+CREATE OR REPLACE FUNCTION public.event_seat_counts(p_event_id UUID)
+RETURNS JSON AS $$
+  SELECT json_build_object(
+    'confirmed', COUNT(*) FILTER (WHERE status = 'confirmed'),
+    'waitlisted', COUNT(*) FILTER (WHERE status = 'waitlisted')
+  )
+  FROM public.registrations
+  WHERE event_id = p_event_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- 1-based waitlist position of the caller's own registration (any registration, for staff),
+-- or NULL when it is not waitlisted. Runs as definer to count the registrations ahead of it.
+CREATE OR REPLACE FUNCTION public.waitlist_position(p_registration_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  reg public.registrations%ROWTYPE;
+BEGIN
+  SELECT * INTO reg FROM public.registrations WHERE id = p_registration_id;
+  IF NOT FOUND OR reg.status <> 'waitlisted' OR (
+    reg.user_id IS DISTINCT FROM auth.uid()
+    AND NOT EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role IN ('admin', 'staff'))
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN (
+    SELECT COUNT(*) + 1 FROM public.registrations
+    WHERE event_id = reg.event_id AND status = 'waitlisted' AND registration_date < reg.registration_date
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Hand a registration to another participant. Runs as definer because participants
+-- cannot read other users' profiles; the caller must own the registration.
+CREATE OR REPLACE FUNCTION public.transfer_registration(
+  p_registration_id UUID,
+  p_to_email VARCHAR,
+  p_to_name VARCHAR
+)
+RETURNS public.registrations AS $$
+DECLARE
+  reg public.registrations%ROWTYPE;
+  recipient public.users%ROWTYPE;
+  result public.registrations%ROWTYPE;
+BEGIN
+  SELECT * INTO reg FROM public.registrations WHERE id = p_registration_id FOR UPDATE;
+  IF NOT FOUND OR auth.uid() IS NULL OR reg.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Registration not found';
+  END IF;
+  IF reg.status = 'waitlisted' THEN
+    RAISE EXCEPTION 'Waitlisted registrations cannot be transferred';
+  END IF;
+  PERFORM public.check_self_service(reg);
+
+  SELECT * INTO recipient FROM public.users WHERE lower(email) = lower(p_to_email);
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No account found for %', p_to_email;
+  END IF;
+  IF recipient.id = reg.user_id THEN
+    RAISE EXCEPTION 'You cannot transfer a registration to yourself';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.registrations WHERE event_id = reg.event_id AND user_id = recipient.id) THEN
+    RAISE EXCEPTION '% is already registered for this event', p_to_email;
+  END IF;
+
+  UPDATE public.registrations
+  SET user_id = recipient.id,
+      user_name = COALESCE(NULLIF(p_to_name, ''), recipient.full_name),
+      user_email = recipient.email,
+      -- The previous holder's details must not end up in the recipient's exports or certificate
+      student_id = NULL,
+      answers = NULL,
+      walk_in = FALSE,
+      backup_code = public.new_backup_code(),
+      transferred_from = reg.user_email,
+      transferred_at = NOW()
+  WHERE id = p_registration_id
+  RETURNING * INTO result;
+
+  -- The recipient takes over the team spot, including leadership
+  UPDATE public.teams SET leader_id = recipient.id WHERE id = reg.team_id AND leader_id = reg.user_id;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Atomic check-in: UNIQUE(registration_id, session_id) turns the insert into a compare-and-set.
+-- The scanner that loses a race gets the existing record back instead of an error.
+CREATE OR REPLACE FUNCTION public.check_in_attendee(
+  p_registration_id UUID,
+  p_session_id VARCHAR,
+  p_method VARCHAR,
+  p_staff_id UUID,
+  p_staff_name VARCHAR
+)
+RETURNS JSON AS $$
+DECLARE
+  reg public.registrations%ROWTYPE;
+  result public.attendance%ROWTYPE;
+BEGIN
+  SELECT * INTO reg FROM public.registrations WHERE id = p_registration_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Registration not found';
+  END IF;
+  IF reg.status = 'waitlisted' THEN
+    RAISE EXCEPTION 'Registration is still on the waitlist';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.events
+    WHERE id = reg.event_id
+      AND (CASE WHEN sessions IS NULL OR jsonb_array_length(sessions) = 0
+             THEN p_session_id = 'main'
+             ELSE sessions @> jsonb_build_array(jsonb_build_object('id', p_session_id)) END)
+  ) THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+
+  INSERT INTO public.attendance (registration_id, event_id, user_id, session_id, check_in_method, checked_in_by, staff_name)
+  VALUES (reg.id, reg.event_id, reg.user_id, p_session_id, p_method, p_staff_id, p_staff_name)
+  ON CONFLICT (registration_id, session_id) DO NOTHING
+  RETURNING * INTO result;
+
+  IF FOUND THEN
+    RETURN json_build_object('inserted', true, 'attendance', row_to_json(result));
+  END IF;
+
+  SELECT * INTO result FROM public.attendance WHERE registration_id = p_registration_id AND session_id = p_session_id;
+  RETURN json_build_object('inserted', false, 'attendance', row_to_json(result));
+END;
+$$ LANGUAGE plpgsql;
+
+-- Atomic check-out: only the first scan stamps check_out_time, later scans get the stamped row back
+CREATE OR REPLACE FUNCTION public.check_out_attendee(
+  p_registration_id UUID,
+  p_session_id VARCHAR,
+  p_staff_id UUID,
+  p_staff_name VARCHAR
+)
+RETURNS JSON AS $$
+DECLARE
+  result public.attendance%ROWTYPE;
+BEGIN
+  UPDATE public.attendance
+  SET check_out_time = NOW(), checked_out_by = p_staff_id, check_out_staff_name = p_staff_name
+  WHERE registration_id = p_registration_id AND session_id = p_session_id AND check_out_time IS NULL
+  RETURNING * INTO result;
+
+  IF FOUND THEN
+    RETURN json_build_object('updated', true, 'attendance', row_to_json(result));
+  END IF;
+
+  SELECT * INTO result FROM public.attendance WHERE registration_id = p_registration_id AND session_id = p_session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not checked in for this session';
+  END IF;
+  RETURN json_build_object('updated', false, 'attendance', row_to_json(result));
+END;
+$$ LANGUAGE plpgsql;
+
+-- Register someone at the door and check them in for the session in one transaction.
+-- Runs as definer to link an existing account by email; only staff and admins may call it.
+-- Walk-ins ignore the registration window but are refused, not waitlisted, when the event is full.
+CREATE OR REPLACE FUNCTION public.register_walk_in(
+  p_event_id UUID,
+  p_session_id VARCHAR,
+  p_user_email VARCHAR,
+  p_user_name VARCHAR,
+  p_student_id VARCHAR,
+  p_staff_id UUID,
+  p_staff_name VARCHAR
+)
+RETURNS JSON AS $$
+DECLARE
+  ev public.events%ROWTYPE;
+  account_id UUID;
+  reg public.registrations%ROWTYPE;
+  checked_in JSON;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role IN ('admin', 'staff')) THEN
+    RAISE EXCEPTION 'Only staff can register walk-ins';
+  END IF;
+
+  SELECT * INTO ev FROM public.events WHERE id = p_event_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Event not found';
+  END IF;
+  IF ev.status = 'cancelled' THEN
+    RAISE EXCEPTION 'This event has been cancelled';
+  END IF;
+  IF ev.status = 'draft' THEN
+    RAISE EXCEPTION 'This event has not been published yet';
+  END IF;
+  IF ev.status = 'archived' THEN
+    RAISE EXCEPTION 'This event has been archived';
+  END IF;
+
+  SELECT id INTO account_id FROM public.users WHERE lower(email) = lower(p_user_email);
+  IF EXISTS (
+    SELECT 1 FROM public.registrations
+    WHERE event_id = p_event_id AND (user_id = account_id OR lower(user_email) = lower(p_user_email))
+  ) THEN
+    RAISE EXCEPTION '% is already registered for this event. Scan their code instead.', p_user_email;
+  END IF;
+  IF ev.max_capacity IS NOT NULL AND (
+    SELECT COUNT(*) FROM public.registrations WHERE event_id = p_event_id AND status = 'confirmed'
+  ) >= ev.max_capacity THEN
+    RAISE EXCEPTION 'This event is full';
+  END IF;
+
+  INSERT INTO public.registrations (event_id, user_id, user_name, user_email, status, student_id, walk_in, backup_code)
+  VALUES (p_event_id, account_id, p_user_name, lower(p_user_email), 'confirmed', p_student_id, TRUE, public.new_backup_code())
+  RETURNING * INTO reg;
+
+  checked_in := public.check_in_attendee(reg.id, p_session_id, 'walk_in', p_staff_id, p_staff_name);
+
+  RETURN json_build_object('registration', row_to_json(reg), 'attendance', checked_in -> 'attendance');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Public certificate lookup for the /verify page. Runs as definer so visitors without
+-- an account can confirm a certificate without being able to read the tables.
+CREATE OR REPLACE FUNCTION public.verify_certificate(p_code VARCHAR)
+RETURNS JSON AS $$
+  SELECT json_build_object(
+    'recipient_name', c.recipient_name,
+    'event_name', e.name,
+    'event_date', e.event_date,
+    'issued_at', c.issued_at
+  )
+  FROM public.certificates c
+  JOIN public.events e ON e.id = c.event_id
+  WHERE c.verification_code = upper(trim(p_code));
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
 -- Function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION public.update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -105,7 +847,11 @@ CREATE TRIGGER update_events_updated_at BEFORE UPDATE ON public.events
 ALTER TABLE public.users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.events ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.registrations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.teams ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.attendance ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.certificates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.signing_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.support_messages ENABLE ROW LEVEL SECURITY;
 
 -- Users table policies
 CREATE POLICY "Users can view own profile" ON public.users
@@ -123,8 +869,14 @@ CREATE POLICY "Admins can view all users" ON public.users
   );
 
 -- Events table policies
+-- Drafts stay private to admins and staff until they are published
 CREATE POLICY "Anyone can view events" ON public.events
-  FOR SELECT USING (true);
+  FOR SELECT USING (
+    status <> 'draft' OR EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() AND role IN ('admin', 'staff')
+    )
+  );
 
 CREATE POLICY "Admins can create events" ON public.events
   FOR INSERT WITH CHECK (
@@ -154,11 +906,19 @@ CREATE POLICY "Admins can delete events" ON public.events
 CREATE POLICY "Users can view own registrations" ON public.registrations
   FOR SELECT USING (auth.uid() = user_id);
 
-CREATE POLICY "Users can create own registrations" ON public.registrations
-  FOR INSERT WITH CHECK (auth.uid() = user_id);
+-- Participants register only through register_for_event, create_team and join_team, which
+-- enforce capacity, the registration window, the waitlist and team sizes.
+-- Admins also write them directly when restoring a backup.
+CREATE POLICY "Admins can create registrations" ON public.registrations
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
 
-CREATE POLICY "Users can delete own registrations" ON public.registrations
-  FOR DELETE USING (auth.uid() = user_id);
+-- No DELETE policy: cancel_registration is the only way to remove a registration, so the
+-- cancellation rules hold and the freed spot goes to the waitlist
 
 CREATE POLICY "Staff can view all registrations" ON public.registrations
   FOR SELECT USING (
@@ -168,6 +928,55 @@ CREATE POLICY "Staff can view all registrations" ON public.registrations
     )
   );
 
+-- Teams table policies
+-- Teams are created and joined through create_team and join_team
+CREATE POLICY "Members can view their team" ON public.teams
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.registrations
+      WHERE team_id = teams.id AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Staff can view all teams" ON public.teams
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() AND role IN ('admin', 'staff')
+    )
+  );
+
+CREATE POLICY "Admins can manage teams" ON public.teams
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- Certificates table policies
+-- Anyone else checks a certificate through verify_certificate
+CREATE POLICY "Users can view own certificates" ON public.certificates
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage certificates" ON public.certificates
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- Signing keys table policies
+-- Staff load a secret through get_signing_secret; participants never see one
+CREATE POLICY "Admins can manage signing keys" ON public.signing_keys
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
 -- Attendance table policies
 CREATE POLICY "Staff can view attendance" ON public.attendance
   FOR SELECT USING (
@@ -185,6 +994,14 @@ CREATE POLICY "Staff can create attendance records" ON public.attendance
     )
   );
 
+CREATE POLICY "Staff can record check-outs" ON public.attendance
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() AND role IN ('admin', 'staff')
+    )
+  );
+
 CREATE POLICY "Users can view own attendance" ON public.attendance
   FOR SELECT USING (
     EXISTS (
@@ -193,6 +1010,37 @@ CREATE POLICY "Users can view own attendance" ON public.attendance
     )
   );
 
+-- Support messages table policies
+CREATE POLICY "Users can view own support messages" ON public.support_messages
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own support messages" ON public.support_messages
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage support messages" ON public.support_messages
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
+-- Storage bucket for event posters
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('event-posters', 'event-posters', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can view event posters" ON storage.objects
+  FOR SELECT USING (bucket_id = 'event-posters');
+
+CREATE POLICY "Admins can upload event posters" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'event-posters' AND EXISTS (
+      SELECT 1 FROM public.users 
+      WHERE id = auth.uid() AND role = 'admin'
+    )
+  );
+
 -- Create views for easier querying
 CREATE OR REPLACE VIEW public.events_with_stats AS
 SELECT 
@@ -217,6 +1065,11 @@ GRANT USAGE ON SCHEMA public TO anon, authenticated;
 GRANT ALL ON ALL TABLES IN SCHEMA public TO anon, authenticated;
 GRANT ALL ON ALL SEQUENCES IN SCHEMA public TO anon, authenticated;
 GRANT ALL ON ALL FUNCTIONS IN SCHEMA public TO anon, authenticated;
+-- Only definer functions may read secrets, sign tickets, fill the waitlist or check self-service rules
+REVOKE EXECUTE ON FUNCTION public.event_signing_secret(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sign_ticket(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.fill_waitlist(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.check_self_service(public.registrations) FROM PUBLIC, anon, authenticated;
 
 -- Insert sample data (optional - remove in production)
 -- Sample admin user (you'll need to create this user through Supabase Auth first)
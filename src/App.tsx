@@ -7,6 +7,7 @@ import Index from './pages/Index';
 import Dashboard from './pages/Dashboard';
 import EventDetails from './pages/EventDetails';
 import Scanner from './pages/Scanner';
+import VerifyCertificate from './pages/VerifyCertificate';
 import NotFound from './pages/NotFound';
 
 const queryClient = new QueryClient();
@@ -16,17 +17,23 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <BrowserRouter>
-        <AuthWrapper>
-          {(user) => (
-            <Routes>
-              <Route path="/" element={<Index user={user} />} />
-              <Route path="/dashboard" element={<Dashboard user={user} />} />
-              <Route path="/event/:eventId" element={<EventDetails user={user} />} />
-              <Route path="/scanner" element={<Scanner user={user} />} />
-              <Route path="*" element={<NotFound />} />
-            </Routes>
-          )}
-        </AuthWrapper>
+        <Routes>
+          {/* Public: opened from the QR code on a certificate, no login needed */}
+          <Route path="/verify/:code" element={<VerifyCertificate />} />
+          <Route path="*" element={
+            <AuthWrapper>
+              {(user) => (
+                <Routes>
+                  <Route path="/" element={<Index user={user} />} />
+                  <Route path="/dashboard" element={<Dashboard user={user} />} />
+                  <Route path="/event/:eventId" element={<EventDetails user={user} />} />
+                  <Route path="/scanner" element={<Scanner user={user} />} />
+                  <Route path="*" element={<NotFound />} />
+                </Routes>
+              )}
+            </AuthWrapper>
+          } />
+        </Routes>
       </BrowserRouter>
     </TooltipProvider>
   </QueryClientProvider>
@@ -1,11 +1,14 @@
 import { useEffect, useState } from 'react'
 import { getCurrentUser, signIn, signOut, User, validateEmail } from '@/lib/auth'
+import { dataBackend } from '@/lib/repository'
+import { getSupabaseUser, signInWithSupabase, signUpWithSupabase, signOutOfSupabase, onSupabaseAuthChange } from '@/lib/supabase'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Loader2, LogOut, Info, Sparkles } from 'lucide-react'
 
 interface AuthWrapperProps {
@@ -17,14 +20,37 @@ export default function AuthWrapper({ children }: AuthWrapperProps) {
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
-    // Check if user is already logged in
-    const currentUser = getCurrentUser()
-    setUser(currentUser)
-    setLoading(false)
+    if (dataBackend !== 'supabase') {
+      // Check if user is already logged in
+      const currentUser = getCurrentUser()
+      setUser(currentUser)
+      setLoading(false)
+      return
+    }
+
+    // Row level security trusts only the Supabase session, so the profile comes from there
+    const loadUser = () => getSupabaseUser()
+      .then(setUser)
+      .catch((err) => {
+        console.error('Error loading profile:', err)
+        setUser(null)
+      })
+    loadUser().finally(() => setLoading(false))
+    return onSupabaseAuthChange((signedIn) => {
+      if (signedIn) {
+        loadUser()
+      } else {
+        setUser(null)
+      }
+    })
   }, [])
 
-  const handleSignOut = () => {
-    signOut()
+  const handleSignOut = async () => {
+    if (dataBackend === 'supabase') {
+      await signOutOfSupabase()
+    } else {
+      signOut()
+    }
     setUser(null)
   }
 
@@ -40,7 +66,9 @@ export default function AuthWrapper({ children }: AuthWrapperProps) {
   }
 
   if (!user) {
-    return <AuthForm onAuthSuccess={setUser} />
+    return dataBackend === 'supabase'
+      ? <SupabaseAuthForm onAuthSuccess={setUser} />
+      : <AuthForm onAuthSuccess={setUser} />
   }
 
   return (
@@ -269,4 +297,167 @@ function AuthForm({ onAuthSuccess }: AuthFormProps) {
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
+
+// Supabase Auth accounts: everyone signs up as a participant and signs in with a password;
+// admins grant the staff and admin roles in the users table
+function SupabaseAuthForm({ onAuthSuccess }: AuthFormProps) {
+  const [mode, setMode] = useState<'sign_in' | 'sign_up'>('sign_in')
+  const [formData, setFormData] = useState({
+    email: '',
+    password: '',
+    fullName: '',
+    studentId: ''
+  })
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setNotice(null)
+
+    const emailValidation = validateEmail(formData.email)
+    if (!emailValidation.valid) {
+      setError(emailValidation.error || 'Invalid email')
+      return
+    }
+
+    setLoading(true)
+    try {
+      if (mode === 'sign_in') {
+        onAuthSuccess(await signInWithSupabase(formData.email, formData.password))
+        return
+      }
+      const user = await signUpWithSupabase(formData.email, formData.password, formData.fullName, formData.studentId)
+      if (user) {
+        onAuthSuccess(user)
+      } else {
+        setNotice('Check your inbox to confirm your email address, then sign in.')
+        setMode('sign_in')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Authentication failed')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const isFormValid = formData.email && formData.password && (mode === 'sign_in' || formData.fullName.trim())
+
+  return (
+    <div className="min-h-screen auth-background flex items-center justify-center p-4">
+      <div className="auth-content w-full max-w-md">
+        <Card className="card-dark border-pink-500/30 shadow-2xl">
+          <CardHeader className="text-center space-y-4">
+            <div className="flex items-center justify-center space-x-2 mb-2">
+              <Sparkles className="h-8 w-8 text-pink-500" />
+              <CardTitle className="text-3xl font-bold brand-text">
+                SwiftAttend
+              </CardTitle>
+            </div>
+            <CardDescription className="text-gray-400 text-lg">
+              Event Management & Attendance Tracking
+            </CardDescription>
+            <div className="w-16 h-1 pink-gradient mx-auto rounded-full"></div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <Tabs value={mode} onValueChange={(value) => setMode(value as 'sign_in' | 'sign_up')}>
+              <TabsList className="grid w-full grid-cols-2 bg-gray-800 border-pink-500/30">
+                <TabsTrigger value="sign_in" className="data-[state=active]:bg-pink-500/20 data-[state=active]:text-pink-300">
+                  Sign In
+                </TabsTrigger>
+                <TabsTrigger value="sign_up" className="data-[state=active]:bg-pink-500/20 data-[state=active]:text-pink-300">
+                  Create Account
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
+
+            <form onSubmit={handleSubmit} className="space-y-5">
+              {mode === 'sign_up' && (
+                <div className="space-y-2">
+                  <Label htmlFor="fullName" className="text-gray-300">Full Name</Label>
+                  <Input
+                    id="fullName"
+                    value={formData.fullName}
+                    onChange={(e) => setFormData({ ...formData, fullName: e.target.value })}
+                    placeholder="Enter your full name"
+                    required
+                    className="input-dark placeholder:text-gray-500"
+                  />
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="email" className="text-gray-300">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                  placeholder="Enter your @nmamit.in email"
+                  required
+                  className="input-dark placeholder:text-gray-500"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="password" className="text-gray-300">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={formData.password}
+                  onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                  placeholder={mode === 'sign_up' ? 'Choose a password' : 'Enter your password'}
+                  autoComplete={mode === 'sign_up' ? 'new-password' : 'current-password'}
+                  required
+                  className="input-dark placeholder:text-gray-500"
+                />
+              </div>
+
+              {mode === 'sign_up' && (
+                <div className="space-y-2">
+                  <Label htmlFor="studentId" className="text-gray-300">Student ID (Optional)</Label>
+                  <Input
+                    id="studentId"
+                    value={formData.studentId}
+                    onChange={(e) => setFormData({ ...formData, studentId: e.target.value })}
+                    placeholder="Enter your student ID"
+                    className="input-dark placeholder:text-gray-500"
+                  />
+                </div>
+              )}
+
+              <Button
+                type="submit"
+                disabled={loading || !isFormValid}
+                className="w-full btn-pink text-white font-medium py-3 text-lg"
+              >
+                {loading ? <Loader2 className="h-5 w-5 animate-spin mr-2" /> : null}
+                {mode === 'sign_up' ? 'Create Account' : 'Sign In'}
+              </Button>
+            </form>
+
+            {notice && (
+              <Alert className="success-pink">
+                <AlertDescription>{notice}</AlertDescription>
+              </Alert>
+            )}
+
+            {error && (
+              <Alert className="error-pink">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="mt-6 text-xs text-gray-500 space-y-2 bg-gray-800/50 p-4 rounded-lg">
+              <p>• New accounts are participants; ask an administrator for staff or admin access</p>
+              <p>• All emails must end with <strong className="text-pink-300">@nmamit.in</strong></p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
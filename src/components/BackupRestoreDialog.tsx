@@ -0,0 +1,215 @@
+import { useState, useEffect } from 'react'
+import { RestoreMode } from '@/lib/models'
+import { createBackup, backupFilename, parseBackup, previewRestore, restoreBackup, ParsedBackup, RestorePreview } from '@/lib/backup'
+import { downloadBlob } from '@/lib/download'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Archive, Download, Upload, Loader2 } from 'lucide-react'
+
+const COLLECTION_LABELS: Record<keyof RestorePreview, string> = {
+  events: 'Events',
+  registrations: 'Registrations',
+  attendances: 'Attendance records',
+  support_messages: 'Support messages',
+  teams: 'Teams',
+  certificates: 'Certificates',
+  signing_keys: 'Ticket signing keys'
+}
+
+export default function BackupRestoreDialog() {
+  const [open, setOpen] = useState(false)
+  const [exporting, setExporting] = useState(false)
+  const [restoring, setRestoring] = useState(false)
+  const [backup, setBackup] = useState<ParsedBackup | null>(null)
+  const [mode, setMode] = useState<RestoreMode>('merge')
+  const [preview, setPreview] = useState<RestorePreview | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  // Recompute the dry-run diff whenever the file or the mode changes
+  useEffect(() => {
+    if (!backup) {
+      setPreview(null)
+      return
+    }
+    previewRestore(backup, mode)
+      .then(setPreview)
+      .catch((err) => {
+        setError('Failed to compare backup with current data')
+        console.error('Error previewing restore:', err)
+      })
+  }, [backup, mode])
+
+  const handleExport = async () => {
+    setExporting(true)
+    setError(null)
+    setSuccess(null)
+
+    try {
+      const bundle = await createBackup()
+      downloadBlob(new Blob([JSON.stringify(bundle)], { type: 'application/json' }), backupFilename(bundle))
+      setSuccess('Backup downloaded')
+    } catch (err) {
+      setError('Failed to create backup')
+      console.error('Error creating backup:', err)
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setError(null)
+    setSuccess(null)
+    setBackup(null)
+
+    try {
+      setBackup(await parseBackup(await file.text()))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read backup file')
+      console.error('Error reading backup:', err)
+    }
+  }
+
+  const handleRestore = async () => {
+    if (!backup) return
+    if (mode === 'replace' && !confirm('Replace ALL current data with this backup? This cannot be undone.')) {
+      return
+    }
+
+    setRestoring(true)
+    setError(null)
+    setSuccess(null)
+
+    try {
+      await restoreBackup(backup, mode)
+      setBackup(null)
+      setSuccess(mode === 'replace' ? 'All data replaced from backup' : 'Backup merged into current data')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore backup')
+      console.error('Error restoring backup:', err)
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="border-pink-500/30 text-pink-400 hover:bg-pink-500/10">
+          <Archive className="h-4 w-4 mr-2" />
+          Backup & Restore
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl card-dark border-pink-500/30">
+        <DialogHeader>
+          <DialogTitle className="text-white">Backup & Restore</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Export all events, registrations, attendance and support history, or restore them from a backup file
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 max-h-[70vh] overflow-y-auto">
+          <div className="p-4 bg-pink-500/10 rounded-lg border border-pink-500/20 space-y-3">
+            <h4 className="font-medium text-pink-300">Export</h4>
+            <p className="text-sm text-gray-400">
+              Downloads a versioned JSON file with posters included and a checksum to detect corruption.
+            </p>
+            <Button onClick={handleExport} disabled={exporting} className="btn-pink">
+              {exporting ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Download className="h-4 w-4 mr-2" />}
+              Download Backup
+            </Button>
+          </div>
+
+          <div className="p-4 bg-pink-500/10 rounded-lg border border-pink-500/20 space-y-4">
+            <h4 className="font-medium text-pink-300">Restore</h4>
+            <input
+              id="backup-file"
+              type="file"
+              accept="application/json,.json"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <Label htmlFor="backup-file" className="cursor-pointer">
+              <div className="flex items-center text-pink-400">
+                <Upload className="h-4 w-4 mr-2" />
+                <span className="font-medium">Choose backup file</span>
+              </div>
+            </Label>
+
+            {backup && (
+              <>
+                <p className="text-sm text-gray-300">
+                  Backup from <strong className="text-pink-300">{new Date(backup.bundle.created_at).toLocaleString()}</strong>
+                  {backup.invalid.length > 0 && (
+                    <span className="text-red-400"> — {backup.invalid.length} invalid record(s) will be skipped</span>
+                  )}
+                </p>
+
+                <RadioGroup value={mode} onValueChange={(value: RestoreMode) => setMode(value)} className="space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="merge" id="restore-merge" />
+                    <Label htmlFor="restore-merge" className="text-gray-300">Merge — add and update records, keep everything else; a backup registration replaces the same person's current one</Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="replace" id="restore-replace" />
+                    <Label htmlFor="restore-replace" className="text-gray-300">Replace — current data is removed first</Label>
+                  </div>
+                </RadioGroup>
+
+                {preview && (
+                  <Table className="admin-table">
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="text-pink-400">Data</TableHead>
+                        <TableHead className="text-pink-400">Added</TableHead>
+                        <TableHead className="text-pink-400">Updated</TableHead>
+                        <TableHead className="text-pink-400">Unchanged</TableHead>
+                        <TableHead className="text-pink-400">Removed</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {(Object.keys(COLLECTION_LABELS) as (keyof RestorePreview)[]).map((collection) => (
+                        <TableRow key={collection}>
+                          <TableCell className="text-white font-medium">{COLLECTION_LABELS[collection]}</TableCell>
+                          <TableCell className="text-green-400">{preview[collection].added}</TableCell>
+                          <TableCell className="text-pink-300">{preview[collection].updated}</TableCell>
+                          <TableCell className="text-gray-400">{preview[collection].unchanged}</TableCell>
+                          <TableCell className="text-red-400">{preview[collection].removed}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+
+                <Button onClick={handleRestore} disabled={restoring || !preview} className="w-full btn-pink">
+                  {restoring ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+                  {mode === 'replace' ? 'Replace All Data' : 'Merge Backup'}
+                </Button>
+              </>
+            )}
+          </div>
+
+          {error && (
+            <Alert className="error-pink">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {success && (
+            <Alert className="success-pink">
+              <AlertDescription>{success}</AlertDescription>
+            </Alert>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
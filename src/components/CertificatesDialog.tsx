@@ -0,0 +1,183 @@
+import { useState } from 'react'
+import { Event, Certificate, CertificateTemplate, DEFAULT_CERTIFICATE_TEMPLATE } from '@/lib/models'
+import { repository } from '@/lib/repository'
+import { createCertificatesPdf, certificatesFilename, canVerifyPublicly } from '@/lib/certificates'
+import { downloadBlob } from '@/lib/download'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Award, Loader2 } from 'lucide-react'
+
+interface CertificatesDialogProps {
+  event: Event
+}
+
+// Template editor for an event's participation certificates, issuing and downloading them as one PDF
+export default function CertificatesDialog({ event }: CertificatesDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [template, setTemplate] = useState<CertificateTemplate>(DEFAULT_CERTIFICATE_TEMPLATE)
+  const [certificates, setCertificates] = useState<Certificate[]>([])
+  const [issuing, setIssuing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  const handleOpenChange = async (isOpen: boolean) => {
+    setOpen(isOpen)
+    setError(null)
+    setSuccess(null)
+    if (!isOpen) return
+
+    try {
+      // The event passed in may predate the last saved template
+      const [latest, issued] = await Promise.all([
+        repository.getEventById(event.id),
+        repository.getEventCertificates(event.id)
+      ])
+      setTemplate(latest?.certificate_template ?? DEFAULT_CERTIFICATE_TEMPLATE)
+      setCertificates(issued)
+    } catch (err) {
+      setError('Failed to load certificates')
+      console.error('Error loading certificates:', err)
+    }
+  }
+
+  const handleIssue = async () => {
+    setIssuing(true)
+    setError(null)
+    setSuccess(null)
+
+    try {
+      const issued = await repository.issueCertificates(event.id, template)
+      setCertificates(issued)
+      if (issued.length === 0) {
+        setError('No one has checked in to this event yet')
+        return
+      }
+      downloadBlob(createCertificatesPdf(event, template, issued), certificatesFilename(event))
+      const added = issued.length - certificates.length
+      setSuccess(added > 0 ? `Issued ${added} new certificate${added === 1 ? '' : 's'}` : 'Certificates downloaded')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to issue certificates')
+    } finally {
+      setIssuing(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="border-pink-500/30 text-pink-400 hover:bg-pink-500/10">
+          <Award className="h-4 w-4 mr-2" />
+          Certificates
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl card-dark border-pink-500/30">
+        <DialogHeader>
+          <DialogTitle className="text-white">Certificates: {event.name}</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Everyone who checked in gets a certificate with a verification code and QR that anyone can check without logging in
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 max-h-[70vh] overflow-y-auto pr-1">
+          {!canVerifyPublicly && (
+            <Alert className="error-pink">
+              <AlertDescription>
+                This installation keeps its data in this browser, so certificate codes can only be verified here. Switch to the Supabase backend for verification links that work for everyone.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="certificate-title" className="text-gray-300">Title</Label>
+            <Input
+              id="certificate-title"
+              value={template.title}
+              onChange={(e) => setTemplate({ ...template, title: e.target.value })}
+              className="input-dark"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="certificate-body" className="text-gray-300">Text</Label>
+            <Textarea
+              id="certificate-body"
+              value={template.body}
+              onChange={(e) => setTemplate({ ...template, body: e.target.value })}
+              rows={3}
+              className="input-dark"
+            />
+            <p className="text-xs text-gray-500">
+              {'{name}'}, {'{event}'} and {'{date}'} are replaced with the attendee's name, the event name and its date
+            </p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="certificate-signatory-name" className="text-gray-300">Signatory Name (Optional)</Label>
+              <Input
+                id="certificate-signatory-name"
+                value={template.signatory_name}
+                onChange={(e) => setTemplate({ ...template, signatory_name: e.target.value })}
+                className="input-dark"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="certificate-signatory-title" className="text-gray-300">Signatory Title</Label>
+              <Input
+                id="certificate-signatory-title"
+                value={template.signatory_title}
+                onChange={(e) => setTemplate({ ...template, signatory_title: e.target.value })}
+                className="input-dark"
+              />
+            </div>
+          </div>
+
+          {certificates.length > 0 && (
+            <Table className="admin-table">
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-pink-400">Recipient</TableHead>
+                  <TableHead className="text-pink-400">Verification Code</TableHead>
+                  <TableHead className="text-pink-400">Issued</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...certificates].sort((a, b) => a.recipient_name.localeCompare(b.recipient_name)).map((certificate) => (
+                  <TableRow key={certificate.id}>
+                    <TableCell className="text-white">{certificate.recipient_name}</TableCell>
+                    <TableCell>
+                      <a href={`/verify/${certificate.verification_code}`} target="_blank" rel="noreferrer" className="font-mono text-pink-300 hover:underline">
+                        {certificate.verification_code}
+                      </a>
+                    </TableCell>
+                    <TableCell className="text-gray-300">{new Date(certificate.issued_at).toLocaleDateString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {error && (
+            <Alert className="error-pink">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {success && (
+            <Alert className="success-pink">
+              <AlertDescription>{success}</AlertDescription>
+            </Alert>
+          )}
+
+          <Button onClick={handleIssue} disabled={issuing} className="w-full btn-pink">
+            {issuing ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Award className="h-4 w-4 mr-2" />}
+            Issue & Download Certificates
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
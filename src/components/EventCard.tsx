@@ -3,12 +3,15 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Calendar, Clock, MapPin, Users, QrCode } from 'lucide-react'
-import { Event, User, registerForEvent } from '@/lib/supabase'
+import { User } from '@/lib/auth'
+import { repository } from '@/lib/repository'
+import { Event, EventStats, getRegistrationBlocker } from '@/lib/models'
 import { toast } from 'sonner'
 
 interface EventCardProps {
   event: Event
   user: User
+  stats?: EventStats
   onRegister?: () => void
   showAdminActions?: boolean
   onEdit?: (event: Event) => void
@@ -18,6 +21,7 @@ interface EventCardProps {
 export default function EventCard({ 
   event, 
   user, 
+  stats,
   onRegister, 
   showAdminActions = false,
   onEdit,
@@ -28,8 +32,12 @@ export default function EventCard({
   const handleRegister = async () => {
     setRegistering(true)
     try {
-      await registerForEvent(event.id, user.id)
-      toast.success('Successfully registered for event!')
+      const registration = await repository.registerForEvent(event.id, user.id, user.full_name, user.email)
+      if (registration.status === 'waitlisted') {
+        toast.success('Event is full, you have joined the waitlist')
+      } else {
+        toast.success('Successfully registered for event!')
+      }
       onRegister?.()
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to register for event'
@@ -58,6 +66,8 @@ export default function EventCard({
 
   const isEventPast = new Date(event.event_date) < new Date()
   const isEventToday = new Date(event.event_date).toDateString() === new Date().toDateString()
+  const isCancelled = event.status === 'cancelled'
+  const registrationBlocker = getRegistrationBlocker(event)
 
   return (
     <Card className="w-full hover:shadow-lg transition-shadow duration-200">
@@ -80,6 +90,11 @@ export default function EventCard({
                 Past
               </Badge>
             )}
+            {isCancelled && (
+              <Badge variant="destructive">
+                Cancelled
+              </Badge>
+            )}
           </div>
         </div>
       </CardHeader>
@@ -103,23 +118,23 @@ export default function EventCard({
         <div className="flex items-center gap-4 text-sm text-gray-600">
           <div className="flex items-center gap-2">
             <Users className="h-4 w-4" />
-            <span>{event.registration_count || 0} registered</span>
+            <span>{stats?.totalRegistrations || 0} registered</span>
           </div>
           {event.max_capacity && (
             <span>/ {event.max_capacity} max</span>
           )}
         </div>
         
-        {event.attendance_count !== undefined && (
+        {stats && (
           <div className="flex items-center gap-2 text-sm text-green-600">
             <QrCode className="h-4 w-4" />
-            <span>{event.attendance_count} checked in</span>
+            <span>{stats.totalAttendances} checked in</span>
           </div>
         )}
       </CardContent>
       
       <CardFooter className="flex gap-2">
-        {user.role === 'participant' && !isEventPast && (
+        {user.role === 'participant' && !isEventPast && !registrationBlocker && (
           <Button
             onClick={handleRegister}
             disabled={registering}
@@ -0,0 +1,296 @@
+import { useState, useEffect } from 'react'
+import { Event } from '@/lib/models'
+import { repository } from '@/lib/repository'
+import { ExportColumnChoice, ExportData, ExportDataset, ExportFormat, ExportTemplate, EXPORT_DATASET_LABELS, EXPORT_FORMAT_LABELS, buildExportTable, deleteExportTemplate, exportBlob, exportFilename, getDefaultColumnChoices, getExportColumns, getExportTemplates, saveExportTemplate } from '@/lib/export'
+import { downloadBlob } from '@/lib/download'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Download, Loader2, Plus, Save, Trash2, ArrowUp, ArrowDown, X } from 'lucide-react'
+
+interface ExportDialogProps {
+  events: Event[]
+  label: string
+}
+
+// Radix Select items can't have an empty value
+const NO_TEMPLATE = 'none'
+
+// Column picker and saved templates for attendance and registration exports
+export default function ExportDialog({ events, label }: ExportDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [records, setRecords] = useState<Omit<ExportData, 'events'> | null>(null)
+  const [dataset, setDataset] = useState<ExportDataset>('attendance')
+  const [format, setFormat] = useState<ExportFormat>('csv')
+  const [columns, setColumns] = useState<ExportColumnChoice[]>([])
+  const [templates, setTemplates] = useState<ExportTemplate[]>([])
+  const [templateName, setTemplateName] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+
+  // Registrations, attendance and teams are filtered down to the chosen events when building the table
+  useEffect(() => {
+    if (!open) return
+    setRecords(null)
+    Promise.all([repository.getRegistrations(), repository.getAttendances(), repository.getTeams()])
+      .then(([registrations, attendances, teams]) => setRecords({ registrations, attendances, teams }))
+      .catch((err) => {
+        setError('Failed to load registrations and attendance')
+        console.error('Error loading export data:', err)
+      })
+  }, [open])
+
+  const availableColumns = getExportColumns(dataset, events)
+  const unusedColumns = availableColumns.filter(column => !columns.some(choice => choice.id === column.id))
+  const datasetTemplates = templates.filter(template => template.dataset === dataset)
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen)
+    setError(null)
+    setSuccess(null)
+    if (isOpen) {
+      setTemplates(getExportTemplates())
+      setColumns(getDefaultColumnChoices(dataset, events))
+      setTemplateName('')
+    }
+  }
+
+  const showMessage = (message: string) => {
+    setError(null)
+    setSuccess(message)
+  }
+
+  const handleDatasetChange = (value: ExportDataset) => {
+    setDataset(value)
+    setColumns(getDefaultColumnChoices(value, events))
+    setTemplateName('')
+  }
+
+  const handleApplyTemplate = (name: string) => {
+    const template = datasetTemplates.find(t => t.name === name)
+    if (!template) {
+      setColumns(getDefaultColumnChoices(dataset, events))
+      setTemplateName('')
+      return
+    }
+    setFormat(template.format)
+    setColumns(template.columns)
+    setTemplateName(template.name)
+  }
+
+  const handleSaveTemplate = () => {
+    try {
+      saveExportTemplate({ name: templateName, dataset, format, columns })
+      setTemplates(getExportTemplates())
+      showMessage(`Template "${templateName.trim()}" saved`)
+    } catch (err) {
+      setSuccess(null)
+      setError(err instanceof Error ? err.message : 'Failed to save template')
+    }
+  }
+
+  const handleDeleteTemplate = () => {
+    deleteExportTemplate(dataset, templateName)
+    setTemplates(getExportTemplates())
+    showMessage(`Template "${templateName}" deleted`)
+    setTemplateName('')
+  }
+
+  const updateHeader = (index: number, header: string) => {
+    setColumns(columns.map((column, i) => i === index ? { ...column, header } : column))
+  }
+
+  const moveColumn = (index: number, offset: number) => {
+    const reordered = [...columns]
+    const [column] = reordered.splice(index, 1)
+    reordered.splice(index + offset, 0, column)
+    setColumns(reordered)
+  }
+
+  const addColumn = (columnId: string) => {
+    const column = availableColumns.find(c => c.id === columnId)
+    if (column) {
+      setColumns([...columns, { id: column.id, header: column.label }])
+    }
+  }
+
+  const handleExport = () => {
+    if (!records) return
+    if (columns.length === 0) {
+      setError('Pick at least one column')
+      return
+    }
+    const table = buildExportTable(dataset, { events, ...records }, columns)
+    downloadBlob(exportBlob(format, dataset, table), exportFilename(dataset, format, events))
+    showMessage(`Exported ${table.length - 1} rows`)
+  }
+
+  const isSavedTemplate = datasetTemplates.some(template => template.name === templateName)
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="border-pink-500/30 text-pink-400 hover:bg-pink-500/10">
+          <Download className="h-4 w-4 mr-2" />
+          {label}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl card-dark border-pink-500/30">
+        <DialogHeader>
+          <DialogTitle className="text-white">Export Data</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            {events.length === 1 ? events[0].name : `${events.length} events`} as CSV or Excel, with the columns and headers you choose
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 max-h-[70vh] overflow-y-auto pr-1">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label className="text-gray-300">Data</Label>
+              <Select value={dataset} onValueChange={(value) => handleDatasetChange(value as ExportDataset)}>
+                <SelectTrigger className="input-dark">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-900 border-pink-500/30">
+                  {(Object.keys(EXPORT_DATASET_LABELS) as ExportDataset[]).map((value) => (
+                    <SelectItem key={value} value={value} className="text-gray-300 hover:bg-pink-500/20">
+                      {EXPORT_DATASET_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-gray-300">Format</Label>
+              <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+                <SelectTrigger className="input-dark">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-900 border-pink-500/30">
+                  {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map((value) => (
+                    <SelectItem key={value} value={value} className="text-gray-300 hover:bg-pink-500/20">
+                      {EXPORT_FORMAT_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-gray-300">Template</Label>
+              <Select value={isSavedTemplate ? templateName : NO_TEMPLATE} onValueChange={handleApplyTemplate}>
+                <SelectTrigger className="input-dark">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-900 border-pink-500/30">
+                  <SelectItem value={NO_TEMPLATE} className="text-gray-300 hover:bg-pink-500/20">All columns</SelectItem>
+                  {datasetTemplates.map((template) => (
+                    <SelectItem key={template.name} value={template.name} className="text-gray-300 hover:bg-pink-500/20">
+                      {template.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="p-4 bg-pink-500/10 rounded-lg border border-pink-500/20 space-y-3">
+            <h4 className="font-medium text-pink-300">Columns</h4>
+            <p className="text-xs text-gray-400">
+              Rename headers and reorder columns to match the format you upload to
+            </p>
+            {columns.map((column, index) => (
+              <div key={column.id} className="flex items-center gap-2">
+                <span className="w-40 shrink-0 truncate text-sm text-gray-400">
+                  {availableColumns.find(c => c.id === column.id)?.label ?? 'Not in these events'}
+                </span>
+                <Input
+                  value={column.header}
+                  onChange={(e) => updateHeader(index, e.target.value)}
+                  className="input-dark"
+                  aria-label="Column header"
+                />
+                <Button type="button" variant="ghost" size="sm" disabled={index === 0} onClick={() => moveColumn(index, -1)} className="text-gray-400 hover:text-pink-300">
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="sm" disabled={index === columns.length - 1} onClick={() => moveColumn(index, 1)} className="text-gray-400 hover:text-pink-300">
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="sm" onClick={() => setColumns(columns.filter((_, i) => i !== index))} className="text-gray-400 hover:text-red-400">
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            {unusedColumns.length > 0 && (
+              <Select value="" onValueChange={addColumn}>
+                <SelectTrigger className="input-dark">
+                  <div className="flex items-center text-pink-400">
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add column
+                  </div>
+                </SelectTrigger>
+                <SelectContent className="bg-gray-900 border-pink-500/30">
+                  {unusedColumns.map((column) => (
+                    <SelectItem key={column.id} value={column.id} className="text-gray-300 hover:bg-pink-500/20">
+                      {column.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-gray-300">Save as Template</Label>
+            <div className="flex gap-2">
+              <Input
+                value={templateName}
+                onChange={(e) => setTemplateName(e.target.value)}
+                placeholder="e.g. ERP attendance upload"
+                className="input-dark"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleSaveTemplate}
+                className="border-pink-500/30 text-pink-400 hover:bg-pink-500/10"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                Save
+              </Button>
+              {isSavedTemplate && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleDeleteTemplate}
+                  className="border-red-500/30 text-red-400 hover:bg-red-500/10"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {error && (
+            <Alert className="error-pink">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {success && (
+            <Alert className="success-pink">
+              <AlertDescription>{success}</AlertDescription>
+            </Alert>
+          )}
+
+          <Button onClick={handleExport} disabled={!records} className="w-full btn-pink">
+            {records ? <Download className="h-4 w-4 mr-2" /> : <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Export {EXPORT_DATASET_LABELS[dataset]}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,25 @@
+import { useMemo } from 'react'
+import { qrCodePath } from '@/lib/qr'
+
+interface QRCodeImageProps {
+  value: string
+  className?: string
+}
+
+// Vector QR code that stays sharp at any size; the white border is the quiet zone scanners need
+export default function QRCodeImage({ value, className }: QRCodeImageProps) {
+  const { size, path } = useMemo(() => qrCodePath(value), [value])
+
+  return (
+    <svg
+      viewBox={`-2 -2 ${size + 4} ${size + 4}`}
+      className={className}
+      role="img"
+      aria-label="Check-in QR code"
+      shapeRendering="crispEdges"
+    >
+      <rect x={-2} y={-2} width={size + 4} height={size + 4} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  )
+}
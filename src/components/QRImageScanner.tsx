@@ -0,0 +1,102 @@
+import { useState } from 'react'
+import { decodeQRCodeImage } from '@/lib/qr'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { ImageUp, Loader2 } from 'lucide-react'
+
+interface QRImageScannerProps {
+  // Called with the text of the QR code found in the chosen image
+  onScan: (decodedText: string) => void
+  disabled?: boolean
+}
+
+// Reads a QR code from a photo or screenshot, for codes the camera can't pick up (cracked screens, glare)
+export default function QRImageScanner({ onScan, disabled }: QRImageScannerProps) {
+  const [decoding, setDecoding] = useState(false)
+  const [dragging, setDragging] = useState(false)
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const scanFile = async (file: File) => {
+    setFileName(file.name)
+    setError(null)
+    if (!file.type.startsWith('image/')) {
+      setError('Choose an image file, such as a PNG or JPG screenshot or photo.')
+      return
+    }
+
+    setDecoding(true)
+    try {
+      const decodedText = await decodeQRCodeImage(file)
+      if (!decodedText) {
+        setError('No QR code found in this image. Try a sharper photo, or crop the screenshot closer to the code.')
+        return
+      }
+      onScan(decodedText)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the image')
+      console.error('Image scan error:', err)
+    } finally {
+      setDecoding(false)
+    }
+  }
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    // Clear the input so choosing the same file again still triggers a scan
+    e.target.value = ''
+    if (file) scanFile(file)
+  }
+
+  const handleDrop = (e: React.DragEvent<HTMLLabelElement>) => {
+    e.preventDefault()
+    setDragging(false)
+    const file = e.dataTransfer.files[0]
+    if (file && !disabled && !decoding) scanFile(file)
+  }
+
+  const busy = disabled || decoding
+
+  return (
+    <div className="space-y-4">
+      <input
+        id="qr-image-file"
+        type="file"
+        accept="image/*"
+        onChange={handleFileChange}
+        disabled={busy}
+        className="hidden"
+      />
+      <Label
+        htmlFor="qr-image-file"
+        onDragOver={(e) => {
+          e.preventDefault()
+          setDragging(true)
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        className={`flex flex-col items-center justify-center gap-2 p-8 rounded-lg border-2 border-dashed text-center transition-colors ${
+          dragging ? 'border-pink-500 bg-pink-500/20' : 'border-pink-500/30 bg-pink-500/10'
+        } ${busy ? 'cursor-wait opacity-70' : 'cursor-pointer hover:bg-pink-500/20'}`}
+      >
+        {decoding ? (
+          <Loader2 className="h-8 w-8 animate-spin text-pink-500" />
+        ) : (
+          <ImageUp className="h-8 w-8 text-pink-500" />
+        )}
+        <span className="font-medium text-pink-400">
+          {decoding ? 'Reading QR code...' : 'Choose or drop a photo or screenshot of the QR code'}
+        </span>
+        <span className="text-xs text-gray-500">
+          {fileName ?? 'The image is read on this device and never uploaded'}
+        </span>
+      </Label>
+
+      {error && (
+        <Alert className="error-pink">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  )
+}
@@ -1,258 +1,218 @@
 import { useEffect, useRef, useState } from 'react'
-import { Html5QrcodeScanner } from 'html5-qrcode'
+import { Html5Qrcode, Html5QrcodeSupportedFormats, CameraDevice } from 'html5-qrcode'
 import { Button } from '@/components/ui/button'
-import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Slider } from '@/components/ui/slider'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { CheckCircle, XCircle, Camera, Keyboard } from 'lucide-react'
-import { supabase, User } from '@/lib/supabase'
-import { toast } from 'sonner'
+import { Flashlight, FlashlightOff, Loader2, ZoomIn } from 'lucide-react'
 
 interface QRScannerProps {
-  user: User
-  eventId?: string
+  // Called with the text of every code read; a code that stays in view is reported once
+  onScan: (decodedText: string) => void
 }
 
-export default function QRScanner({ user, eventId }: QRScannerProps) {
-  const [scanMode, setScanMode] = useState<'camera' | 'manual'>('camera')
-  const [manualCode, setManualCode] = useState('')
-  const [scanning, setScanning] = useState(false)
-  const [lastScanResult, setLastScanResult] = useState<{
-    success: boolean
-    message: string
-    attendeeName?: string
-  } | null>(null)
-  
-  const scannerRef = useRef<Html5QrcodeScanner | null>(null)
-  const scannerElementId = 'qr-scanner'
+interface ZoomRange {
+  min: number
+  max: number
+  step: number
+  value: number
+}
+
+const SCANNER_ELEMENT_ID = 'qr-scanner'
+const CAMERA_STORAGE_KEY = 'swiftattend_scanner_camera'
+// A code counts as gone once no frame has shown it for this long; single missed frames are common
+const CODE_GONE_MS = 1500
+
+// Settles once the previous scanner, possibly from an unmounted instance, has released the element
+let scannerReleased: Promise<void> = Promise.resolve()
 
+// The camera chosen last time on this device, otherwise the rear camera on phones
+const pickDefaultCamera = (cameras: CameraDevice[]) => {
+  const saved = localStorage.getItem(CAMERA_STORAGE_KEY)
+  return cameras.find(camera => camera.id === saved)
+    ?? cameras.find(camera => /back|rear|environment/i.test(camera.label))
+    ?? cameras[0]
+}
+
+// Live camera scanning with camera selection, torch and zoom where the device supports them
+export default function QRScanner({ onScan }: QRScannerProps) {
+  const [cameras, setCameras] = useState<CameraDevice[]>([])
+  const [cameraId, setCameraId] = useState('')
+  const [starting, setStarting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [torchSupported, setTorchSupported] = useState(false)
+  const [torchOn, setTorchOn] = useState(false)
+  const [zoom, setZoom] = useState<ZoomRange | null>(null)
+  const scannerRef = useRef<Html5Qrcode | null>(null)
+  // The code in view and when a frame last showed it
+  const lastScanRef = useRef({ text: '', seenAt: 0 })
+  // The scanner keeps the callback it started with, so it always goes through this ref
+  const onScanRef = useRef(onScan)
+  onScanRef.current = onScan
+
+  // Listing cameras also asks for permission to use them
   useEffect(() => {
-    if (scanMode === 'camera') {
-      startScanner()
-    } else {
-      stopScanner()
-    }
+    Html5Qrcode.getCameras()
+      .then((found) => {
+        if (found.length === 0) {
+          setError('No camera found on this device. Use manual entry instead.')
+          return
+        }
+        setCameras(found)
+        setCameraId(pickDefaultCamera(found).id)
+      })
+      .catch((err) => {
+        console.error('Error listing cameras:', err)
+        setError('Camera access was denied or is unavailable. Allow camera access in the browser, or use manual entry.')
+      })
+  }, [])
 
-    return () => {
-      stopScanner()
+  // Restart the scanner whenever a different camera is chosen
+  useEffect(() => {
+    if (!cameraId) return
+
+    const scanner = new Html5Qrcode(SCANNER_ELEMENT_ID, { verbose: false, formatsToSupport: [Html5QrcodeSupportedFormats.QR_CODE] })
+    scannerRef.current = scanner
+    let stopped = false
+    setStarting(true)
+    setError(null)
+    setTorchSupported(false)
+    setTorchOn(false)
+    setZoom(null)
+
+    const handleDecoded = (decodedText: string) => {
+      const repeated = decodedText === lastScanRef.current.text
+      lastScanRef.current = { text: decodedText, seenAt: Date.now() }
+      if (!repeated) {
+        onScanRef.current(decodedText)
+      }
     }
-  }, [scanMode])
 
-  const startScanner = () => {
-    if (scannerRef.current) {
-      stopScanner()
+    // Once the code has left the view, showing it again is a new scan
+    const handleNoCode = () => {
+      if (lastScanRef.current.text && Date.now() - lastScanRef.current.seenAt > CODE_GONE_MS) {
+        lastScanRef.current = { text: '', seenAt: 0 }
+      }
     }
 
-    scannerRef.current = new Html5QrcodeScanner(
-      scannerElementId,
-      {
-        fps: 10,
-        qrbox: { width: 250, height: 250 },
-        aspectRatio: 1.0,
-      },
-      false
-    )
-
-    scannerRef.current.render(onScanSuccess, onScanFailure)
-  }
+    const started = scannerReleased
+      .then(() => stopped ? undefined : scanner.start(cameraId, { fps: 10, qrbox: { width: 250, height: 250 } }, handleDecoded, handleNoCode))
+      .then(() => {
+        if (stopped) return
+        const capabilities = scanner.getRunningTrackCameraCapabilities()
+        setTorchSupported(capabilities.torchFeature().isSupported())
+        const zoomFeature = capabilities.zoomFeature()
+        if (zoomFeature.isSupported()) {
+          setZoom({ min: zoomFeature.min(), max: zoomFeature.max(), step: zoomFeature.step(), value: zoomFeature.value() ?? zoomFeature.min() })
+        }
+      })
+      .catch((err) => {
+        console.error('Error starting camera:', err)
+        if (!stopped) {
+          setError('Could not start the camera. It may be in use by another app; try another camera or use manual entry.')
+        }
+      })
+      .finally(() => {
+        if (!stopped) setStarting(false)
+      })
 
-  const stopScanner = () => {
-    if (scannerRef.current) {
-      scannerRef.current.clear().catch(console.error)
+    return () => {
+      stopped = true
       scannerRef.current = null
+      // Wait for start to settle; stopping a scanner that never started throws
+      scannerReleased = started
+        .then(() => scanner.isScanning ? scanner.stop() : undefined)
+        .then(() => scanner.clear())
+        .catch((err) => console.error('Error stopping camera:', err))
     }
-  }
-
-  const onScanSuccess = async (decodedText: string) => {
-    setScanning(true)
-    await processCheckIn(decodedText, 'qr_scan')
-    setScanning(false)
-  }
+  }, [cameraId])
 
-  const onScanFailure = (error: string) => {
-    // Ignore scan failures as they're common during scanning
+  const handleCameraChange = (id: string) => {
+    localStorage.setItem(CAMERA_STORAGE_KEY, id)
+    setCameraId(id)
   }
 
-  const handleManualCheckIn = async () => {
-    if (!manualCode.trim()) {
-      toast.error('Please enter a backup code')
-      return
+  const handleTorchToggle = async () => {
+    try {
+      await scannerRef.current?.getRunningTrackCameraCapabilities().torchFeature().apply(!torchOn)
+      setTorchOn(!torchOn)
+    } catch (err) {
+      console.error('Error toggling torch:', err)
     }
-
-    setScanning(true)
-    await processCheckIn(manualCode.trim(), 'backup_code')
-    setScanning(false)
-    setManualCode('')
   }
 
-  const processCheckIn = async (code: string, method: 'qr_scan' | 'backup_code') => {
+  const handleZoomChange = async (value: number) => {
+    if (!zoom) return
+    setZoom({ ...zoom, value })
     try {
-      // Find registration by QR code or backup code
-      const { data: registration, error: regError } = await supabase
-        .from('registrations')
-        .select(`
-          *,
-          user:users(*),
-          event:events(*),
-          attendance(*)
-        `)
-        .or(
-          method === 'qr_scan' 
-            ? `qr_code_data.eq.${code}`
-            : `backup_code.eq.${code}`
-        )
-        .single()
-
-      if (regError || !registration) {
-        setLastScanResult({
-          success: false,
-          message: 'Invalid code or registration not found'
-        })
-        toast.error('Invalid code or registration not found')
-        return
-      }
-
-      // Check if event matches (if eventId is specified)
-      if (eventId && registration.event_id !== eventId) {
-        setLastScanResult({
-          success: false,
-          message: 'This code is not for the current event'
-        })
-        toast.error('This code is not for the current event')
-        return
-      }
-
-      // Check if already checked in
-      if (registration.attendance && registration.attendance.length > 0) {
-        setLastScanResult({
-          success: false,
-          message: `${registration.user.full_name} is already checked in`,
-          attendeeName: registration.user.full_name
-        })
-        toast.error(`${registration.user.full_name} is already checked in`)
-        return
-      }
-
-      // Check in the attendee
-      const { error: attendanceError } = await supabase
-        .from('attendance')
-        .insert([{
-          registration_id: registration.id,
-          check_in_method: method,
-          checked_in_by: user.id
-        }])
-
-      if (attendanceError) {
-        setLastScanResult({
-          success: false,
-          message: 'Failed to check in attendee'
-        })
-        toast.error('Failed to check in attendee')
-        return
-      }
-
-      setLastScanResult({
-        success: true,
-        message: `${registration.user.full_name} checked in successfully!`,
-        attendeeName: registration.user.full_name
-      })
-      toast.success(`${registration.user.full_name} checked in successfully!`)
-
-    } catch (error: unknown) {
-      console.error('Check-in error:', error)
-      setLastScanResult({
-        success: false,
-        message: 'An error occurred during check-in'
-      })
-      toast.error('An error occurred during check-in')
+      await scannerRef.current?.getRunningTrackCameraCapabilities().zoomFeature().apply(value)
+    } catch (err) {
+      console.error('Error applying zoom:', err)
     }
   }
 
   return (
-    <div className="max-w-2xl mx-auto space-y-6">
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Camera className="h-5 w-5" />
-            Attendance Check-In
-          </CardTitle>
-          <CardDescription>
-            Scan QR codes or enter backup codes to check in attendees
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="flex gap-2">
-            <Button
-              variant={scanMode === 'camera' ? 'default' : 'outline'}
-              onClick={() => setScanMode('camera')}
-              className="flex-1"
-            >
-              <Camera className="h-4 w-4 mr-2" />
-              Camera Scan
-            </Button>
-            <Button
-              variant={scanMode === 'manual' ? 'default' : 'outline'}
-              onClick={() => setScanMode('manual')}
-              className="flex-1"
-            >
-              <Keyboard className="h-4 w-4 mr-2" />
-              Manual Entry
-            </Button>
+    <div className="space-y-4">
+      <div className="relative w-full max-w-sm mx-auto rounded-lg overflow-hidden border border-pink-500/30 bg-black min-h-48">
+        <div id={SCANNER_ELEMENT_ID} className="w-full" />
+        {starting && (
+          <div className="absolute inset-0 flex items-center justify-center">
+            <Loader2 className="h-8 w-8 animate-spin text-pink-500" />
           </div>
-
-          {scanMode === 'camera' && (
-            <div className="space-y-4">
-              <div
-                id={scannerElementId}
-                className="w-full max-w-sm mx-auto"
-              />
-              {scanning && (
-                <div className="text-center text-sm text-gray-600">
-                  Processing check-in...
-                </div>
-              )}
-            </div>
-          )}
-
-          {scanMode === 'manual' && (
-            <div className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="manual-code">Backup Code</Label>
-                <Input
-                  id="manual-code"
-                  value={manualCode}
-                  onChange={(e) => setManualCode(e.target.value.toUpperCase())}
-                  placeholder="Enter backup code (e.g., ABC123XY)"
-                  className="text-center font-mono"
-                />
-              </div>
-              <Button
-                onClick={handleManualCheckIn}
-                disabled={scanning || !manualCode.trim()}
-                className="w-full"
-              >
-                {scanning ? 'Processing...' : 'Check In'}
-              </Button>
-            </div>
-          )}
-
-          {lastScanResult && (
-            <Alert className={lastScanResult.success ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}>
-              <div className="flex items-center gap-2">
-                {lastScanResult.success ? (
-                  <CheckCircle className="h-4 w-4 text-green-600" />
-                ) : (
-                  <XCircle className="h-4 w-4 text-red-600" />
-                )}
-                <AlertDescription className={lastScanResult.success ? 'text-green-800' : 'text-red-800'}>
-                  {lastScanResult.message}
-                </AlertDescription>
-              </div>
-            </Alert>
-          )}
-        </CardContent>
-      </Card>
+        )}
+      </div>
+
+      {error && (
+        <Alert className="error-pink">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex items-end gap-2">
+        {cameras.length > 1 && (
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="camera-select" className="text-gray-300">Camera</Label>
+            <Select value={cameraId} onValueChange={handleCameraChange}>
+              <SelectTrigger id="camera-select" className="input-dark">
+                <SelectValue placeholder="Select a camera" />
+              </SelectTrigger>
+              <SelectContent className="bg-gray-900 border-pink-500/30">
+                {cameras.map((camera, index) => (
+                  <SelectItem key={camera.id} value={camera.id} className="text-gray-300 hover:bg-pink-500/20">
+                    {camera.label || `Camera ${index + 1}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {torchSupported && (
+          <Button
+            variant="outline"
+            onClick={handleTorchToggle}
+            className="border-pink-500/30 text-pink-400 hover:bg-pink-500/10"
+          >
+            {torchOn ? <FlashlightOff className="h-4 w-4 mr-2" /> : <Flashlight className="h-4 w-4 mr-2" />}
+            {torchOn ? 'Torch Off' : 'Torch On'}
+          </Button>
+        )}
+      </div>
+
+      {zoom && (
+        <div className="flex items-center gap-3">
+          <ZoomIn className="h-4 w-4 text-pink-400 shrink-0" />
+          <Slider
+            min={zoom.min}
+            max={zoom.max}
+            step={zoom.step}
+            value={[zoom.value]}
+            onValueChange={([value]) => handleZoomChange(value)}
+            aria-label="Zoom"
+          />
+          <span className="text-xs text-gray-400 w-10 text-right">{zoom.value.toFixed(1)}x</span>
+        </div>
+      )}
     </div>
   )
-}
\ No newline at end of file
+}
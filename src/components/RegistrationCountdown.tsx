@@ -0,0 +1,39 @@
+import { Event, getEventStart, getRegistrationBlocker, formatCountdown } from '@/lib/models'
+import { useNow } from '@/hooks/use-now'
+import { Timer } from 'lucide-react'
+
+interface RegistrationCountdownProps {
+  event: Event
+  className?: string
+}
+
+// Counts down to whichever registration milestone comes next: opening, closing or the event start
+export default function RegistrationCountdown({ event, className = '' }: RegistrationCountdownProps) {
+  const now = useNow()
+
+  if (event.status !== 'published') {
+    return null
+  }
+
+  let label: string
+  let target: Date
+  if (event.registration_opens_at && now < new Date(event.registration_opens_at)) {
+    label = 'Registration opens in'
+    target = new Date(event.registration_opens_at)
+  } else if (!getRegistrationBlocker(event, now) && event.registration_closes_at) {
+    label = 'Registration closes in'
+    target = new Date(event.registration_closes_at)
+  } else if (getEventStart(event) > now) {
+    label = 'Starts in'
+    target = getEventStart(event)
+  } else {
+    return null
+  }
+
+  return (
+    <div className={`flex items-center text-sm text-pink-300 ${className}`}>
+      <Timer className="h-4 w-4 mr-3 text-pink-400" />
+      <span>{label} <strong className="font-mono">{formatCountdown(target.getTime() - now.getTime())}</strong></span>
+    </div>
+  )
+}
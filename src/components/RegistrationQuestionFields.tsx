@@ -0,0 +1,77 @@
+import { RegistrationQuestion, RegistrationAnswers } from '@/lib/models'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+
+interface RegistrationQuestionFieldsProps {
+  questions: RegistrationQuestion[]
+  answers: RegistrationAnswers
+  onChange: (answers: RegistrationAnswers) => void
+}
+
+// Inputs for an event's registration questions; answers are validated by the repository
+export default function RegistrationQuestionFields({ questions, answers, onChange }: RegistrationQuestionFieldsProps) {
+  const setAnswer = (questionId: string, value: RegistrationAnswers[string]) => {
+    onChange({ ...answers, [questionId]: value })
+  }
+
+  return (
+    <div className="space-y-4">
+      {questions.map((question) => {
+        const fieldId = `answer-${question.id}`
+        const label = (
+          <>
+            {question.label}
+            {question.required && <span className="text-pink-400"> *</span>}
+          </>
+        )
+
+        if (question.type === 'checkbox') {
+          return (
+            <div key={question.id} className="flex items-center space-x-2">
+              <Checkbox
+                id={fieldId}
+                checked={answers[question.id] === true}
+                onCheckedChange={(checked) => setAnswer(question.id, checked === true)}
+              />
+              <Label htmlFor={fieldId} className="text-gray-300">{label}</Label>
+            </div>
+          )
+        }
+
+        return (
+          <div key={question.id} className="space-y-2">
+            <Label htmlFor={fieldId} className="text-gray-300">{label}</Label>
+            {question.type === 'select' ? (
+              <Select
+                value={answers[question.id] !== undefined ? String(answers[question.id]) : undefined}
+                onValueChange={(value) => setAnswer(question.id, value)}
+              >
+                <SelectTrigger id={fieldId} className="input-dark">
+                  <SelectValue placeholder="Choose an option" />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-900 border-pink-500/30">
+                  {(question.options ?? []).map((option) => (
+                    <SelectItem key={option} value={option} className="text-gray-300 hover:bg-pink-500/20">
+                      {option}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                id={fieldId}
+                type={question.type === 'number' ? 'number' : 'text'}
+                value={answers[question.id] !== undefined ? String(answers[question.id]) : ''}
+                onChange={(e) => setAnswer(question.id, e.target.value)}
+                required={question.required}
+                className="input-dark"
+              />
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,126 @@
+import { RegistrationQuestion, QuestionType, QUESTION_TYPE_LABELS, createQuestionId } from '@/lib/models'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Plus, Trash2, ArrowUp, ArrowDown } from 'lucide-react'
+
+interface RegistrationQuestionsEditorProps {
+  questions: RegistrationQuestion[]
+  onChange: (questions: RegistrationQuestion[]) => void
+}
+
+// Form builder for the extra questions participants answer when registering
+export default function RegistrationQuestionsEditor({ questions, onChange }: RegistrationQuestionsEditorProps) {
+  const addQuestion = () => {
+    onChange([...questions, { id: createQuestionId(), label: '', type: 'text', required: false }])
+  }
+
+  const updateQuestion = (questionId: string, changes: Partial<RegistrationQuestion>) => {
+    onChange(questions.map(question => question.id === questionId ? { ...question, ...changes } : question))
+  }
+
+  const moveQuestion = (index: number, offset: number) => {
+    const reordered = [...questions]
+    const [question] = reordered.splice(index, 1)
+    reordered.splice(index + offset, 0, question)
+    onChange(reordered)
+  }
+
+  return (
+    <div className="space-y-3">
+      <Label className="text-gray-300">Registration Questions (Optional)</Label>
+      {questions.map((question, index) => (
+        <div key={question.id} className="p-3 bg-pink-500/10 rounded-lg border border-pink-500/20 space-y-2">
+          <div className="flex space-x-2">
+            <Input
+              value={question.label}
+              onChange={(e) => updateQuestion(question.id, { label: e.target.value })}
+              placeholder="Question, e.g. T-shirt size"
+              required
+              className="input-dark"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => moveQuestion(index, -1)}
+              disabled={index === 0}
+              className="border-pink-500/30 text-pink-400 hover:bg-pink-500/10"
+            >
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => moveQuestion(index, 1)}
+              disabled={index === questions.length - 1}
+              className="border-pink-500/30 text-pink-400 hover:bg-pink-500/10"
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => onChange(questions.filter(q => q.id !== question.id))}
+              className="border-red-500/30 text-red-400 hover:bg-red-500/10"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex items-center space-x-4">
+            <Select
+              value={question.type}
+              onValueChange={(value) => updateQuestion(question.id, {
+                type: value as QuestionType,
+                options: value === 'select' ? question.options ?? [] : undefined
+              })}
+            >
+              <SelectTrigger className="input-dark w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-gray-900 border-pink-500/30">
+                {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map((type) => (
+                  <SelectItem key={type} value={type} className="text-gray-300 hover:bg-pink-500/20">
+                    {QUESTION_TYPE_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id={`${question.id}-required`}
+                checked={question.required}
+                onCheckedChange={(checked) => updateQuestion(question.id, { required: checked })}
+              />
+              <Label htmlFor={`${question.id}-required`} className="text-gray-300">Required</Label>
+            </div>
+          </div>
+          {question.type === 'select' && (
+            <Input
+              // Empty entries are kept while typing and dropped when the event is saved
+              value={(question.options ?? []).join(', ')}
+              onChange={(e) => updateQuestion(question.id, { options: e.target.value.split(',').map(option => option.trim()) })}
+              placeholder="Options, comma separated (e.g. S, M, L, XL)"
+              required
+              className="input-dark"
+            />
+          )}
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={addQuestion}
+        className="border-pink-500/30 text-pink-400 hover:bg-pink-500/10"
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Question
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,290 @@
+import { useState } from 'react'
+import { Event, Registration, getRegistrationBlocker, isTeamEvent } from '@/lib/models'
+import { repository } from '@/lib/repository'
+import { ColumnMapping, ImportField, ImportResult, IMPORT_FIELD_LABELS, guessColumnMapping, parseCsv, validateImportRows, importRegistrations, importReportCsv, importReportFilename } from '@/lib/import'
+import { downloadBlob } from '@/lib/download'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { FileSpreadsheet, Download, Upload, Loader2 } from 'lucide-react'
+
+interface RosterImportDialogProps {
+  event: Event
+  onImported?: () => void
+}
+
+interface ParsedRoster {
+  fileName: string
+  headers: string[]
+  rows: string[][]
+}
+
+// Radix Select items can't have an empty value
+const UNMAPPED = 'none'
+
+const REQUIRED_FIELDS: ImportField[] = ['email', 'name']
+
+export default function RosterImportDialog({ event, onImported }: RosterImportDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [roster, setRoster] = useState<ParsedRoster | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [existing, setExisting] = useState<Registration[]>([])
+  const [importing, setImporting] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const [results, setResults] = useState<ImportResult[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Imports go through registerForEvent, so they follow the same rules as self-registration
+  const blocker = isTeamEvent(event) ? 'Roster import is not available for team events' : getRegistrationBlocker(event)
+
+  const reset = () => {
+    setRoster(null)
+    setMapping({})
+    setResults(null)
+    setError(null)
+    setProgress(0)
+  }
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen)
+    if (!isOpen) reset()
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    reset()
+
+    try {
+      const [headers, ...rows] = parseCsv(await file.text())
+      if (!headers || rows.length === 0) {
+        setError('The file has no data rows below its header row')
+        return
+      }
+      setExisting(await repository.getEventRegistrations(event.id))
+      setRoster({ fileName: file.name, headers, rows })
+      setMapping(guessColumnMapping(headers, event))
+    } catch (err) {
+      setError('Failed to read the CSV file')
+      console.error('Error reading roster:', err)
+    }
+  }
+
+  const preview = roster ? validateImportRows(event, roster.rows, mapping, existing) : []
+  const validCount = preview.filter(row => !row.error).length
+  const missingFields = REQUIRED_FIELDS.filter(field => mapping[field] === null || mapping[field] === undefined)
+
+  const handleImport = async () => {
+    if (!roster) return
+
+    setImporting(true)
+    setError(null)
+    setProgress(0)
+
+    try {
+      setResults(await importRegistrations(event, preview, setProgress))
+      onImported?.()
+    } catch (err) {
+      setError('Import failed')
+      console.error('Error importing roster:', err)
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const handleDownloadReport = () => {
+    if (!results) return
+    downloadBlob(new Blob([importReportCsv(results)], { type: 'text/csv;charset=utf-8' }), importReportFilename(event))
+  }
+
+  const mappingFields: { key: string; label: string }[] = [
+    ...(Object.keys(IMPORT_FIELD_LABELS) as ImportField[]).map(field => ({
+      key: field,
+      label: `${IMPORT_FIELD_LABELS[field]}${REQUIRED_FIELDS.includes(field) ? ' *' : ''}`
+    })),
+    ...(event.questions ?? []).map(question => ({ key: question.id, label: `${question.label}${question.required ? ' *' : ''}` }))
+  ]
+
+  const registered = results?.filter(result => result.registration?.status === 'confirmed').length ?? 0
+  const waitlisted = results?.filter(result => result.registration?.status === 'waitlisted').length ?? 0
+  const failed = results?.filter(result => result.error) ?? []
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full border-pink-500/30 text-pink-400 hover:bg-pink-500/10">
+          <FileSpreadsheet className="h-4 w-4 mr-2" />
+          Import Roster
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl card-dark border-pink-500/30">
+        <DialogHeader>
+          <DialogTitle className="text-white">Import Roster: {event.name}</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Register participants from a CSV file. Each row gets its own QR code and backup code.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 max-h-[70vh] overflow-y-auto">
+          {blocker ? (
+            <Alert className="error-pink">
+              <AlertDescription>{blocker}</AlertDescription>
+            </Alert>
+          ) : !results && (
+            <div className="p-4 bg-pink-500/10 rounded-lg border border-pink-500/20 space-y-4">
+              <input
+                id={`roster-file-${event.id}`}
+                type="file"
+                accept="text/csv,.csv"
+                onChange={handleFileChange}
+                className="hidden"
+              />
+              <Label htmlFor={`roster-file-${event.id}`} className="cursor-pointer">
+                <div className="flex items-center text-pink-400">
+                  <Upload className="h-4 w-4 mr-2" />
+                  <span className="font-medium">{roster ? roster.fileName : 'Choose CSV file'}</span>
+                </div>
+              </Label>
+
+              {roster && (
+                <>
+                  <div className="space-y-2">
+                    <h4 className="font-medium text-pink-300">Column Mapping</h4>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                      {mappingFields.map(({ key, label }) => (
+                        <div key={key} className="space-y-1">
+                          <Label className="text-gray-300">{label}</Label>
+                          <Select
+                            value={mapping[key] === null || mapping[key] === undefined ? UNMAPPED : String(mapping[key])}
+                            onValueChange={(value) => setMapping({ ...mapping, [key]: value === UNMAPPED ? null : Number(value) })}
+                          >
+                            <SelectTrigger className="input-dark">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent className="bg-gray-900 border-pink-500/30">
+                              <SelectItem value={UNMAPPED} className="text-gray-300 hover:bg-pink-500/20">— Not in file —</SelectItem>
+                              {roster.headers.map((header, index) => (
+                                <SelectItem key={index} value={String(index)} className="text-gray-300 hover:bg-pink-500/20">
+                                  {header || `Column ${index + 1}`}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  {missingFields.length > 0 ? (
+                    <p className="text-sm text-red-400">
+                      Map the {missingFields.map(field => IMPORT_FIELD_LABELS[field]).join(' and ')} column to continue
+                    </p>
+                  ) : (
+                    <>
+                      <p className="text-sm text-gray-300">
+                        <strong className="text-green-400">{validCount}</strong> of {preview.length} rows ready to import
+                        {validCount < preview.length && (
+                          <span className="text-red-400"> — {preview.length - validCount} will be skipped</span>
+                        )}
+                      </p>
+                      <Table className="admin-table">
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead className="text-pink-400">Line</TableHead>
+                            <TableHead className="text-pink-400">Name</TableHead>
+                            <TableHead className="text-pink-400">Email</TableHead>
+                            <TableHead className="text-pink-400">Student ID</TableHead>
+                            <TableHead className="text-pink-400">Status</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {preview.map((row) => (
+                            <TableRow key={row.line}>
+                              <TableCell className="text-gray-400">{row.line}</TableCell>
+                              <TableCell className="text-white">{row.name || '—'}</TableCell>
+                              <TableCell className="text-gray-300">{row.email || '—'}</TableCell>
+                              <TableCell className="text-gray-300">{row.studentId ?? '—'}</TableCell>
+                              <TableCell>
+                                {row.error ? (
+                                  <span className="text-sm text-red-400">{row.error}</span>
+                                ) : (
+                                  <Badge className="bg-green-500/20 text-green-400 border-green-500/30">Ready</Badge>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+
+                      <Button onClick={handleImport} disabled={importing || validCount === 0} className="w-full btn-pink">
+                        {importing ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+                        {importing ? `Importing ${progress} of ${preview.length}...` : `Import ${validCount} Participants`}
+                      </Button>
+                    </>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
+          {results && (
+            <div className="p-4 bg-pink-500/10 rounded-lg border border-pink-500/20 space-y-4">
+              <p className="text-sm text-gray-300">
+                <strong className="text-green-400">{registered}</strong> registered
+                {waitlisted > 0 && <span> · <strong className="text-yellow-400">{waitlisted}</strong> waitlisted</span>}
+                {failed.length > 0 && <span> · <strong className="text-red-400">{failed.length}</strong> skipped</span>}
+              </p>
+
+              {failed.length > 0 && (
+                <Table className="admin-table">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="text-pink-400">Line</TableHead>
+                      <TableHead className="text-pink-400">Email</TableHead>
+                      <TableHead className="text-pink-400">Error</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {failed.map(({ row, error }) => (
+                      <TableRow key={row.line}>
+                        <TableCell className="text-gray-400">{row.line}</TableCell>
+                        <TableCell className="text-gray-300">{row.email || '—'}</TableCell>
+                        <TableCell className="text-red-400">{error}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  onClick={handleDownloadReport}
+                  className="border-pink-500/30 text-pink-400 hover:bg-pink-500/10"
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Download Report
+                </Button>
+                <Button variant="outline" onClick={reset} className="border-pink-500/30 text-pink-400 hover:bg-pink-500/10">
+                  Import Another File
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <Alert className="error-pink">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react'
 import { User } from '@/lib/auth'
-import { createSupportMessage, getSupportMessages, resolveSupportMessage, SupportMessage } from '@/lib/storage'
+import { repository } from '@/lib/repository'
+import { SupportMessage } from '@/lib/models'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -11,6 +12,7 @@ import { Badge } from '@/components/ui/badge'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { MessageCircle, Send, Loader2, CheckCircle, Clock, User as UserIcon, Shield } from 'lucide-react'
+import { useDataChanges } from '@/hooks/use-data-changes'
 
 interface SupportChatProps {
   user: User
@@ -41,9 +43,15 @@ export default function SupportChat({ user, eventId }: SupportChatProps) {
     loadMessages()
   }, [user.id, eventId])
 
-  const loadMessages = () => {
+  useDataChanges((change) => {
+    if (change.type === 'support_message_created' || change.type === 'support_message_resolved' || change.type === 'data_cleared' || change.type === 'data_restored') {
+      loadMessages()
+    }
+  })
+
+  const loadMessages = async () => {
     try {
-      const allMessages = getSupportMessages()
+      const allMessages = await repository.getSupportMessages()
       // Filter messages for current user or all messages if admin
       const userMessages = user.role === 'admin' 
         ? allMessages 
@@ -76,7 +84,7 @@ export default function SupportChat({ user, eventId }: SupportChatProps) {
     setSuccess(null)
 
     try {
-      const newMessage = createSupportMessage(
+      const newMessage = await repository.createSupportMessage(
         eventId || 'general',
         user.id,
         user.full_name,
@@ -98,9 +106,9 @@ export default function SupportChat({ user, eventId }: SupportChatProps) {
 
   const handleResolveMessage = async (messageId: string) => {
     try {
-      const success = resolveSupportMessage(messageId, user.id)
+      const success = await repository.resolveSupportMessage(messageId, user.id)
       if (success) {
-        loadMessages()
+        await loadMessages()
         setSuccess('Message marked as resolved')
       } else {
         setError('Failed to resolve message')
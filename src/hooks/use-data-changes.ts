@@ -0,0 +1,13 @@
+import * as React from 'react';
+import { DataChange, subscribeToChanges } from '@/lib/changes';
+
+// Calls `onChange` for every data change made in this tab or any other tab.
+// The latest callback is always used, so callers don't need to memoize it.
+export function useDataChanges(onChange: (change: DataChange) => void) {
+  const onChangeRef = React.useRef(onChange);
+  onChangeRef.current = onChange;
+
+  React.useEffect(() => {
+    return subscribeToChanges((change) => onChangeRef.current(change));
+  }, []);
+}
@@ -0,0 +1,13 @@
+import * as React from 'react';
+
+// The current time, refreshed every `intervalMs` so countdowns re-render on their own.
+export function useNow(intervalMs = 1000) {
+  const [now, setNow] = React.useState(() => new Date());
+
+  React.useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), intervalMs);
+    return () => window.clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+}
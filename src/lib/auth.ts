@@ -29,6 +29,10 @@ const validateEmail = (email: string): { valid: boolean; error?: string } => {
   return { valid: true }
 }
 
+// User ids are derived from the email, so signing in again (or receiving a
+// transferred registration) always maps to the same account
+export const userIdForEmail = (email: string) => `user_${email.trim().toLowerCase()}`
+
 // Get current user from localStorage
 export const getCurrentUser = (): User | null => {
   const userStr = localStorage.getItem('swiftattend_user')
@@ -66,7 +70,7 @@ export const signIn = (email: string, password: string, role: 'admin' | 'staff'
   
   // Create user object
   const user: User = {
-    id: `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    id: userIdForEmail(email),
     email,
     full_name: fullName || email.split('@')[0],
     role,
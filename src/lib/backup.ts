@@ -0,0 +1,197 @@
+// Full backup export and restore of all SwiftAttend data, independent of the active backend
+import { DataSnapshot, RestoreMode, getDisplacedRegistrations } from '@/lib/models'
+import { repository } from '@/lib/repository'
+import { PersistedData, SCHEMA_VERSION, migrateData, separateInvalidRecords } from '@/lib/migrations'
+import { QuarantinedRecord } from '@/lib/record-store'
+
+const BACKUP_FORMAT = 'swiftattend-backup'
+const BACKUP_FORMAT_VERSION = 1
+
+type SnapshotCollection = keyof DataSnapshot
+
+const SNAPSHOT_COLLECTIONS: SnapshotCollection[] = ['events', 'registrations', 'attendances', 'support_messages', 'teams', 'certificates', 'signing_keys']
+
+export interface BackupBundle {
+  format: typeof BACKUP_FORMAT
+  format_version: number
+  schema_version: number
+  created_at: string
+  data: DataSnapshot
+  // Poster images as data URLs, keyed by event id
+  posters: Record<string, string>
+  // SHA-256 (hex) of the fields above
+  checksum: string
+}
+
+export interface ParsedBackup {
+  bundle: BackupBundle
+  snapshot: DataSnapshot
+  posters: Record<string, Blob>
+  // Records that failed validation and will be skipped
+  invalid: QuarantinedRecord[]
+}
+
+export interface CollectionDiff {
+  added: number
+  updated: number
+  unchanged: number
+  removed: number
+}
+
+export type RestorePreview = Record<SnapshotCollection, CollectionDiff>
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+const computeChecksum = (bundle: Omit<BackupBundle, 'checksum'>) => {
+  const { format, format_version, schema_version, created_at, data, posters } = bundle
+  return sha256(JSON.stringify({ format, format_version, schema_version, created_at, data, posters }))
+}
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+export const createBackup = async (): Promise<BackupBundle> => {
+  const [events, registrations, attendances, support_messages, teams, certificates, signing_keys] = await Promise.all([
+    repository.getEvents(),
+    repository.getRegistrations(),
+    repository.getAttendances(),
+    repository.getSupportMessages(),
+    repository.getTeams(),
+    repository.getCertificates(),
+    repository.getSigningKeys()
+  ])
+
+  // poster_url may be a page-local object URL, so the image itself goes into the bundle
+  const posters: Record<string, string> = {}
+  const portableEvents = await Promise.all(events.map(async ({ poster_url, ...event }) => {
+    if (!poster_url) {
+      return event
+    }
+    try {
+      const response = await fetch(poster_url)
+      posters[event.id] = await blobToDataUrl(await response.blob())
+      return event
+    } catch (err) {
+      console.error(`Could not include poster for event ${event.id}:`, err)
+      return /^https?:/.test(poster_url) ? { ...event, poster_url } : event
+    }
+  }))
+
+  const bundle = {
+    format: BACKUP_FORMAT,
+    format_version: BACKUP_FORMAT_VERSION,
+    schema_version: SCHEMA_VERSION,
+    created_at: new Date().toISOString(),
+    data: { events: portableEvents, registrations, attendances, support_messages, teams, certificates, signing_keys },
+    posters
+  } as const
+
+  return { ...bundle, checksum: await computeChecksum(bundle) }
+}
+
+export const backupFilename = (bundle: BackupBundle) => {
+  return `swiftattend-backup-${bundle.created_at.slice(0, 10)}.json`
+}
+
+// Validate the bundle, verify its checksum and bring its data up to the current schema
+export const parseBackup = async (text: string): Promise<ParsedBackup> => {
+  let bundle: BackupBundle
+  try {
+    bundle = JSON.parse(text)
+  } catch {
+    throw new Error('This file is not valid JSON')
+  }
+
+  if (bundle?.format !== BACKUP_FORMAT || !bundle.data || !bundle.posters) {
+    throw new Error('This file is not a SwiftAttend backup')
+  }
+  if (bundle.format_version > BACKUP_FORMAT_VERSION || bundle.schema_version > SCHEMA_VERSION) {
+    throw new Error('This backup was made by a newer version of SwiftAttend')
+  }
+  if (await computeChecksum(bundle) !== bundle.checksum) {
+    throw new Error('Checksum mismatch: the backup file is corrupted or was edited')
+  }
+
+  const migrated = migrateData(bundle.data as unknown as PersistedData, bundle.schema_version)
+  const { data, quarantined } = separateInvalidRecords(migrated)
+
+  const posters: Record<string, Blob> = {}
+  for (const [eventId, dataUrl] of Object.entries(bundle.posters)) {
+    posters[eventId] = await (await fetch(dataUrl)).blob()
+  }
+
+  return { bundle, snapshot: data as unknown as DataSnapshot, posters, invalid: quarantined }
+}
+
+// Field by field, so key order and absent-versus-undefined fields don't count as changes
+const sameValue = (a: unknown, b: unknown): boolean => {
+  if (a === b) {
+    return true
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, index) => sameValue(item, b[index]))
+  }
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') {
+    return false
+  }
+  const left = a as Record<string, unknown>
+  const right = b as Record<string, unknown>
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)])
+  return [...keys].every(key => sameValue(left[key], right[key]))
+}
+
+// Poster URLs differ between machines, so records are compared without them
+const sameRecord = (a: object, b: object) => sameValue({ ...a, poster_url: undefined }, { ...b, poster_url: undefined })
+
+// Dry run: what a restore would change, without writing anything
+export const previewRestore = async (backup: ParsedBackup, mode: RestoreMode): Promise<RestorePreview> => {
+  const current: DataSnapshot = {
+    events: await repository.getEvents(),
+    registrations: await repository.getRegistrations(),
+    attendances: await repository.getAttendances(),
+    support_messages: await repository.getSupportMessages(),
+    teams: await repository.getTeams(),
+    certificates: await repository.getCertificates(),
+    signing_keys: await repository.getSigningKeys()
+  }
+
+  const preview = {} as RestorePreview
+  for (const collection of SNAPSHOT_COLLECTIONS) {
+    const currentRecords: { id: string }[] = current[collection]
+    const existing = new Map(currentRecords.map(record => [record.id, record]))
+    const incoming: { id: string }[] = backup.snapshot[collection]
+    const incomingIds = new Set(incoming.map(record => record.id))
+    const diff: CollectionDiff = { added: 0, updated: 0, unchanged: 0, removed: 0 }
+
+    for (const record of incoming) {
+      const match = existing.get(record.id)
+      if (!match) {
+        diff.added++
+      } else if (sameRecord(match, record)) {
+        diff.unchanged++
+      } else {
+        diff.updated++
+      }
+    }
+    if (mode === 'replace') {
+      diff.removed = currentRecords.filter(record => !incomingIds.has(record.id)).length
+    } else if (collection === 'registrations') {
+      diff.removed = getDisplacedRegistrations(current.registrations, backup.snapshot.registrations).length
+    }
+    preview[collection] = diff
+  }
+  return preview
+}
+
+export const restoreBackup = async (backup: ParsedBackup, mode: RestoreMode) => {
+  await repository.restoreSnapshot(backup.snapshot, backup.posters, mode)
+}
@@ -0,0 +1,72 @@
+// Participation certificates, one landscape page per attendee
+import { Event, Certificate, CertificateTemplate, fillCertificateBody } from '@/lib/models'
+import { A4_LANDSCAPE, PdfColor, createPdf, truncateText, wrapText } from '@/lib/pdf'
+import { eventFileSlug } from '@/lib/export'
+import { dataBackend } from '@/lib/repository'
+
+const GRAY: PdfColor = [0.4, 0.4, 0.4]
+const ACCENT: PdfColor = [0.86, 0.15, 0.47]
+
+// Visitors can only look codes up in a shared database. The browser backends keep certificates
+// on the machine that issued them, so the verification page can't vouch for them anywhere else.
+export const canVerifyPublicly = dataBackend === 'supabase'
+
+// Page the QR code on a certificate links to
+export const certificateVerificationUrl = (verificationCode: string) => {
+  return `${window.location.origin}/verify/${verificationCode}`
+}
+
+const formatIssueDate = (issuedAt: string) => new Date(issuedAt).toLocaleDateString('en-US', {
+  year: 'numeric',
+  month: 'long',
+  day: 'numeric'
+})
+
+export const createCertificatesPdf = (event: Event, template: CertificateTemplate, certificates: Certificate[]) => {
+  const pdf = createPdf(A4_LANDSCAPE)
+  const center = pdf.width / 2
+  const sorted = [...certificates].sort((a, b) => a.recipient_name.localeCompare(b.recipient_name))
+
+  sorted.forEach((certificate, index) => {
+    if (index > 0) {
+      pdf.addPage()
+    }
+
+    pdf.rect(20, 20, pdf.width - 40, pdf.height - 40, { stroke: ACCENT, lineWidth: 3 })
+    pdf.rect(30, 30, pdf.width - 60, pdf.height - 60, { stroke: GRAY })
+
+    pdf.text('SWIFTATTEND', center, 85, { size: 10, font: 'bold', color: ACCENT, align: 'center' })
+    pdf.text(truncateText(template.title, pdf.width - 140, 32, 'bold'), center, 140, { size: 32, font: 'bold', align: 'center' })
+    pdf.text('is presented to', center, 185, { size: 12, color: GRAY, align: 'center' })
+    pdf.text(truncateText(certificate.recipient_name, pdf.width - 200, 28, 'bold'), center, 232, { size: 28, font: 'bold', align: 'center' })
+    pdf.line(center - 200, 245, center + 200, 245, GRAY, 0.5)
+
+    let top = 285
+    for (const line of wrapText(fillCertificateBody(template, event, certificate), 560, 13).slice(0, 6)) {
+      pdf.text(line, center, top, { size: 13, align: 'center' })
+      top += 19
+    }
+
+    // Signature block, bottom left
+    pdf.line(80, 480, 290, 480)
+    if (template.signatory_name.trim()) {
+      pdf.text(truncateText(template.signatory_name, 210, 11, 'bold'), 80, 496, { size: 11, font: 'bold' })
+    }
+    pdf.text(truncateText(template.signatory_title, 210, 10), 80, template.signatory_name.trim() ? 510 : 496, { size: 10, color: GRAY })
+
+    // Verification block, bottom right
+    const qrSize = 80
+    const qrLeft = pdf.width - 80 - qrSize
+    pdf.qrCode(certificateVerificationUrl(certificate.verification_code), qrLeft, 420, qrSize)
+    pdf.text(`Issued ${formatIssueDate(certificate.issued_at)}`, qrLeft - 15, 450, { size: 9, color: GRAY, align: 'right' })
+    pdf.text('Verification code', qrLeft - 15, 472, { size: 9, color: GRAY, align: 'right' })
+    pdf.text(certificate.verification_code, qrLeft - 15, 486, { size: 11, font: 'bold', align: 'right' })
+    pdf.text(truncateText(`${window.location.host}/verify`, 200, 8), qrLeft + qrSize / 2, 514, { size: 8, color: GRAY, align: 'center' })
+  })
+
+  return pdf.toBlob(`${event.name} - Certificates`)
+}
+
+export const certificatesFilename = (event: Event) => {
+  return `${eventFileSlug(event)}-certificates.pdf`
+}
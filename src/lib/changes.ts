@@ -0,0 +1,196 @@
+// Typed change notifications, delivered to this tab and to every other open tab/window
+import { DataRepository } from '@/lib/models'
+
+export type DataChange =
+  | { type: 'event_created'; eventId: string }
+  | { type: 'event_updated'; eventId: string }
+  | { type: 'event_status_changed'; eventId: string }
+  | { type: 'event_cancelled'; eventId: string }
+  | { type: 'event_deleted'; eventId: string }
+  | { type: 'registration_added'; eventId: string; registrationId: string }
+  | { type: 'registration_deleted'; registrationId: string }
+  | { type: 'registration_transferred'; eventId: string; registrationId: string }
+  | { type: 'team_created'; eventId: string; teamId: string; registrationId: string }
+  | { type: 'attendance_recorded'; eventId: string; registrationId: string; sessionId: string }
+  | { type: 'attendance_checked_out'; eventId: string; registrationId: string; sessionId: string }
+  | { type: 'certificates_issued'; eventId: string }
+  | { type: 'support_message_created'; eventId: string; messageId: string }
+  | { type: 'support_message_resolved'; messageId: string }
+  | { type: 'data_restored' }
+  | { type: 'data_cleared' }
+
+export type DataChangeListener = (change: DataChange) => void
+
+const CHANNEL_NAME = 'swiftattend_changes'
+// Fallback for browsers without BroadcastChannel: other tabs get a `storage` event for this key
+const STORAGE_EVENT_KEY = 'swiftattend_change'
+
+const listeners = new Set<DataChangeListener>()
+
+const notifyListeners = (change: DataChange) => {
+  listeners.forEach(listener => {
+    try {
+      listener(change)
+    } catch (err) {
+      console.error('Error in data change listener:', err)
+    }
+  })
+}
+
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null
+
+if (channel) {
+  channel.onmessage = (message: MessageEvent<DataChange>) => notifyListeners(message.data)
+} else if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (storageEvent) => {
+    if (storageEvent.key === STORAGE_EVENT_KEY && storageEvent.newValue) {
+      notifyListeners(JSON.parse(storageEvent.newValue).change)
+    }
+  })
+}
+
+export const publishChange = (change: DataChange) => {
+  // BroadcastChannel never echoes to the sender, so notify this tab directly
+  notifyListeners(change)
+
+  if (channel) {
+    channel.postMessage(change)
+  } else {
+    // The timestamp makes repeated identical changes still fire a storage event
+    localStorage.setItem(STORAGE_EVENT_KEY, JSON.stringify({ change, at: Date.now() }))
+  }
+}
+
+export const subscribeToChanges = (listener: DataChangeListener) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+// Wrap a repository so every successful write publishes a change
+export const withChangeNotifications = (repository: DataRepository): DataRepository => ({
+  ...repository,
+
+  async createEvent(eventData, poster) {
+    const event = await repository.createEvent(eventData, poster)
+    publishChange({ type: 'event_created', eventId: event.id })
+    return event
+  },
+
+  async updateEvent(eventId, updates, poster) {
+    const event = await repository.updateEvent(eventId, updates, poster)
+    publishChange({ type: 'event_updated', eventId })
+    return event
+  },
+
+  async setEventStatus(eventId, status) {
+    const event = await repository.setEventStatus(eventId, status)
+    publishChange({ type: 'event_status_changed', eventId })
+    return event
+  },
+
+  async cancelEvent(eventId, reason) {
+    const event = await repository.cancelEvent(eventId, reason)
+    publishChange({ type: 'event_cancelled', eventId })
+    return event
+  },
+
+  async deleteEvent(eventId) {
+    const deleted = await repository.deleteEvent(eventId)
+    if (deleted) {
+      publishChange({ type: 'event_deleted', eventId })
+    }
+    return deleted
+  },
+
+  async registerForEvent(eventId, userId, userName, userEmail, answers, studentId) {
+    const registration = await repository.registerForEvent(eventId, userId, userName, userEmail, answers, studentId)
+    publishChange({ type: 'registration_added', eventId, registrationId: registration.id })
+    return registration
+  },
+
+  async createTeam(eventId, teamName, maxSize, userId, userName, userEmail, answers) {
+    const result = await repository.createTeam(eventId, teamName, maxSize, userId, userName, userEmail, answers)
+    publishChange({ type: 'team_created', eventId, teamId: result.team.id, registrationId: result.registration.id })
+    return result
+  },
+
+  async joinTeam(eventId, inviteCode, userId, userName, userEmail, answers) {
+    const registration = await repository.joinTeam(eventId, inviteCode, userId, userName, userEmail, answers)
+    publishChange({ type: 'registration_added', eventId, registrationId: registration.id })
+    return registration
+  },
+
+  async deleteRegistration(registrationId) {
+    const deleted = await repository.deleteRegistration(registrationId)
+    if (deleted) {
+      publishChange({ type: 'registration_deleted', registrationId })
+    }
+    return deleted
+  },
+
+  async cancelRegistration(registrationId, userId) {
+    await repository.cancelRegistration(registrationId, userId)
+    publishChange({ type: 'registration_deleted', registrationId })
+  },
+
+  async transferRegistration(registrationId, userId, toEmail, toName) {
+    const registration = await repository.transferRegistration(registrationId, userId, toEmail, toName)
+    publishChange({ type: 'registration_transferred', eventId: registration.event_id, registrationId })
+    return registration
+  },
+
+  async checkInAttendee(registrationId, sessionId, method, staffId, staffName) {
+    const result = await repository.checkInAttendee(registrationId, sessionId, method, staffId, staffName)
+    if (result.success) {
+      publishChange({ type: 'attendance_recorded', eventId: result.attendance.event_id, registrationId, sessionId })
+    }
+    return result
+  },
+
+  async registerWalkIn(eventId, sessionId, details, staffId, staffName) {
+    const result = await repository.registerWalkIn(eventId, sessionId, details, staffId, staffName)
+    publishChange({ type: 'registration_added', eventId, registrationId: result.registration.id })
+    publishChange({ type: 'attendance_recorded', eventId, registrationId: result.registration.id, sessionId })
+    return result
+  },
+
+  async checkOutAttendee(registrationId, sessionId, staffId, staffName) {
+    const result = await repository.checkOutAttendee(registrationId, sessionId, staffId, staffName)
+    if (result.success) {
+      publishChange({ type: 'attendance_checked_out', eventId: result.attendance.event_id, registrationId, sessionId })
+    }
+    return result
+  },
+
+  async issueCertificates(eventId, template) {
+    const certificates = await repository.issueCertificates(eventId, template)
+    publishChange({ type: 'certificates_issued', eventId })
+    return certificates
+  },
+
+  async createSupportMessage(eventId, userId, userName, userEmail, message) {
+    const supportMessage = await repository.createSupportMessage(eventId, userId, userName, userEmail, message)
+    publishChange({ type: 'support_message_created', eventId, messageId: supportMessage.id })
+    return supportMessage
+  },
+
+  async resolveSupportMessage(messageId, resolvedBy) {
+    const resolved = await repository.resolveSupportMessage(messageId, resolvedBy)
+    if (resolved) {
+      publishChange({ type: 'support_message_resolved', messageId })
+    }
+    return resolved
+  },
+
+  async restoreSnapshot(snapshot, posters, mode) {
+    await repository.restoreSnapshot(snapshot, posters, mode)
+    publishChange({ type: 'data_restored' })
+  },
+
+  async clearAllData() {
+    await repository.clearAllData()
+    publishChange({ type: 'data_cleared' })
+  }
+})
@@ -0,0 +1,217 @@
+// Attendance and registration exports for faculty, organisers and the college ERP
+import { Event, EventSession, Registration, Attendance, Team, ARRIVAL_STATUS_LABELS, CHECK_IN_METHOD_LABELS, getEventSessions, getArrivalStatus, getMinutesLate, getTimeOnSiteMinutes, isPartialAttendance, formatAnswer } from '@/lib/models'
+import { createXlsx } from '@/lib/xlsx'
+
+export type ExportDataset = 'attendance' | 'registrations'
+
+export type ExportFormat = 'csv' | 'xlsx'
+
+export const EXPORT_DATASET_LABELS: Record<ExportDataset, string> = {
+  attendance: 'Attendance',
+  registrations: 'Registrations'
+}
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (XLSX)'
+}
+
+// A column that can be picked for an export
+export interface ExportColumn {
+  id: string
+  label: string
+}
+
+// A picked column and the header written for it, so files can match another system's upload format
+export interface ExportColumnChoice {
+  id: string
+  header: string
+}
+
+// A saved column selection, kept on this device
+export interface ExportTemplate {
+  name: string
+  dataset: ExportDataset
+  format: ExportFormat
+  columns: ExportColumnChoice[]
+}
+
+export interface ExportData {
+  events: Event[]
+  registrations: Registration[]
+  attendances: Attendance[]
+  teams: Team[]
+}
+
+type Cell = string | number
+
+// Attendance rows also carry a session and, when the attendee came, the check-in
+interface ExportRow {
+  event: Event
+  registration: Registration
+  team?: Team
+  session?: EventSession
+  attendance?: Attendance
+}
+
+interface ColumnDefinition extends ExportColumn {
+  value: (row: ExportRow) => Cell
+  // Left out of the default columns, so exporting it is always a deliberate choice
+  optIn?: boolean
+}
+
+// Question columns are keyed by question id so answers line up across events
+const ANSWER_COLUMN_PREFIX = 'answer:'
+
+const formatTimestamp = (value?: string) => value ? new Date(value).toLocaleString() : ''
+
+const PARTICIPANT_COLUMNS: ColumnDefinition[] = [
+  { id: 'event', label: 'Event', value: ({ event }) => event.name },
+  { id: 'event_date', label: 'Event Date', value: ({ event }) => event.event_date },
+  { id: 'name', label: 'Name', value: ({ registration }) => registration.user_name },
+  { id: 'email', label: 'Email', value: ({ registration }) => registration.user_email },
+  { id: 'student_id', label: 'Student ID', value: ({ registration }) => registration.student_id ?? '' },
+  { id: 'walk_in', label: 'Walk-In', value: ({ registration }) => registration.walk_in ? 'Yes' : 'No' },
+  { id: 'team', label: 'Team', value: ({ team }) => team?.name ?? '' }
+]
+
+const REGISTRATION_COLUMNS: ColumnDefinition[] = [
+  ...PARTICIPANT_COLUMNS,
+  { id: 'status', label: 'Registration Status', value: ({ registration }) => registration.status === 'confirmed' ? 'Confirmed' : 'Waitlisted' },
+  { id: 'registered_at', label: 'Registered At', value: ({ registration }) => formatTimestamp(registration.created_at) },
+  // Anyone holding a backup code can check in as that attendee
+  { id: 'backup_code', label: 'Backup Code', value: ({ registration }) => registration.backup_code ?? '', optIn: true }
+]
+
+const ATTENDANCE_COLUMNS: ColumnDefinition[] = [
+  ...PARTICIPANT_COLUMNS,
+  { id: 'session', label: 'Session', value: ({ session }) => session?.name ?? '' },
+  { id: 'attendance', label: 'Attendance', value: ({ attendance }) => attendance ? 'Present' : 'Absent' },
+  { id: 'checked_in_at', label: 'Checked In At', value: ({ attendance }) => formatTimestamp(attendance?.checked_in_at) },
+  { id: 'check_in_method', label: 'Check-In Method', value: ({ attendance }) => attendance ? CHECK_IN_METHOD_LABELS[attendance.check_in_method] : '' },
+  { id: 'checked_in_by', label: 'Checked In By', value: ({ attendance }) => attendance ? attendance.staff_name ?? attendance.staff_id : '' },
+  { id: 'arrival', label: 'Arrival', value: ({ event, attendance }) => attendance ? ARRIVAL_STATUS_LABELS[getArrivalStatus(event, attendance)] : '' },
+  { id: 'minutes_late', label: 'Minutes Late', value: ({ event, attendance }) => attendance ? Math.max(0, getMinutesLate(event, attendance)) : '' },
+  { id: 'checked_out_at', label: 'Checked Out At', value: ({ attendance }) => formatTimestamp(attendance?.checked_out_at) },
+  { id: 'minutes_on_site', label: 'Minutes On Site', value: ({ attendance }) => attendance ? getTimeOnSiteMinutes(attendance) ?? '' : '' },
+  { id: 'partial', label: 'Partial Attendance', value: ({ event, attendance }) => attendance ? (isPartialAttendance(event, attendance) ? 'Yes' : 'No') : '' }
+]
+
+const DATASET_COLUMNS: Record<ExportDataset, ColumnDefinition[]> = {
+  attendance: ATTENDANCE_COLUMNS,
+  registrations: REGISTRATION_COLUMNS
+}
+
+// Built-in columns followed by one column per registration question across the given events
+export const getExportColumns = (dataset: ExportDataset, events: Event[]): ExportColumn[] => {
+  const questions = events
+    .flatMap(event => event.questions ?? [])
+    .filter((question, index, all) => all.findIndex(q => q.id === question.id) === index)
+  return [
+    ...DATASET_COLUMNS[dataset].map(({ id, label }) => ({ id, label })),
+    ...questions.map(question => ({ id: `${ANSWER_COLUMN_PREFIX}${question.id}`, label: question.label }))
+  ]
+}
+
+export const getDefaultColumnChoices = (dataset: ExportDataset, events: Event[]): ExportColumnChoice[] => {
+  const optIn = new Set(DATASET_COLUMNS[dataset].filter(column => column.optIn).map(column => column.id))
+  return getExportColumns(dataset, events)
+    .filter(({ id }) => !optIn.has(id))
+    .map(({ id, label }) => ({ id, header: label }))
+}
+
+// Columns a template picks that don't exist for these events export as blanks,
+// so the file keeps the layout the template describes
+const getCell = (dataset: ExportDataset, columnId: string, row: ExportRow): Cell => {
+  if (columnId.startsWith(ANSWER_COLUMN_PREFIX)) {
+    return formatAnswer(row.registration.answers?.[columnId.slice(ANSWER_COLUMN_PREFIX.length)])
+  }
+  return DATASET_COLUMNS[dataset].find(column => column.id === columnId)?.value(row) ?? ''
+}
+
+// Registration exports have one row per registration, waitlisted ones included. Attendance
+// exports have one row per confirmed registration and session, including missed sessions.
+const getExportRows = (dataset: ExportDataset, data: ExportData): ExportRow[] => {
+  return data.events.flatMap(event => {
+    const registrations = data.registrations
+      .filter(registration => registration.event_id === event.id)
+      .sort((a, b) => a.user_name.localeCompare(b.user_name))
+      .map(registration => ({ event, registration, team: data.teams.find(team => team.id === registration.team_id) }))
+
+    if (dataset === 'registrations') {
+      return registrations
+    }
+    return registrations
+      .filter(({ registration }) => registration.status === 'confirmed')
+      .flatMap(row => getEventSessions(event).map(session => ({
+        ...row,
+        session,
+        attendance: data.attendances.find(a => a.registration_id === row.registration.id && a.session_id === session.id)
+      })))
+  })
+}
+
+// Header row followed by the data rows
+export const buildExportTable = (dataset: ExportDataset, data: ExportData, columns: ExportColumnChoice[]): Cell[][] => {
+  const rows = getExportRows(dataset, data).map(row => columns.map(column => getCell(dataset, column.id, row)))
+  return [columns.map(column => column.header), ...rows]
+}
+
+// Spreadsheets run text starting with one of these as a formula, so typed-in names and
+// answers could execute on a staff machine; a leading apostrophe keeps them as text
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+const csvCell = (cell: Cell) => {
+  const text = typeof cell === 'string' && FORMULA_PREFIX.test(cell) ? `'${cell}` : String(cell)
+  return `"${text.replace(/"/g, '""')}"`
+}
+
+// Quote every cell so commas, quotes and line breaks survive spreadsheet imports
+export const toCsv = (rows: Cell[][]) => {
+  return rows.map(row => row.map(csvCell).join(',')).join('\r\n')
+}
+
+export const exportBlob = (format: ExportFormat, dataset: ExportDataset, table: Cell[][]) => {
+  return format === 'xlsx'
+    ? createXlsx(EXPORT_DATASET_LABELS[dataset], table)
+    : new Blob([toCsv(table)], { type: 'text/csv;charset=utf-8' })
+}
+
+// File-name-safe version of the event name
+export const eventFileSlug = (event: Event) => {
+  return event.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'event'
+}
+
+export const exportFilename = (dataset: ExportDataset, format: ExportFormat, events: Event[]) => {
+  const name = events.length === 1 ? eventFileSlug(events[0]) : 'all-events'
+  return `${name}-${dataset}.${format}`
+}
+
+const TEMPLATES_KEY = 'swiftattend_export_templates'
+
+export const getExportTemplates = (): ExportTemplate[] => {
+  try {
+    const templates = JSON.parse(localStorage.getItem(TEMPLATES_KEY) ?? '[]')
+    return Array.isArray(templates) ? templates : []
+  } catch {
+    return []
+  }
+}
+
+// Saving under an existing name replaces that template
+export const saveExportTemplate = (template: ExportTemplate) => {
+  const name = template.name.trim()
+  if (!name) {
+    throw new Error('Enter a name for the template')
+  }
+  if (template.columns.length === 0) {
+    throw new Error('Pick at least one column')
+  }
+  const templates = getExportTemplates().filter(t => !(t.dataset === template.dataset && t.name === name))
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify([...templates, { ...template, name }]))
+}
+
+export const deleteExportTemplate = (dataset: ExportDataset, name: string) => {
+  const templates = getExportTemplates().filter(t => !(t.dataset === dataset && t.name === name))
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates))
+}
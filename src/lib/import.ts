@@ -0,0 +1,184 @@
+// Roster import: parse a CSV, map its columns, validate every row and register the valid ones
+import { Event, Registration, RegistrationAnswers, validateAnswers } from '@/lib/models'
+import { userIdForEmail, validateEmail } from '@/lib/auth'
+import { repository } from '@/lib/repository'
+import { toCsv, eventFileSlug } from '@/lib/export'
+
+// RFC 4180: quoted cells may contain commas, line breaks and doubled quotes
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  // Spreadsheets often leave blank lines at the end
+  return rows.filter(cells => cells.some(value => value.trim()))
+}
+
+export type ImportField = 'email' | 'name' | 'student_id'
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  email: 'Email',
+  name: 'Name',
+  student_id: 'Student ID'
+}
+
+// Column index for each import field and each registration question id, null when unmapped
+export type ColumnMapping = Record<string, number | null>
+
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  email: ['email', 'e mail', 'email address', 'mail'],
+  name: ['name', 'full name', 'student name', 'participant name'],
+  student_id: ['student id', 'usn', 'roll number', 'roll no', 'registration number']
+}
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s_-]+/g, ' ')
+
+// Map columns whose header matches a field name or question label
+export const guessColumnMapping = (headers: string[], event: Event): ColumnMapping => {
+  const normalized = headers.map(normalizeHeader)
+  const find = (names: string[]) => {
+    const index = normalized.findIndex(header => names.includes(header))
+    return index === -1 ? null : index
+  }
+
+  const mapping: ColumnMapping = {}
+  for (const field of Object.keys(FIELD_ALIASES) as ImportField[]) {
+    mapping[field] = find(FIELD_ALIASES[field])
+  }
+  for (const question of event.questions ?? []) {
+    mapping[question.id] = find([normalizeHeader(question.label)])
+  }
+  return mapping
+}
+
+export interface ImportRow {
+  // Line in the file, where the header is line 1
+  line: number
+  email: string
+  name: string
+  studentId?: string
+  answers: RegistrationAnswers
+  // Why the row will be skipped
+  error?: string
+}
+
+// Spreadsheet checkboxes come through as text
+const parseCheckbox = (value: string) => /^(yes|y|true|1|x)$/i.test(value.trim())
+
+// Validate every data row without writing anything. Rows that repeat an earlier row's email
+// or student ID, or match an existing registration, are reported as duplicates.
+export const validateImportRows = (event: Event, rows: string[][], mapping: ColumnMapping, existing: Registration[]): ImportRow[] => {
+  const cell = (row: string[], key: string) => mapping[key] === null || mapping[key] === undefined ? '' : (row[mapping[key]!] ?? '').trim()
+  const seenEmails = new Set(existing.map(registration => registration.user_email.toLowerCase()))
+  const seenStudentIds = new Set(existing.filter(registration => registration.student_id).map(registration => registration.student_id!.toLowerCase()))
+
+  return rows.map((row, index) => {
+    const email = cell(row, 'email').toLowerCase()
+    const studentId = cell(row, 'student_id')
+    const answers: RegistrationAnswers = {}
+    for (const question of event.questions ?? []) {
+      const value = cell(row, question.id)
+      answers[question.id] = question.type === 'checkbox' ? parseCheckbox(value) : value
+    }
+    const importRow: ImportRow = { line: index + 2, email, name: cell(row, 'name'), studentId: studentId || undefined, answers }
+
+    const emailValidation = validateEmail(email)
+    if (!emailValidation.valid) {
+      return { ...importRow, error: emailValidation.error }
+    }
+    if (!importRow.name) {
+      return { ...importRow, error: 'Name is required' }
+    }
+    if (seenEmails.has(email)) {
+      return { ...importRow, error: `Duplicate email ${email}` }
+    }
+    if (studentId && seenStudentIds.has(studentId.toLowerCase())) {
+      return { ...importRow, error: `Duplicate student ID ${studentId}` }
+    }
+    seenEmails.add(email)
+    if (studentId) {
+      seenStudentIds.add(studentId.toLowerCase())
+    }
+
+    try {
+      return { ...importRow, answers: validateAnswers(event, answers) }
+    } catch (err) {
+      return { ...importRow, error: err instanceof Error ? err.message : 'Invalid answers' }
+    }
+  })
+}
+
+export interface ImportResult {
+  row: ImportRow
+  registration?: Registration
+  error?: string
+}
+
+// Register valid rows one at a time, so one failure never stops the rest.
+// Rows that failed validation are carried into the results with their error.
+export const importRegistrations = async (event: Event, rows: ImportRow[], onProgress?: (done: number) => void): Promise<ImportResult[]> => {
+  const results: ImportResult[] = []
+  for (const row of rows) {
+    if (row.error) {
+      results.push({ row, error: row.error })
+    } else {
+      try {
+        const registration = await repository.registerForEvent(event.id, userIdForEmail(row.email), row.name, row.email, row.answers, row.studentId)
+        results.push({ row, registration })
+      } catch (err) {
+        results.push({ row, error: err instanceof Error ? err.message : 'Failed to register' })
+      }
+    }
+    onProgress?.(results.length)
+  }
+  return results
+}
+
+export const importReportCsv = (results: ImportResult[]) => {
+  const header = ['Line', 'Email', 'Name', 'Student ID', 'Result', 'Error']
+  const rows = results.map(({ row, registration, error }) => [
+    row.line,
+    row.email,
+    row.name,
+    row.studentId ?? '',
+    registration ? (registration.status === 'waitlisted' ? 'Waitlisted' : 'Registered') : 'Skipped',
+    error ?? ''
+  ])
+  return toCsv([header, ...rows])
+}
+
+export const importReportFilename = (event: Event) => {
+  return `${eventFileSlug(event)}-import-report.csv`
+}
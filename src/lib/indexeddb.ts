@@ -0,0 +1,318 @@
+// IndexedDB record store: one object store per entity, posters kept as Blobs
+import { Event } from '@/lib/models'
+import { COLLECTIONS, Collection, QuarantinedRecord, RecordStore, parseCollection, storageKey } from '@/lib/record-store'
+
+const DB_NAME = 'swiftattend'
+const DB_VERSION = 5
+const POSTERS_STORE = 'posters'
+const META_STORE = 'meta'
+const QUARANTINE_STORE = 'quarantine'
+const POSTER_URL_PREFIX = 'idb-poster:'
+const LEGACY_MIGRATED_KEY = 'legacy_local_storage_migrated'
+const SCHEMA_VERSION_KEY = 'schema_version'
+
+// Secondary indexes per object store
+const INDEXES: Record<Collection, string[]> = {
+  events: [],
+  registrations: ['event_id', 'user_id', 'qr_code_data', 'backup_code'],
+  attendances: ['event_id', 'registration_id'],
+  support_messages: ['event_id', 'user_id'],
+  teams: ['event_id', 'invite_code'],
+  certificates: ['event_id', 'registration_id', 'verification_code'],
+  signing_keys: ['event_id']
+}
+
+interface PosterRecord {
+  id: string
+  blob: Blob
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      for (const collection of COLLECTIONS) {
+        if (!db.objectStoreNames.contains(collection)) {
+          const store = db.createObjectStore(collection, { keyPath: 'id' })
+          for (const field of INDEXES[collection]) {
+            store.createIndex(field, field)
+          }
+        }
+      }
+      if (!db.objectStoreNames.contains(POSTERS_STORE)) {
+        db.createObjectStore(POSTERS_STORE, { keyPath: 'id' })
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE)
+      }
+      if (!db.objectStoreNames.contains(QUARANTINE_STORE)) {
+        db.createObjectStore(QUARANTINE_STORE, { autoIncrement: true })
+      }
+    }
+
+    // An older build in another tab still has the database open and won't let go
+    let blocked = false
+    request.onblocked = () => {
+      blocked = true
+      reject(new Error('SwiftAttend is open in another tab running an older version. Close the other tabs and reload this page.'))
+    }
+
+    request.onsuccess = () => {
+      const db = request.result
+      if (blocked) {
+        // The other tab closed in the meantime, but this page has already been told to reload
+        db.close()
+        return
+      }
+      // A newer build in another tab is upgrading; step aside instead of blocking it
+      db.onversionchange = () => {
+        db.close()
+        dbPromise = null
+        console.warn('SwiftAttend was updated in another tab. Reload this page to continue.')
+      }
+      resolve(db)
+    }
+    request.onerror = () => reject(request.error)
+  })
+}
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const response = await fetch(dataUrl)
+  return response.blob()
+}
+
+// One-time copy of the old swiftattend_* localStorage keys into IndexedDB.
+// Base64 posters are converted to Blobs, then the keys are removed to free the quota.
+const migrateLegacyLocalStorage = async (db: IDBDatabase) => {
+  const alreadyMigrated = await requestToPromise(
+    db.transaction(META_STORE).objectStore(META_STORE).get(LEGACY_MIGRATED_KEY)
+  )
+  if (alreadyMigrated) {
+    return
+  }
+
+  const rejected: QuarantinedRecord[] = []
+  const legacy = COLLECTIONS.map(collection => {
+    const { items, rejected: unreadable } = parseCollection(collection, localStorage.getItem(storageKey(collection)))
+    if (unreadable) {
+      rejected.push(unreadable)
+    }
+    // Records without an id can't be keyed in IndexedDB
+    const keyed = items.filter(item => typeof (item as { id?: unknown })?.id === 'string')
+    for (const item of items.filter(item => !keyed.includes(item))) {
+      rejected.push({ collection, reason: 'Record has no id', data: item, quarantined_at: new Date().toISOString() })
+    }
+    return { collection, items: keyed }
+  })
+
+  // Blob conversion is async, so it has to happen before the transaction opens
+  const posters: PosterRecord[] = []
+  for (const { collection, items } of legacy) {
+    if (collection !== 'events') continue
+    for (const event of items as Event[]) {
+      if (typeof event.poster_url === 'string' && event.poster_url.startsWith('data:')) {
+        try {
+          posters.push({ id: event.id, blob: await dataUrlToBlob(event.poster_url) })
+          event.poster_url = `${POSTER_URL_PREFIX}${event.id}`
+        } catch (err) {
+          console.error(`Dropping unreadable poster for event ${event.id}:`, err)
+          event.poster_url = undefined
+        }
+      }
+    }
+  }
+
+  const transaction = db.transaction([...COLLECTIONS, POSTERS_STORE, META_STORE, QUARANTINE_STORE], 'readwrite')
+  for (const { collection, items } of legacy) {
+    const store = transaction.objectStore(collection)
+    for (const item of items) {
+      store.put(item)
+    }
+  }
+  for (const poster of posters) {
+    transaction.objectStore(POSTERS_STORE).put(poster)
+  }
+  for (const record of rejected) {
+    transaction.objectStore(QUARANTINE_STORE).add(record)
+  }
+  transaction.objectStore(META_STORE).put(true, LEGACY_MIGRATED_KEY)
+  await transactionDone(transaction)
+
+  for (const collection of COLLECTIONS) {
+    localStorage.removeItem(storageKey(collection))
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+// Opened lazily so importing this module never touches IndexedDB
+const getDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = openDatabase().then(async db => {
+      await migrateLegacyLocalStorage(db)
+      return db
+    })
+    dbPromise.catch(() => {
+      dbPromise = null
+    })
+  }
+  return dbPromise
+}
+
+// Object URLs are created once per poster and reused for the lifetime of the page
+const posterObjectUrls = new Map<string, string>()
+
+// Called when a poster is replaced or deleted so the next read sees the new Blob
+const forgetPosterObjectUrl = (posterId: string) => {
+  const objectUrl = posterObjectUrls.get(posterId)
+  if (objectUrl) {
+    URL.revokeObjectURL(objectUrl)
+    posterObjectUrls.delete(posterId)
+  }
+}
+
+export const indexedDbStore: RecordStore = {
+  async getAll(collection) {
+    const db = await getDatabase()
+    return requestToPromise(db.transaction(collection).objectStore(collection).getAll())
+  },
+
+  async get(collection, id) {
+    const db = await getDatabase()
+    const record = await requestToPromise(db.transaction(collection).objectStore(collection).get(id))
+    return record ?? null
+  },
+
+  async findBy(collection, field, value) {
+    const db = await getDatabase()
+    const store = db.transaction(collection).objectStore(collection)
+    if (store.indexNames.contains(field)) {
+      return requestToPromise(store.index(field).getAll(value))
+    }
+    const records = await requestToPromise(store.getAll())
+    return records.filter(record => record[field] === value)
+  },
+
+  async put(collection, record) {
+    const db = await getDatabase()
+    const transaction = db.transaction(collection, 'readwrite')
+    transaction.objectStore(collection).put(record)
+    await transactionDone(transaction)
+  },
+
+  async remove(collection, id) {
+    const db = await getDatabase()
+    const transaction = db.transaction(collection, 'readwrite')
+    transaction.objectStore(collection).delete(id)
+    await transactionDone(transaction)
+  },
+
+  async replaceAll(collection, records) {
+    const db = await getDatabase()
+    const transaction = db.transaction(collection, 'readwrite')
+    const store = transaction.objectStore(collection)
+    store.clear()
+    for (const record of records) {
+      store.put(record)
+    }
+    await transactionDone(transaction)
+  },
+
+  async clear() {
+    const db = await getDatabase()
+    const transaction = db.transaction([...COLLECTIONS, POSTERS_STORE], 'readwrite')
+    for (const name of [...COLLECTIONS, POSTERS_STORE]) {
+      transaction.objectStore(name).clear()
+    }
+    await transactionDone(transaction)
+    posterObjectUrls.forEach(url => URL.revokeObjectURL(url))
+    posterObjectUrls.clear()
+  },
+
+  async getSchemaVersion() {
+    const db = await getDatabase()
+    const version = await requestToPromise(db.transaction(META_STORE).objectStore(META_STORE).get(SCHEMA_VERSION_KEY))
+    return Number(version) || 0
+  },
+
+  async setSchemaVersion(version) {
+    const db = await getDatabase()
+    const transaction = db.transaction(META_STORE, 'readwrite')
+    transaction.objectStore(META_STORE).put(version, SCHEMA_VERSION_KEY)
+    await transactionDone(transaction)
+  },
+
+  async quarantine(records) {
+    const db = await getDatabase()
+    const transaction = db.transaction(QUARANTINE_STORE, 'readwrite')
+    for (const record of records) {
+      transaction.objectStore(QUARANTINE_STORE).add(record)
+    }
+    await transactionDone(transaction)
+  },
+
+  async getQuarantine() {
+    const db = await getDatabase()
+    return requestToPromise(db.transaction(QUARANTINE_STORE).objectStore(QUARANTINE_STORE).getAll())
+  },
+
+  async savePoster(eventId, poster) {
+    const db = await getDatabase()
+    const transaction = db.transaction(POSTERS_STORE, 'readwrite')
+    transaction.objectStore(POSTERS_STORE).put({ id: eventId, blob: poster })
+    await transactionDone(transaction)
+    forgetPosterObjectUrl(eventId)
+    return `${POSTER_URL_PREFIX}${eventId}`
+  },
+
+  async resolvePosterUrl(posterUrl) {
+    if (!posterUrl.startsWith(POSTER_URL_PREFIX)) {
+      return posterUrl
+    }
+    const posterId = posterUrl.slice(POSTER_URL_PREFIX.length)
+    const cached = posterObjectUrls.get(posterId)
+    if (cached) {
+      return cached
+    }
+
+    const db = await getDatabase()
+    const poster: PosterRecord | undefined = await requestToPromise(
+      db.transaction(POSTERS_STORE).objectStore(POSTERS_STORE).get(posterId)
+    )
+    if (!poster) {
+      return ''
+    }
+    const objectUrl = URL.createObjectURL(poster.blob)
+    posterObjectUrls.set(posterId, objectUrl)
+    return objectUrl
+  },
+
+  async removePoster(posterUrl) {
+    if (!posterUrl.startsWith(POSTER_URL_PREFIX)) {
+      return
+    }
+    const posterId = posterUrl.slice(POSTER_URL_PREFIX.length)
+    const db = await getDatabase()
+    const transaction = db.transaction(POSTERS_STORE, 'readwrite')
+    transaction.objectStore(POSTERS_STORE).delete(posterId)
+    await transactionDone(transaction)
+    forgetPosterObjectUrl(posterId)
+  }
+}
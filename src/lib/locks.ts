@@ -0,0 +1,8 @@
+// Cross-tab mutual exclusion using the Web Locks API
+export const withLock = async <T>(name: string, callback: () => Promise<T>): Promise<T> => {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    // Browsers without Web Locks only get same-tab ordering
+    return callback()
+  }
+  return navigator.locks.request(name, callback)
+}
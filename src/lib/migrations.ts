@@ -0,0 +1,176 @@
+// Versioned schema for persisted SwiftAttend data and the migration runner that upgrades it at startup
+import { COLLECTIONS, Collection, CollectionRecords, QuarantinedRecord, RecordStore } from '@/lib/record-store'
+import { DEFAULT_SESSION_ID, createBackupCode, isValidBackupCode } from '@/lib/models'
+
+export type PersistedData = Record<Collection, Record<string, unknown>[]>
+
+export interface Migration {
+  version: number
+  description: string
+  migrate: (data: PersistedData) => PersistedData
+}
+
+// Ordered list of migrations. Append new entries, never edit or reorder shipped ones,
+// and keep them idempotent: data copied between backends may be migrated twice.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Adopt unversioned swiftattend_* data as schema version 1',
+    migrate: data => data
+  },
+  {
+    version: 2,
+    description: 'Give every event a status so events can be cancelled',
+    migrate: data => ({
+      ...data,
+      events: data.events.map(event => ({ status: 'active', ...event }))
+    })
+  },
+  {
+    version: 3,
+    description: 'Mark existing registrations as confirmed before the waitlist existed',
+    migrate: data => ({
+      ...data,
+      registrations: data.registrations.map(registration => ({ status: 'confirmed', ...registration }))
+    })
+  },
+  {
+    version: 4,
+    description: 'Attach existing attendance to the implicit main session of its event',
+    migrate: data => ({
+      ...data,
+      attendances: data.attendances.map(attendance => ({ session_id: DEFAULT_SESSION_ID, ...attendance }))
+    })
+  },
+  {
+    version: 5,
+    description: 'Publish events that were active before draft and archived states existed',
+    migrate: data => ({
+      ...data,
+      events: data.events.map(event => event.status === 'active' ? { ...event, status: 'published' } : event)
+    })
+  },
+  {
+    version: 6,
+    description: 'Reissue backup codes from before codes carried a check character',
+    migrate: data => {
+      const codes = new Set(data.registrations.map(registration => registration.backup_code))
+      const reissue = () => {
+        let backupCode = createBackupCode()
+        while (codes.has(backupCode)) {
+          backupCode = createBackupCode()
+        }
+        codes.add(backupCode)
+        return backupCode
+      }
+      return {
+        ...data,
+        registrations: data.registrations.map(registration =>
+          typeof registration.backup_code === 'string' && !isValidBackupCode(registration.backup_code)
+            ? { ...registration, backup_code: reissue() }
+            : registration
+        )
+      }
+    }
+  },
+  {
+    version: 7,
+    description: "Drop the previous holder's student ID, answers and walk-in flag from transferred registrations",
+    migrate: data => ({
+      ...data,
+      registrations: data.registrations.map(registration =>
+        registration.transferred_from
+          ? { ...registration, student_id: undefined, answers: undefined, walk_in: undefined }
+          : registration
+      )
+    })
+  }
+]
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
+// Fields every record of a collection must carry as strings
+const REQUIRED_FIELDS: Record<Collection, string[]> = {
+  events: ['id', 'name', 'event_date', 'start_time', 'end_time', 'location', 'status', 'created_by', 'created_at'],
+  registrations: ['id', 'event_id', 'user_id', 'user_name', 'user_email', 'status', 'created_at'],
+  attendances: ['id', 'registration_id', 'event_id', 'user_id', 'session_id', 'checked_in_at', 'check_in_method', 'staff_id'],
+  support_messages: ['id', 'event_id', 'user_id', 'user_name', 'user_email', 'message', 'status', 'created_at'],
+  teams: ['id', 'event_id', 'name', 'invite_code', 'leader_id', 'created_at'],
+  certificates: ['id', 'event_id', 'registration_id', 'user_id', 'recipient_name', 'verification_code', 'issued_at'],
+  signing_keys: ['id', 'event_id', 'secret', 'created_at']
+}
+
+// Returns why a record is invalid, or null when it is fine
+export const validateRecord = (collection: Collection, record: unknown): string | null => {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    return 'Record is not an object'
+  }
+  const missing = REQUIRED_FIELDS[collection].filter(
+    field => typeof (record as Record<string, unknown>)[field] !== 'string'
+  )
+  return missing.length > 0 ? `Missing or invalid fields: ${missing.join(', ')}` : null
+}
+
+// Apply every migration newer than fromVersion, in order
+export const migrateData = (data: PersistedData, fromVersion: number): PersistedData => {
+  let migrated = data
+  for (const migration of MIGRATIONS.filter(migration => migration.version > fromVersion)) {
+    console.info(`Running storage migration v${migration.version}: ${migration.description}`)
+    migrated = migration.migrate(migrated)
+  }
+  return migrated
+}
+
+// Split off records that fail validation
+export const separateInvalidRecords = (data: PersistedData) => {
+  const quarantined: QuarantinedRecord[] = []
+  const valid = {} as PersistedData
+  for (const collection of COLLECTIONS) {
+    valid[collection] = []
+    for (const record of data[collection] ?? []) {
+      const reason = validateRecord(collection, record)
+      if (reason) {
+        quarantined.push({ collection, reason, data: record, quarantined_at: new Date().toISOString() })
+      } else {
+        valid[collection].push(record)
+      }
+    }
+  }
+  return { data: valid, quarantined }
+}
+
+const loadPersistedData = async (store: RecordStore): Promise<PersistedData> => {
+  const data = {} as PersistedData
+  for (const collection of COLLECTIONS) {
+    data[collection] = await store.getAll(collection) as unknown as Record<string, unknown>[]
+  }
+  return data
+}
+
+// Bring the store up to SCHEMA_VERSION, then move every invalid record into quarantine
+export const runMigrations = async (store: RecordStore) => {
+  const storedVersion = await store.getSchemaVersion()
+  if (storedVersion > SCHEMA_VERSION) {
+    console.warn(`Stored data uses schema v${storedVersion}, newer than this app (v${SCHEMA_VERSION}). Skipping migrations.`)
+    return
+  }
+
+  const pending = MIGRATIONS.filter(migration => migration.version > storedVersion)
+  const { data, quarantined } = separateInvalidRecords(migrateData(await loadPersistedData(store), storedVersion))
+
+  if (quarantined.length > 0) {
+    console.warn(`Quarantined ${quarantined.length} invalid record(s)`, quarantined)
+    await store.quarantine(quarantined)
+  }
+
+  // Only rewrite collections when something actually changed
+  if (pending.length > 0 || quarantined.length > 0) {
+    for (const collection of COLLECTIONS) {
+      await store.replaceAll(collection, data[collection] as unknown as CollectionRecords[Collection][])
+    }
+  }
+
+  if (storedVersion !== SCHEMA_VERSION) {
+    await store.setSchemaVersion(SCHEMA_VERSION)
+  }
+}
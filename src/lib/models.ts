@@ -0,0 +1,775 @@
+// Shared domain model for SwiftAttend, independent of where the data is stored
+// walk_in: registered and checked in at the door by staff
+export type CheckInMethod = 'qr_scan' | 'backup_code' | 'walk_in'
+
+// Drafts are only visible to admins and archived events are hidden from participants.
+// Cancelled events stay listed so registered participants can see what happened.
+export type EventStatus = 'draft' | 'published' | 'registration_closed' | 'archived' | 'cancelled'
+
+// Statuses an admin can move an event between; cancelling is a separate, final action
+export type PublicationStatus = Exclude<EventStatus, 'cancelled'>
+
+// Punctuality of a check-in relative to the start of its session
+export type ArrivalStatus = 'on_time' | 'late' | 'very_late'
+
+// Registrations beyond max_capacity wait in line, ordered by created_at
+export type RegistrationStatus = 'confirmed' | 'waitlisted'
+
+export type QuestionType = 'text' | 'select' | 'checkbox' | 'number'
+
+// An extra question participants answer when registering, e.g. T-shirt size
+export interface RegistrationQuestion {
+  id: string
+  label: string
+  type: QuestionType
+  required: boolean
+  // Choices for select questions
+  options?: string[]
+}
+
+// Answers are keyed by question id and typed by question type
+export type RegistrationAnswer = string | number | boolean
+export type RegistrationAnswers = Record<string, RegistrationAnswer>
+
+// One time slot of an event; attendance is taken per session
+export interface EventSession {
+  id: string
+  name: string
+  session_date: string
+  start_time: string
+  end_time: string
+}
+
+export interface Event {
+  id: string
+  name: string
+  description?: string
+  event_date: string
+  start_time: string
+  end_time: string
+  location: string
+  // Multi-session events list every slot here, and event_date/start_time/end_time
+  // mirror the first one. Without sessions the event is a single implicit session.
+  sessions?: EventSession[]
+  questions?: RegistrationQuestion[]
+  max_capacity?: number
+  // Participants can cancel or transfer until this many hours before start_time
+  cancellation_cutoff_hours?: number
+  // Attendees who check out of a session sooner than this count as partial attendance
+  min_attendance_minutes?: number
+  // Check-ins up to late_grace_minutes after the session start are on time, and
+  // more than very_late_after_minutes after it very late
+  late_grace_minutes?: number
+  very_late_after_minutes?: number
+  // Optional registration window on top of the status
+  registration_opens_at?: string
+  registration_closes_at?: string
+  // Set for team events: participants register by creating or joining a team,
+  // and each team chooses its own size limit within these bounds
+  min_team_size?: number
+  max_team_size?: number
+  // Saved the first time certificates are issued and reused afterwards
+  certificate_template?: CertificateTemplate
+  poster_url?: string
+  status: EventStatus
+  created_by: string
+  created_at: string
+  updated_at?: string
+  // Details changed by the most recent update, shown to registered participants
+  changed_fields?: EventDetailField[]
+  cancelled_at?: string
+  cancellation_reason?: string
+}
+
+export interface Registration {
+  id: string
+  event_id: string
+  user_id: string
+  user_name: string
+  user_email: string
+  status: RegistrationStatus
+  answers?: RegistrationAnswers
+  team_id?: string
+  student_id?: string
+  // Registered at the door by staff rather than in advance
+  walk_in?: boolean
+  // Issued when the registration is confirmed, so waitlisted registrations have none.
+  // qr_code_data is a ticket signed with the event's SigningKey.
+  qr_code_data?: string
+  backup_code?: string
+  created_at: string
+  promoted_at?: string
+  // Set when the original registrant handed the spot to someone else
+  transferred_from?: string
+  transferred_at?: string
+}
+
+// A group that registers together for a team event. Members still get their own
+// registration, QR code and backup code.
+export interface Team {
+  id: string
+  event_id: string
+  name: string
+  // Shared by the leader so other participants can join
+  invite_code: string
+  leader_id: string
+  max_size: number
+  created_at: string
+}
+
+// Wording printed on an event's participation certificates. {name}, {event} and
+// {date} in the body are filled in for each attendee.
+export interface CertificateTemplate {
+  title: string
+  body: string
+  signatory_name: string
+  signatory_title: string
+}
+
+// Proof of participation for a registration with at least one check-in
+export interface Certificate {
+  id: string
+  event_id: string
+  registration_id: string
+  user_id: string
+  // Name at the time of issue, so later edits don't change issued certificates
+  recipient_name: string
+  // Printed on the certificate and looked up by the public verification page
+  verification_code: string
+  issued_at: string
+}
+
+// Per-event secret that signs the event's QR tickets (see lib/tickets). Only staff can read it.
+export interface SigningKey {
+  id: string
+  event_id: string
+  secret: string
+  created_at: string
+}
+
+// What the public verification page shows for a valid code
+export interface CertificateVerification {
+  recipient_name: string
+  event_name: string
+  event_date: string
+  issued_at: string
+}
+
+export interface Attendance {
+  id: string
+  registration_id: string
+  event_id: string
+  user_id: string
+  session_id: string
+  checked_in_at: string
+  check_in_method: CheckInMethod
+  staff_id: string
+  staff_name?: string
+  checked_out_at?: string
+  check_out_staff_id?: string
+  check_out_staff_name?: string
+}
+
+// Outcome of a check-in attempt. When the attendee was already checked in,
+// success is false and attendance is the existing record.
+export interface CheckInResult {
+  success: boolean
+  attendance: Attendance
+}
+
+// Attendee details staff collect at the door
+export interface WalkInDetails {
+  email: string
+  name: string
+  studentId?: string
+}
+
+export interface WalkInResult {
+  registration: Registration
+  attendance: Attendance
+}
+
+// Outcome of a check-out attempt. When the attendee had already checked out,
+// success is false and attendance is the unchanged record.
+export interface CheckOutResult {
+  success: boolean
+  attendance: Attendance
+}
+
+export interface SupportMessage {
+  id: string
+  event_id: string
+  user_id: string
+  user_name: string
+  user_email: string
+  message: string
+  status: 'open' | 'resolved'
+  created_at: string
+  resolved_at?: string
+  resolved_by?: string
+}
+
+export interface SessionStats {
+  sessionId: string
+  name: string
+  totalAttendances: number
+  attendanceRate: number
+  totalCheckedOut: number
+  partialAttendances: number
+}
+
+// totalRegistrations counts confirmed registrations only; totalAttendances counts
+// registrations that attended at least one session, partialAttendances those that
+// left at least one session early
+export interface EventStats {
+  totalRegistrations: number
+  totalWaitlisted: number
+  totalAttendances: number
+  attendanceRate: number
+  partialAttendances: number
+  totalWalkIns: number
+  sessions: SessionStats[]
+}
+
+export type NewEvent = Pick<Event, 'name' | 'description' | 'event_date' | 'start_time' | 'end_time' | 'location' | 'sessions' | 'questions' | 'max_capacity' | 'cancellation_cutoff_hours' | 'min_attendance_minutes' | 'late_grace_minutes' | 'very_late_after_minutes' | 'registration_opens_at' | 'registration_closes_at' | 'min_team_size' | 'max_team_size' | 'created_by'>
+  // New events are drafts unless created as published
+  & Partial<Pick<Event, 'status'>>
+
+// Event details an admin can edit after creation
+export type EventDetailField = Exclude<keyof NewEvent, 'created_by' | 'status'>
+
+export type EventUpdate = Partial<Pick<Event, EventDetailField>>
+
+export const EVENT_DETAIL_LABELS: Record<EventDetailField, string> = {
+  name: 'name',
+  description: 'description',
+  event_date: 'date',
+  start_time: 'start time',
+  end_time: 'end time',
+  location: 'location',
+  sessions: 'sessions',
+  questions: 'registration questions',
+  max_capacity: 'capacity',
+  cancellation_cutoff_hours: 'cancellation deadline',
+  min_attendance_minutes: 'minimum attendance time',
+  late_grace_minutes: 'late arrival grace period',
+  very_late_after_minutes: 'very late threshold',
+  registration_opens_at: 'registration opening',
+  registration_closes_at: 'registration deadline',
+  min_team_size: 'minimum team size',
+  max_team_size: 'maximum team size'
+}
+
+export const EVENT_STATUS_LABELS: Record<EventStatus, string> = {
+  draft: 'Draft',
+  published: 'Published',
+  registration_closed: 'Registration closed',
+  archived: 'Archived',
+  cancelled: 'Cancelled'
+}
+
+// Whether participants can see the event at all
+export const isEventListed = (event: Event) => event.status !== 'draft' && event.status !== 'archived'
+
+// Why new registrations are refused right now, or null while registration is open
+export const getRegistrationBlocker = (event: Event, now = new Date()): string | null => {
+  switch (event.status) {
+    case 'cancelled':
+      return 'This event has been cancelled'
+    case 'draft':
+      return 'This event has not been published yet'
+    case 'archived':
+      return 'This event has been archived'
+    case 'registration_closed':
+      return 'Registration for this event is closed'
+  }
+  if (event.registration_opens_at && now < new Date(event.registration_opens_at)) {
+    return 'Registration has not opened yet'
+  }
+  if (event.registration_closes_at && now >= new Date(event.registration_closes_at)) {
+    return 'Registration for this event is closed'
+  }
+  return null
+}
+
+// Why staff may not register walk-ins right now, or null when they may.
+// Walk-ins ignore the registration window and closed registration, since the attendee is at the door.
+export const getWalkInBlocker = (event: Event): string | null => {
+  switch (event.status) {
+    case 'cancelled':
+      return 'This event has been cancelled'
+    case 'draft':
+      return 'This event has not been published yet'
+    case 'archived':
+      return 'This event has been archived'
+  }
+  return null
+}
+
+// Which details an update actually changes; empty strings and undefined count as the same
+export const getChangedFields = (event: Event, updates: EventUpdate): EventDetailField[] => {
+  return (Object.keys(EVENT_DETAIL_LABELS) as EventDetailField[]).filter(
+    field => field in updates && JSON.stringify(updates[field] || null) !== JSON.stringify(event[field] || null)
+  )
+}
+
+// Id of the implicit session of an event without explicit sessions
+export const DEFAULT_SESSION_ID = 'main'
+
+export const createSessionId = () => `session_${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 6)}`
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  text: 'Text',
+  select: 'Dropdown',
+  checkbox: 'Checkbox',
+  number: 'Number'
+}
+
+export const createQuestionId = () => `question_${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 6)}`
+
+// Check answers against the event's questions. Returns only answers to known questions,
+// converted to their question's type, and throws on the first invalid or missing one.
+export const validateAnswers = (event: Event, answers: RegistrationAnswers = {}): RegistrationAnswers => {
+  const valid: RegistrationAnswers = {}
+  for (const question of event.questions ?? []) {
+    const answer = answers[question.id]
+    // Whitespace alone doesn't answer a text question (and would read as 0 for a number)
+    const isEmpty = answer === undefined || answer === null || answer === false || (typeof answer === 'string' && answer.trim() === '')
+    if (isEmpty) {
+      if (question.required) {
+        throw new Error(`Please answer "${question.label}"`)
+      }
+      continue
+    }
+
+    switch (question.type) {
+      case 'number': {
+        const value = Number(answer)
+        if (Number.isNaN(value)) {
+          throw new Error(`"${question.label}" must be a number`)
+        }
+        valid[question.id] = value
+        break
+      }
+      case 'checkbox':
+        valid[question.id] = answer === true || answer === 'true'
+        break
+      case 'select':
+        if (!question.options?.includes(String(answer))) {
+          throw new Error(`Please choose one of the options for "${question.label}"`)
+        }
+        valid[question.id] = String(answer)
+        break
+      default:
+        valid[question.id] = String(answer).trim()
+    }
+  }
+  return valid
+}
+
+export const formatAnswer = (answer?: RegistrationAnswer) => {
+  if (answer === undefined) return ''
+  if (typeof answer === 'boolean') return answer ? 'Yes' : 'No'
+  return String(answer)
+}
+
+// The sessions attendance is taken for, in chronological order
+export const getEventSessions = (event: Event): EventSession[] => {
+  if (!event.sessions?.length) {
+    return [{
+      id: DEFAULT_SESSION_ID,
+      name: 'Main session',
+      session_date: event.event_date,
+      start_time: event.start_time,
+      end_time: event.end_time
+    }]
+  }
+  return [...event.sessions].sort((a, b) =>
+    `${a.session_date}T${a.start_time}`.localeCompare(`${b.session_date}T${b.start_time}`)
+  )
+}
+
+// The session staff most likely want to scan for: the first one that hasn't ended yet,
+// or the last session once the whole event is over
+export const getDefaultSession = (event: Event, now = new Date()): EventSession => {
+  const sessions = getEventSessions(event)
+  return sessions.find(session => new Date(`${session.session_date}T${session.end_time}`) >= now) ?? sessions[sessions.length - 1]
+}
+
+// Keep the event-level schedule in line with its first session
+export const withScheduleFromSessions = <T extends EventUpdate>(details: T): T => {
+  if (!details.sessions?.length) {
+    return details
+  }
+  const [first] = [...details.sessions].sort((a, b) =>
+    `${a.session_date}T${a.start_time}`.localeCompare(`${b.session_date}T${b.start_time}`)
+  )
+  return { ...details, event_date: first.session_date, start_time: first.start_time, end_time: first.end_time }
+}
+
+// Whole minutes between check-in and check-out, or null while the attendee is still on site
+export const getTimeOnSiteMinutes = (attendance: Attendance): number | null => {
+  if (!attendance.checked_out_at) {
+    return null
+  }
+  return Math.floor((new Date(attendance.checked_out_at).getTime() - new Date(attendance.checked_in_at).getTime()) / 60000)
+}
+
+// Attendees without a check-out are never flagged, since they may still be on site
+export const isPartialAttendance = (event: Event, attendance: Attendance) => {
+  const minutes = getTimeOnSiteMinutes(attendance)
+  return !!event.min_attendance_minutes && minutes !== null && minutes < event.min_attendance_minutes
+}
+
+export const DEFAULT_LATE_GRACE_MINUTES = 5
+export const DEFAULT_VERY_LATE_AFTER_MINUTES = 30
+
+export const ARRIVAL_STATUS_LABELS: Record<ArrivalStatus, string> = {
+  on_time: 'On time',
+  late: 'Late',
+  very_late: 'Very late'
+}
+
+export const CHECK_IN_METHOD_LABELS: Record<CheckInMethod, string> = {
+  qr_scan: 'QR scan',
+  backup_code: 'Backup code',
+  walk_in: 'Walk-in'
+}
+
+// Whole minutes between the session start and the check-in; negative for early arrivals
+export const getMinutesLate = (event: Event, attendance: Attendance) => {
+  const session = getEventSessions(event).find(session => session.id === attendance.session_id)
+  const start = session
+    ? new Date(`${session.session_date}T${session.start_time}`)
+    : getEventStart(event)
+  return Math.floor((new Date(attendance.checked_in_at).getTime() - start.getTime()) / 60000)
+}
+
+export const getArrivalStatus = (event: Event, attendance: Attendance): ArrivalStatus => {
+  const minutesLate = getMinutesLate(event, attendance)
+  if (minutesLate <= (event.late_grace_minutes ?? DEFAULT_LATE_GRACE_MINUTES)) {
+    return 'on_time'
+  }
+  return minutesLate > (event.very_late_after_minutes ?? DEFAULT_VERY_LATE_AFTER_MINUTES) ? 'very_late' : 'late'
+}
+
+export const formatDuration = (minutes: number) => {
+  const hours = Math.floor(minutes / 60)
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`
+}
+
+// Time left until a deadline, e.g. "2d 4h 10m" or "12m 30s" in the final hour
+export const formatCountdown = (milliseconds: number) => {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000))
+  const days = Math.floor(totalSeconds / 86400)
+  const hours = Math.floor((totalSeconds % 86400) / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  if (days > 0) {
+    return `${days}d ${hours}h ${minutes}m`
+  }
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m ${totalSeconds % 60}s`
+}
+
+// Per-session and whole-event attendance figures from raw records
+export const calculateEventStats = (event: Event, registrations: Registration[], attendances: Attendance[]): EventStats => {
+  const confirmed = registrations.filter(reg => reg.status === 'confirmed')
+  const rate = (count: number) => confirmed.length > 0 ? (count / confirmed.length) * 100 : 0
+  const attendedRegistrations = new Set(attendances.map(attendance => attendance.registration_id))
+  const partial = attendances.filter(attendance => isPartialAttendance(event, attendance))
+
+  return {
+    totalRegistrations: confirmed.length,
+    totalWaitlisted: registrations.length - confirmed.length,
+    totalAttendances: attendedRegistrations.size,
+    attendanceRate: rate(attendedRegistrations.size),
+    partialAttendances: new Set(partial.map(attendance => attendance.registration_id)).size,
+    totalWalkIns: confirmed.filter(reg => reg.walk_in).length,
+    sessions: getEventSessions(event).map(session => {
+      const sessionAttendances = attendances.filter(attendance => attendance.session_id === session.id)
+      return {
+        sessionId: session.id,
+        name: session.name,
+        totalAttendances: sessionAttendances.length,
+        attendanceRate: rate(sessionAttendances.length),
+        totalCheckedOut: sessionAttendances.filter(attendance => attendance.checked_out_at).length,
+        partialAttendances: partial.filter(attendance => attendance.session_id === session.id).length
+      }
+    })
+  }
+}
+
+export const isTeamEvent = (event: Event) => !!event.max_team_size
+
+// Why a team size limit is not allowed for this event, or null when it is
+export const getTeamSizeError = (event: Event, maxSize: number): string | null => {
+  const minimum = Math.max(event.min_team_size ?? 1, 1)
+  if (!Number.isInteger(maxSize) || maxSize < minimum || maxSize > (event.max_team_size ?? 0)) {
+    return `Team size must be between ${minimum} and ${event.max_team_size}`
+  }
+  return null
+}
+
+// Codes people read, type or say out loud leave out the look-alikes 0/O and 1/I
+export const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+
+// Codes come from the cryptographic random source so they cannot be predicted from earlier ones.
+// 256 is a multiple of the 32-character alphabet, so taking each byte modulo its length is unbiased.
+export const createRandomCode = (length: number) => {
+  const values = crypto.getRandomValues(new Uint8Array(length))
+  return Array.from(values, value => CODE_ALPHABET.charAt(value % CODE_ALPHABET.length)).join('')
+}
+
+const BACKUP_CODE_LENGTH = 8
+
+// Luhn mod N over CODE_ALPHABET: catches every single mistyped character and most swapped neighbours
+const backupCodeCheckCharacter = (payload: string) => {
+  let sum = 0
+  let factor = 2
+  for (let i = payload.length - 1; i >= 0; i--) {
+    const addend = factor * CODE_ALPHABET.indexOf(payload[i])
+    sum += Math.floor(addend / CODE_ALPHABET.length) + (addend % CODE_ALPHABET.length)
+    factor = factor === 2 ? 1 : 2
+  }
+  return CODE_ALPHABET.charAt((CODE_ALPHABET.length - (sum % CODE_ALPHABET.length)) % CODE_ALPHABET.length)
+}
+
+// Seven random characters and a check character, e.g. K7QM2XPL
+export const createBackupCode = () => {
+  const payload = createRandomCode(BACKUP_CODE_LENGTH - 1)
+  return payload + backupCodeCheckCharacter(payload)
+}
+
+// Staff may type codes in lower case or with spaces
+export const normalizeBackupCode = (backupCode: string) => backupCode.toUpperCase().replace(/[\s-]/g, '')
+
+// Lets the scanner reject typos before looking the code up
+export const getBackupCodeError = (backupCode: string): string | null => {
+  const code = normalizeBackupCode(backupCode)
+  if (code.length !== BACKUP_CODE_LENGTH) {
+    return `Backup codes are ${BACKUP_CODE_LENGTH} characters long`
+  }
+  if (/[01IO]/.test(code)) {
+    return 'Backup codes never contain 0, 1, I or O. Check the code and try again.'
+  }
+  if ([...code].some(character => !CODE_ALPHABET.includes(character))) {
+    return 'Backup codes only contain letters and digits'
+  }
+  if (backupCodeCheckCharacter(code.slice(0, -1)) !== code.slice(-1)) {
+    return 'This backup code has a typo. Check the code and try again.'
+  }
+  return null
+}
+
+export const isValidBackupCode = (backupCode: string) => getBackupCodeError(backupCode) === null
+
+// Invite codes avoid look-alike characters so they can be read out loud
+export const createInviteCode = () => createRandomCode(6)
+
+export const normalizeInviteCode = (inviteCode: string) => inviteCode.trim().toUpperCase()
+
+export const DEFAULT_CERTIFICATE_TEMPLATE: CertificateTemplate = {
+  title: 'Certificate of Participation',
+  body: 'This is to certify that {name} participated in {event} held on {date}.',
+  signatory_name: '',
+  signatory_title: 'Faculty Coordinator'
+}
+
+export const getCertificateTemplateError = (template: CertificateTemplate): string | null => {
+  if (!template.title.trim()) {
+    return 'Enter a certificate title'
+  }
+  if (!template.body.trim()) {
+    return 'Enter the certificate text'
+  }
+  return null
+}
+
+export const fillCertificateBody = (template: CertificateTemplate, event: Event, certificate: Certificate) => {
+  const date = new Date(event.event_date).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })
+  return template.body
+    .replace(/\{name\}/g, certificate.recipient_name)
+    .replace(/\{event\}/g, event.name)
+    .replace(/\{date\}/g, date)
+}
+
+// Three groups of four characters from CODE_ALPHABET, e.g. K7QM-2XPD-9HWA
+export const createVerificationCode = () => {
+  const code = createRandomCode(12)
+  return `${code.slice(0, 4)}-${code.slice(4, 8)}-${code.slice(8)}`
+}
+
+export const normalizeVerificationCode = (code: string) => {
+  const compact = code.toUpperCase().replace(/[^A-Z0-9]/g, '')
+  return compact.match(/.{1,4}/g)?.join('-') ?? ''
+}
+
+export interface TeamSummary {
+  team: Team
+  // Confirmed and waitlisted members, oldest registration first
+  members: Registration[]
+  leader?: Registration
+  checkedIn: number
+  // Fewer members than the event's minimum team size
+  belowMinimum: boolean
+}
+
+// Members and check-in counts per team, largest teams first
+export const summarizeTeams = (event: Event, teams: Team[], registrations: Registration[], attendances: Attendance[]): TeamSummary[] => {
+  const attended = new Set(attendances.map(attendance => attendance.registration_id))
+  return teams
+    .map(team => {
+      const members = registrations
+        .filter(registration => registration.team_id === team.id)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      return {
+        team,
+        members,
+        leader: members.find(member => member.user_id === team.leader_id),
+        checkedIn: members.filter(member => attended.has(member.id)).length,
+        belowMinimum: members.length < (event.min_team_size ?? 1)
+      }
+    })
+    .sort((a, b) => b.members.length - a.members.length || a.team.name.localeCompare(b.team.name))
+}
+
+export const DEFAULT_CANCELLATION_CUTOFF_HOURS = 24
+
+// Event dates and times are local to the venue
+export const getEventStart = (event: Pick<Event, 'event_date' | 'start_time'>) => {
+  return new Date(`${event.event_date}T${event.start_time}`)
+}
+
+export const getCancellationDeadline = (event: Event) => {
+  const cutoffHours = event.cancellation_cutoff_hours ?? DEFAULT_CANCELLATION_CUTOFF_HOURS
+  return new Date(getEventStart(event).getTime() - cutoffHours * 60 * 60 * 1000)
+}
+
+// Why a participant may not cancel or transfer this registration, or null when they may
+export const getSelfServiceBlocker = (event: Event, registration: Registration, userId: string, checkedIn: boolean): string | null => {
+  if (registration.user_id !== userId) {
+    return 'This registration belongs to another participant'
+  }
+  if (event.status === 'cancelled') {
+    return 'This event has been cancelled'
+  }
+  if (checkedIn) {
+    return 'You have already checked in'
+  }
+  const deadline = getCancellationDeadline(event)
+  if (new Date() > deadline) {
+    return `Changes were possible until ${deadline.toLocaleString()}`
+  }
+  return null
+}
+
+// Every record of every entity, as used by backup and restore
+export interface DataSnapshot {
+  events: Event[]
+  registrations: Registration[]
+  attendances: Attendance[]
+  support_messages: SupportMessage[]
+  teams: Team[]
+  certificates: Certificate[]
+  signing_keys: SigningKey[]
+}
+
+// replace: the snapshot becomes the whole dataset; merge: records are upserted by id, and the only
+// deletions are registrations displaced by the snapshot's (see getDisplacedRegistrations)
+export type RestoreMode = 'replace' | 'merge'
+
+// Current registrations that a merge replaces because the snapshot registers the same person for the
+// same event under another id. Removing them (with their attendance and certificates) keeps one
+// registration per person and event.
+export const getDisplacedRegistrations = (current: Registration[], incoming: Registration[]) => {
+  const incomingIds = new Set(incoming.map(registration => registration.id))
+  const incomingPeople = new Set(incoming
+    .filter(registration => registration.user_id)
+    .map(registration => `${registration.event_id}|${registration.user_id}`))
+  return current.filter(registration =>
+    registration.user_id &&
+    !incomingIds.has(registration.id) &&
+    incomingPeople.has(`${registration.event_id}|${registration.user_id}`)
+  )
+}
+
+// Every storage backend implements this interface so pages never depend on a specific backend
+export interface DataRepository {
+  // Prepare the backend before first use (e.g. run storage migrations)
+  initialize(): Promise<void>
+
+  // Events
+  createEvent(eventData: NewEvent, poster?: Blob | null): Promise<Event>
+  getEvents(): Promise<Event[]>
+  getEventById(eventId: string): Promise<Event | null>
+  // poster: a Blob replaces the current poster, null removes it, undefined keeps it
+  updateEvent(eventId: string, updates: EventUpdate, poster?: Blob | null): Promise<Event>
+  // Publish, close registration, archive or return to draft; cancelled events stay cancelled
+  setEventStatus(eventId: string, status: PublicationStatus): Promise<Event>
+  cancelEvent(eventId: string, reason?: string): Promise<Event>
+  // Also deletes the event's registrations, teams, attendance, certificates, support messages and signing key
+  deleteEvent(eventId: string): Promise<boolean>
+
+  // Registrations; a full event puts new registrations on the waitlist
+  // Answers are validated against the event's registration questions
+  registerForEvent(eventId: string, userId: string, userName: string, userEmail: string, answers?: RegistrationAnswers, studentId?: string): Promise<Registration>
+  getRegistrations(): Promise<Registration[]>
+  getEventRegistrations(eventId: string): Promise<Registration[]>
+  checkRegistrationStatus(eventId: string, userId: string): Promise<Registration | null>
+
+  // Teams; team events only accept registrations through these, and every member
+  // registration follows the same capacity and waitlist rules as registerForEvent
+  createTeam(eventId: string, teamName: string, maxSize: number, userId: string, userName: string, userEmail: string, answers?: RegistrationAnswers): Promise<{ team: Team; registration: Registration }>
+  joinTeam(eventId: string, inviteCode: string, userId: string, userName: string, userEmail: string, answers?: RegistrationAnswers): Promise<Registration>
+  getTeams(): Promise<Team[]>
+  getEventTeams(eventId: string): Promise<Team[]>
+  getTeam(teamId: string): Promise<Team | null>
+  // Frees a spot, which promotes the first waitlisted registration.
+  // A team whose leader leaves passes to its longest-standing member; an empty team is removed.
+  // Any certificate issued for the registration is revoked.
+  deleteRegistration(registrationId: string): Promise<boolean>
+  // 1-based position on the waitlist, or null when the registration is not waitlisted
+  getWaitlistPosition(registrationId: string): Promise<number | null>
+  // Participant self-service, allowed until the event's cancellation deadline
+  cancelRegistration(registrationId: string, userId: string): Promise<void>
+  // Hands the spot to another participant with fresh QR and backup codes
+  transferRegistration(registrationId: string, userId: string, toEmail: string, toName: string): Promise<Registration>
+  findRegistrationByQR(qrData: string): Promise<Registration | null>
+  findRegistrationByBackupCode(backupCode: string): Promise<Registration | null>
+
+  // Attendance, recorded once per registration and session
+  checkInAttendee(registrationId: string, sessionId: string, method: CheckInMethod, staffId: string, staffName: string): Promise<CheckInResult>
+  // Registers someone at the door and checks them in for the session in one step.
+  // Walk-ins skip registration questions and teams, and are refused rather than waitlisted when the event is full.
+  registerWalkIn(eventId: string, sessionId: string, details: WalkInDetails, staffId: string, staffName: string): Promise<WalkInResult>
+  // Throws when the attendee never checked in for the session
+  checkOutAttendee(registrationId: string, sessionId: string, staffId: string, staffName: string): Promise<CheckOutResult>
+  getAttendances(): Promise<Attendance[]>
+  getEventAttendances(eventId: string): Promise<Attendance[]>
+  // Without a sessionId: checked in for any session
+  isAttendeeCheckedIn(registrationId: string, sessionId?: string): Promise<boolean>
+  getEventStats(eventId: string): Promise<EventStats>
+
+  // Certificates; issuing saves the template on the event and creates a certificate for
+  // every registration with a check-in that doesn't have one yet, then returns them all
+  issueCertificates(eventId: string, template: CertificateTemplate): Promise<Certificate[]>
+  getCertificates(): Promise<Certificate[]>
+  getEventCertificates(eventId: string): Promise<Certificate[]>
+  // Public lookup that needs no login; null when the code matches no certificate
+  verifyCertificate(code: string): Promise<CertificateVerification | null>
+
+  // Ticket signing secrets, for staff; scanners load an event's secret once and then verify tickets offline
+  getEventSigningKey(eventId: string): Promise<string>
+  getSigningKeys(): Promise<SigningKey[]>
+
+  // Support messages
+  createSupportMessage(eventId: string, userId: string, userName: string, userEmail: string, message: string): Promise<SupportMessage>
+  getSupportMessages(): Promise<SupportMessage[]>
+  getEventSupportMessages(eventId: string): Promise<SupportMessage[]>
+  resolveSupportMessage(messageId: string, resolvedBy: string): Promise<boolean>
+
+  // Backup restore; posters are keyed by event id
+  restoreSnapshot(snapshot: DataSnapshot, posters: Record<string, Blob>, mode: RestoreMode): Promise<void>
+
+  // Clear all data (for development/testing)
+  clearAllData(): Promise<void>
+}
@@ -0,0 +1,287 @@
+// Minimal PDF writer for reports and certificates. It only uses the built-in Helvetica
+// fonts and JPEG images, so documents are generated entirely offline.
+import QRCode from 'qrcode'
+
+export type PdfFont = 'regular' | 'bold'
+
+// RGB components between 0 and 1
+export type PdfColor = [number, number, number]
+
+export interface PdfTextOptions {
+  size?: number
+  font?: PdfFont
+  color?: PdfColor
+  align?: 'left' | 'center' | 'right'
+}
+
+// JPEG data with its pixel size
+export interface PdfImage {
+  data: Uint8Array
+  width: number
+  height: number
+}
+
+// Page sizes in points
+export const A4_PORTRAIT = { width: 595.28, height: 841.89 }
+export const A4_LANDSCAPE = { width: 841.89, height: 595.28 }
+
+export const BLACK: PdfColor = [0, 0, 0]
+
+const FONT_NAMES: Record<PdfFont, string> = {
+  regular: 'F1',
+  bold: 'F2'
+}
+
+// Advance widths of ASCII 32-126 in 1/1000 em, from the standard Helvetica metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+]
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+]
+
+// Characters outside Latin-1 that the WinAnsi encoding still has
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97
+}
+
+// Anything the standard fonts can't show is replaced with a question mark
+const encodeText = (text: string) => Array.from(text).map(char => {
+  const code = char.codePointAt(0) ?? 0x3F
+  if (WIN_ANSI_EXTRAS[char]) return WIN_ANSI_EXTRAS[char]
+  return (code >= 0x20 && code < 0x7F) || (code >= 0xA0 && code <= 0xFF) ? code : 0x3F
+})
+
+const toHex = (bytes: number[]) => bytes.map(byte => byte.toString(16).padStart(2, '0')).join('').toUpperCase()
+
+const num = (value: number) => Number(value.toFixed(2)).toString()
+
+const colorOperands = ([r, g, b]: PdfColor) => `${num(r)} ${num(g)} ${num(b)}`
+
+export const textWidth = (text: string, size: number, font: PdfFont = 'regular') => {
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS
+  const units = encodeText(text).reduce((total, code) => total + (widths[code - 32] ?? 556), 0)
+  return units * size / 1000
+}
+
+// Shortens text with an ellipsis so it fits in maxWidth
+export const truncateText = (text: string, maxWidth: number, size: number, font: PdfFont = 'regular') => {
+  if (textWidth(text, size, font) <= maxWidth) {
+    return text
+  }
+  let truncated = text
+  while (truncated && textWidth(`${truncated}…`, size, font) > maxWidth) {
+    truncated = truncated.slice(0, -1)
+  }
+  return `${truncated.trimEnd()}…`
+}
+
+// Splits text into lines no wider than maxWidth, breaking between words
+export const wrapText = (text: string, maxWidth: number, size: number, font: PdfFont = 'regular') => {
+  const lines: string[] = []
+  let line = ''
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word
+    if (line && textWidth(candidate, size, font) > maxWidth) {
+      lines.push(line)
+      line = word
+    } else {
+      line = candidate
+    }
+  }
+  if (line) lines.push(line)
+  return lines
+}
+
+// Builds a document page by page. Coordinates are in points from the top-left corner
+// of the page, and text is positioned by its baseline.
+export const createPdf = (pageSize = A4_PORTRAIT) => {
+  const pages: string[][] = []
+  const images: PdfImage[] = []
+  let current: string[] = []
+
+  const y = (top: number) => pageSize.height - top
+
+  const addPage = () => {
+    current = []
+    pages.push(current)
+  }
+
+  const setPage = (index: number) => {
+    current = pages[index]
+  }
+
+  const text = (value: string, x: number, top: number, options: PdfTextOptions = {}) => {
+    const { size = 11, font = 'regular', color = BLACK, align = 'left' } = options
+    const width = textWidth(value, size, font)
+    const left = align === 'center' ? x - width / 2 : align === 'right' ? x - width : x
+    current.push(`BT /${FONT_NAMES[font]} ${num(size)} Tf ${colorOperands(color)} rg ${num(left)} ${num(y(top))} Td <${toHex(encodeText(value))}> Tj ET`)
+  }
+
+  const line = (x1: number, top1: number, x2: number, top2: number, color: PdfColor = BLACK, lineWidth = 0.75) => {
+    current.push(`${colorOperands(color)} RG ${num(lineWidth)} w ${num(x1)} ${num(y(top1))} m ${num(x2)} ${num(y(top2))} l S`)
+  }
+
+  // Filled when fill is given, otherwise outlined
+  const rect = (x: number, top: number, width: number, height: number, options: { fill?: PdfColor; stroke?: PdfColor; lineWidth?: number } = {}) => {
+    const path = `${num(x)} ${num(y(top + height))} ${num(width)} ${num(height)} re`
+    if (options.fill) {
+      current.push(`${colorOperands(options.fill)} rg ${path} f`)
+    }
+    if (options.stroke || !options.fill) {
+      current.push(`${colorOperands(options.stroke ?? BLACK)} RG ${num(options.lineWidth ?? 0.75)} w ${path} S`)
+    }
+  }
+
+  const image = (img: PdfImage, x: number, top: number, width: number, height: number) => {
+    let index = images.indexOf(img)
+    if (index === -1) {
+      index = images.push(img) - 1
+    }
+    current.push(`q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(y(top + height))} cm /Im${index} Do Q`)
+  }
+
+  // Drawn as vector squares; leave a white margin around it as the quiet zone
+  const qrCode = (value: string, x: number, top: number, size: number) => {
+    const { modules } = QRCode.create(value, { errorCorrectionLevel: 'M' })
+    const cell = size / modules.size
+    for (let row = 0; row < modules.size; row++) {
+      // One rectangle per horizontal run of dark modules
+      let runStart = -1
+      for (let column = 0; column <= modules.size; column++) {
+        const dark = column < modules.size && !!modules.get(row, column)
+        if (dark && runStart === -1) {
+          runStart = column
+        } else if (!dark && runStart !== -1) {
+          rect(x + runStart * cell, top + row * cell, (column - runStart) * cell, cell, { fill: BLACK })
+          runStart = -1
+        }
+      }
+    }
+  }
+
+  const toBlob = (title: string) => {
+    const encoder = new TextEncoder()
+    const parts: Uint8Array[] = []
+    const offsets: number[] = []
+    let length = 0
+
+    const write = (chunk: string | Uint8Array) => {
+      const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk
+      parts.push(bytes)
+      length += bytes.length
+    }
+
+    // Objects are numbered: catalog, page tree, info, two fonts, images, then a page and its content per page
+    const firstImage = 6
+    const firstPage = firstImage + images.length
+    const objectCount = firstPage + pages.length * 2 - 1
+
+    const startObject = (id: number) => {
+      offsets[id] = length
+      write(`${id} 0 obj\n`)
+    }
+
+    write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n')
+
+    startObject(1)
+    write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n')
+
+    startObject(2)
+    const kids = pages.map((_, index) => `${firstPage + index * 2} 0 R`).join(' ')
+    write(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>\nendobj\n`)
+
+    startObject(3)
+    write(`<< /Title <${toHex(encodeText(title))}> /Producer (SwiftAttend) >>\nendobj\n`)
+
+    startObject(4)
+    write('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>\nendobj\n')
+
+    startObject(5)
+    write('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>\nendobj\n')
+
+    images.forEach((img, index) => {
+      startObject(firstImage + index)
+      write(`<< /Type /XObject /Subtype /Image /Width ${img.width} /Height ${img.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${img.data.length} >>\nstream\n`)
+      write(img.data)
+      write('\nendstream\nendobj\n')
+    })
+
+    const xObjects = images.map((_, index) => `/Im${index} ${firstImage + index} 0 R`).join(' ')
+    const resources = `<< /Font << /F1 4 0 R /F2 5 0 R >> /XObject << ${xObjects} >> >>`
+
+    pages.forEach((operations, index) => {
+      const pageId = firstPage + index * 2
+      const content = encoder.encode(operations.join('\n'))
+
+      startObject(pageId)
+      write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(pageSize.width)} ${num(pageSize.height)}] /Resources ${resources} /Contents ${pageId + 1} 0 R >>\nendobj\n`)
+
+      startObject(pageId + 1)
+      write(`<< /Length ${content.length} >>\nstream\n`)
+      write(content)
+      write('\nendstream\nendobj\n')
+    })
+
+    const xrefOffset = length
+    write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`)
+    for (let id = 1; id <= objectCount; id++) {
+      write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`)
+    }
+    write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`)
+
+    return new Blob(parts as BlobPart[], { type: 'application/pdf' })
+  }
+
+  addPage()
+
+  return {
+    width: pageSize.width,
+    height: pageSize.height,
+    addPage,
+    setPage,
+    pageCount: () => pages.length,
+    text,
+    line,
+    rect,
+    image,
+    qrCode,
+    toBlob
+  }
+}
+
+// Re-encodes any browser-readable image as a JPEG no larger than maxWidth x maxHeight
+export const imageToJpeg = async (blob: Blob, maxWidth: number, maxHeight: number): Promise<PdfImage> => {
+  const bitmap = await createImageBitmap(blob)
+  const scale = Math.min(1, maxWidth / bitmap.width, maxHeight / bitmap.height)
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale))
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale))
+
+  const context = canvas.getContext('2d')
+  if (!context) {
+    throw new Error('Canvas is not available')
+  }
+  // JPEG has no transparency, so transparent areas would otherwise turn black
+  context.fillStyle = '#ffffff'
+  context.fillRect(0, 0, canvas.width, canvas.height)
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  bitmap.close()
+
+  const jpeg = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.85))
+  if (!jpeg) {
+    throw new Error('Failed to encode image')
+  }
+  return { data: new Uint8Array(await jpeg.arrayBuffer()), width: canvas.width, height: canvas.height }
+}
@@ -0,0 +1,60 @@
+// QR codes as SVG path data, shared by the on-screen ticket and the SVG and PNG downloads,
+// and decoding of QR codes from photos and screenshots for the scanner
+import QRCode from 'qrcode'
+import jsQR from 'jsqr'
+
+// One unit per module, so callers scale it through the viewBox. The quiet zone is up to the caller.
+export const qrCodePath = (value: string) => {
+  const { modules } = QRCode.create(value, { errorCorrectionLevel: 'M' })
+  const runs: string[] = []
+  for (let row = 0; row < modules.size; row++) {
+    // One rectangle per horizontal run of dark modules keeps the path short
+    let runStart = -1
+    for (let column = 0; column <= modules.size; column++) {
+      const dark = column < modules.size && !!modules.get(row, column)
+      if (dark && runStart === -1) {
+        runStart = column
+      } else if (!dark && runStart !== -1) {
+        runs.push(`M${runStart} ${row}h${column - runStart}v1h${runStart - column}z`)
+        runStart = -1
+      }
+    }
+  }
+  return { size: modules.size, path: runs.join('') }
+}
+
+// Phone photos are far larger than a QR code needs, and decoding them at full size is slow
+const MAX_DECODE_SIZE = 1600
+
+const loadImage = (file: File): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file)
+    const image = new Image()
+    image.onload = () => {
+      URL.revokeObjectURL(url)
+      resolve(image)
+    }
+    image.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error('This file could not be opened as an image'))
+    }
+    image.src = url
+  })
+}
+
+// Decodes entirely in the browser; null when the image has no readable QR code
+export const decodeQRCodeImage = async (file: File): Promise<string | null> => {
+  const image = await loadImage(file)
+  const scale = Math.min(1, MAX_DECODE_SIZE / Math.max(image.naturalWidth, image.naturalHeight))
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale))
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale))
+  const context = canvas.getContext('2d', { willReadFrequently: true })
+  if (!context) {
+    throw new Error('This browser cannot read images')
+  }
+  context.drawImage(image, 0, 0, canvas.width, canvas.height)
+  const { data, width, height } = context.getImageData(0, 0, canvas.width, canvas.height)
+  // Dark-mode screenshots show the code light on dark
+  return jsQR(data, width, height, { inversionAttempts: 'attemptBoth' })?.data || null
+}
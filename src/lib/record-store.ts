@@ -0,0 +1,196 @@
+// Low-level record storage used by the browser-side repositories (localStorage and IndexedDB)
+import { Event, Registration, Attendance, SupportMessage, Team, Certificate, SigningKey } from '@/lib/models'
+import { withLock } from '@/lib/locks'
+
+export interface CollectionRecords {
+  events: Event
+  registrations: Registration
+  attendances: Attendance
+  support_messages: SupportMessage
+  teams: Team
+  certificates: Certificate
+  signing_keys: SigningKey
+}
+
+export type Collection = keyof CollectionRecords
+
+export const COLLECTIONS: Collection[] = ['events', 'registrations', 'attendances', 'support_messages', 'teams', 'certificates', 'signing_keys']
+
+// A record (or a whole unparseable collection) set aside so it can't break the app
+export interface QuarantinedRecord {
+  collection: Collection
+  reason: string
+  data: unknown
+  quarantined_at: string
+}
+
+export interface RecordStore {
+  getAll<K extends Collection>(collection: K): Promise<CollectionRecords[K][]>
+  get<K extends Collection>(collection: K, id: string): Promise<CollectionRecords[K] | null>
+  findBy<K extends Collection>(collection: K, field: keyof CollectionRecords[K] & string, value: string): Promise<CollectionRecords[K][]>
+  put<K extends Collection>(collection: K, record: CollectionRecords[K]): Promise<void>
+  remove<K extends Collection>(collection: K, id: string): Promise<void>
+  replaceAll<K extends Collection>(collection: K, records: CollectionRecords[K][]): Promise<void>
+  clear(): Promise<void>
+
+  // Schema versioning and quarantine, used by the migration runner
+  getSchemaVersion(): Promise<number>
+  setSchemaVersion(version: number): Promise<void>
+  quarantine(records: QuarantinedRecord[]): Promise<void>
+  getQuarantine(): Promise<QuarantinedRecord[]>
+
+  // Posters: savePoster returns the value to keep in Event.poster_url,
+  // resolvePosterUrl turns that value back into something an <img> can display
+  savePoster(eventId: string, poster: Blob): Promise<string>
+  resolvePosterUrl(posterUrl: string): Promise<string>
+  removePoster(posterUrl: string): Promise<void>
+}
+
+// localStorage keeps every collection as one JSON array under a swiftattend_* key
+export const storageKey = (collection: Collection) => `swiftattend_${collection}`
+
+const SCHEMA_VERSION_KEY = 'swiftattend_schema_version'
+const QUARANTINE_KEY = 'swiftattend_quarantine'
+
+const setItem = (key: string, value: string) => {
+  try {
+    localStorage.setItem(key, value)
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'QuotaExceededError') {
+      throw new Error('Browser storage is full. Remove old events or posters and try again.')
+    }
+    throw err
+  }
+}
+
+const readQuarantine = (): QuarantinedRecord[] => {
+  try {
+    return JSON.parse(localStorage.getItem(QUARANTINE_KEY) || '[]')
+  } catch {
+    return []
+  }
+}
+
+const appendQuarantine = (records: QuarantinedRecord[]) => {
+  setItem(QUARANTINE_KEY, JSON.stringify([...readQuarantine(), ...records]))
+}
+
+// Parse a collection, moving anything that isn't a JSON array into quarantine
+// so one bad write can't make every later read throw
+export const parseCollection = (collection: Collection, itemsStr: string | null): { items: unknown[]; rejected?: QuarantinedRecord } => {
+  if (!itemsStr) {
+    return { items: [] }
+  }
+  try {
+    const parsed = JSON.parse(itemsStr)
+    if (Array.isArray(parsed)) {
+      return { items: parsed }
+    }
+    return { items: [], rejected: { collection, reason: 'Stored value is not an array', data: parsed, quarantined_at: new Date().toISOString() } }
+  } catch {
+    return { items: [], rejected: { collection, reason: 'Stored value is not valid JSON', data: itemsStr, quarantined_at: new Date().toISOString() } }
+  }
+}
+
+const readCollection = <K extends Collection>(collection: K): CollectionRecords[K][] => {
+  const { items, rejected } = parseCollection(collection, localStorage.getItem(storageKey(collection)))
+  if (rejected) {
+    console.error(`Quarantined unreadable ${storageKey(collection)}:`, rejected.reason)
+    appendQuarantine([rejected])
+    localStorage.removeItem(storageKey(collection))
+  }
+  return items as CollectionRecords[K][]
+}
+
+const writeCollection = <K extends Collection>(collection: K, items: CollectionRecords[K][]) => {
+  setItem(storageKey(collection), JSON.stringify(items))
+}
+
+// Every write rewrites the whole array, so read-modify-write must hold a per-collection
+// lock or two tabs writing at once would drop each other's records
+const withCollectionLock = <T>(collection: Collection, callback: () => Promise<T>) => {
+  return withLock(`${storageKey(collection)}_write`, callback)
+}
+
+// Posters are kept inline as base64 data URLs
+const readFileAsDataUrl = (file: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+}
+
+export const localStorageStore: RecordStore = {
+  async getAll(collection) {
+    return readCollection(collection)
+  },
+
+  async get(collection, id) {
+    return readCollection(collection).find(record => record.id === id) || null
+  },
+
+  async findBy(collection, field, value) {
+    return readCollection(collection).filter(record => record[field] === value)
+  },
+
+  async put(collection, record) {
+    await withCollectionLock(collection, async () => {
+      const items = readCollection(collection)
+      const index = items.findIndex(item => item.id === record.id)
+      if (index === -1) {
+        items.push(record)
+      } else {
+        items[index] = record
+      }
+      writeCollection(collection, items)
+    })
+  },
+
+  async remove(collection, id) {
+    await withCollectionLock(collection, async () => {
+      writeCollection(collection, readCollection(collection).filter(record => record.id !== id))
+    })
+  },
+
+  async replaceAll(collection, records) {
+    await withCollectionLock(collection, async () => {
+      writeCollection(collection, records)
+    })
+  },
+
+  async clear() {
+    for (const collection of COLLECTIONS) {
+      localStorage.removeItem(storageKey(collection))
+    }
+  },
+
+  async getSchemaVersion() {
+    return Number(localStorage.getItem(SCHEMA_VERSION_KEY)) || 0
+  },
+
+  async setSchemaVersion(version) {
+    setItem(SCHEMA_VERSION_KEY, String(version))
+  },
+
+  async quarantine(records) {
+    appendQuarantine(records)
+  },
+
+  async getQuarantine() {
+    return readQuarantine()
+  },
+
+  async savePoster(_eventId, poster) {
+    return readFileAsDataUrl(poster)
+  },
+
+  async resolvePosterUrl(posterUrl) {
+    return posterUrl
+  },
+
+  async removePoster() {
+    // Inline posters go away with the event record
+  }
+}
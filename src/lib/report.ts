@@ -0,0 +1,230 @@
+// Printable per-event attendance report that faculty coordinators sign and submit
+import { Event, Registration, Attendance, EventStats, getEventSessions } from '@/lib/models'
+import { repository } from '@/lib/repository'
+import { PdfColor, PdfImage, createPdf, imageToJpeg, truncateText, wrapText } from '@/lib/pdf'
+import { eventFileSlug } from '@/lib/export'
+
+const MARGIN = 40
+const FOOTER_TOP = 810
+const ROW_HEIGHT = 18
+
+const GRAY: PdfColor = [0.4, 0.4, 0.4]
+const LIGHT_GRAY: PdfColor = [0.93, 0.93, 0.93]
+const ACCENT: PdfColor = [0.86, 0.15, 0.47]
+const PRESENT: PdfColor = [0.08, 0.5, 0.2]
+const ABSENT: PdfColor = [0.75, 0.1, 0.1]
+
+const SIGNATORIES = ['Faculty Coordinator', 'Event Organiser', 'Head of Department']
+
+type Pdf = ReturnType<typeof createPdf>
+
+const TABLE_COLUMNS = [
+  { label: '#', width: 25 },
+  { label: 'Name', width: 140 },
+  { label: 'Student ID', width: 75 },
+  { label: 'Email', width: 150 },
+  { label: 'Checked In', width: 70 },
+  { label: 'Status', width: 55 }
+]
+
+const formatEventDate = (date: string) => new Date(date).toLocaleDateString('en-US', {
+  weekday: 'long',
+  year: 'numeric',
+  month: 'long',
+  day: 'numeric'
+})
+
+// A missing or unreadable poster leaves the header without a thumbnail
+const loadPoster = async (event: Event): Promise<PdfImage | null> => {
+  if (!event.poster_url) {
+    return null
+  }
+  try {
+    const response = await fetch(event.poster_url)
+    return await imageToJpeg(await response.blob(), 300, 420)
+  } catch (error) {
+    console.error('Error loading poster for report:', error)
+    return null
+  }
+}
+
+// Returns the top of the content below the header
+const drawHeader = (pdf: Pdf, event: Event, poster: PdfImage | null) => {
+  let textRight = pdf.width - MARGIN
+  let posterBottom = 0
+  if (poster) {
+    const scale = Math.min(100 / poster.width, 140 / poster.height)
+    const width = poster.width * scale
+    const height = poster.height * scale
+    pdf.image(poster, pdf.width - MARGIN - width, MARGIN, width, height)
+    textRight -= width + 15
+    posterBottom = MARGIN + height
+  }
+
+  pdf.text('ATTENDANCE REPORT', MARGIN, 52, { size: 9, font: 'bold', color: ACCENT })
+  let top = 78
+  for (const line of wrapText(event.name, textRight - MARGIN, 20, 'bold')) {
+    pdf.text(line, MARGIN, top, { size: 20, font: 'bold' })
+    top += 24
+  }
+  const details = [
+    formatEventDate(event.event_date),
+    `${event.start_time} - ${event.end_time}`,
+    event.location
+  ]
+  for (const detail of details) {
+    pdf.text(truncateText(detail, textRight - MARGIN, 11), MARGIN, top, { size: 11, color: GRAY })
+    top += 15
+  }
+
+  const bottom = Math.max(top, posterBottom) + 8
+  pdf.line(MARGIN, bottom, pdf.width - MARGIN, bottom, ACCENT, 1.5)
+  return bottom + 20
+}
+
+const drawStats = (pdf: Pdf, event: Event, stats: EventStats, top: number) => {
+  const figures = [
+    { label: 'Registered', value: String(stats.totalRegistrations) },
+    { label: 'Present', value: String(stats.totalAttendances) },
+    { label: 'Absent', value: String(stats.totalRegistrations - stats.totalAttendances) },
+    { label: 'Attendance Rate', value: `${stats.attendanceRate.toFixed(1)}%` },
+    { label: 'Walk-ins', value: String(stats.totalWalkIns) },
+    event.min_attendance_minutes
+      ? { label: 'Left Early', value: String(stats.partialAttendances) }
+      : { label: 'Waitlisted', value: String(stats.totalWaitlisted) }
+  ]
+
+  const gap = 10
+  const boxWidth = (pdf.width - MARGIN * 2 - gap * 2) / 3
+  figures.forEach((figure, index) => {
+    const x = MARGIN + (index % 3) * (boxWidth + gap)
+    const boxTop = top + Math.floor(index / 3) * (44 + gap)
+    pdf.rect(x, boxTop, boxWidth, 44, { fill: LIGHT_GRAY })
+    pdf.text(figure.label.toUpperCase(), x + 10, boxTop + 15, { size: 8, font: 'bold', color: GRAY })
+    pdf.text(figure.value, x + 10, boxTop + 35, { size: 16, font: 'bold' })
+  })
+  top += 2 * 44 + gap + 20
+
+  if (stats.sessions.length > 1) {
+    pdf.text('Sessions', MARGIN, top, { size: 11, font: 'bold' })
+    top += 15
+    for (const session of stats.sessions) {
+      pdf.text(truncateText(session.name, 300, 10), MARGIN, top, { size: 10 })
+      pdf.text(`${session.totalAttendances} present (${session.attendanceRate.toFixed(1)}%)`, pdf.width - MARGIN, top, { size: 10, color: GRAY, align: 'right' })
+      top += 14
+    }
+    top += 10
+  }
+  return top
+}
+
+const drawTableHeader = (pdf: Pdf, top: number) => {
+  pdf.rect(MARGIN, top, pdf.width - MARGIN * 2, ROW_HEIGHT, { fill: LIGHT_GRAY })
+  let x = MARGIN
+  for (const column of TABLE_COLUMNS) {
+    pdf.text(column.label, x + 4, top + 12.5, { size: 9, font: 'bold' })
+    x += column.width
+  }
+  return top + ROW_HEIGHT
+}
+
+// Alphabetical list of confirmed registrations, continued on new pages as needed
+const drawAttendeeTable = (pdf: Pdf, event: Event, registrations: Registration[], attendances: Attendance[], top: number) => {
+  const sessionCount = getEventSessions(event).length
+  const attendees = registrations
+    .filter(registration => registration.status === 'confirmed')
+    .sort((a, b) => a.user_name.localeCompare(b.user_name))
+
+  pdf.text(`Attendees (${attendees.length})`, MARGIN, top, { size: 11, font: 'bold' })
+  top = drawTableHeader(pdf, top + 8)
+
+  attendees.forEach((registration, index) => {
+    if (top + ROW_HEIGHT > FOOTER_TOP - 20) {
+      pdf.addPage()
+      top = drawTableHeader(pdf, MARGIN)
+    }
+
+    const checkIns = attendances
+      .filter(attendance => attendance.registration_id === registration.id)
+      .sort((a, b) => a.checked_in_at.localeCompare(b.checked_in_at))
+    const present = checkIns.length > 0
+    const status = !present ? 'Absent' : sessionCount > 1 ? `Present ${checkIns.length}/${sessionCount}` : 'Present'
+    const cells = [
+      String(index + 1),
+      registration.user_name,
+      registration.student_id ?? '',
+      registration.user_email,
+      present ? new Date(checkIns[0].checked_in_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : ''
+    ]
+
+    let x = MARGIN
+    cells.forEach((cell, column) => {
+      pdf.text(truncateText(cell, TABLE_COLUMNS[column].width - 8, 9), x + 4, top + 12.5, { size: 9 })
+      x += TABLE_COLUMNS[column].width
+    })
+    pdf.text(status, x + 4, top + 12.5, { size: 9, font: 'bold', color: present ? PRESENT : ABSENT })
+    pdf.line(MARGIN, top + ROW_HEIGHT, pdf.width - MARGIN, top + ROW_HEIGHT, LIGHT_GRAY, 0.5)
+    top += ROW_HEIGHT
+  })
+
+  if (attendees.length === 0) {
+    pdf.text('No confirmed registrations', MARGIN + 4, top + 14, { size: 9, color: GRAY })
+    top += ROW_HEIGHT
+  }
+  return top + 30
+}
+
+const drawSignatures = (pdf: Pdf, top: number) => {
+  if (top + 110 > FOOTER_TOP) {
+    pdf.addPage()
+    top = MARGIN + 10
+  }
+
+  pdf.text('Certified that the attendance recorded above is correct.', MARGIN, top, { size: 10, color: GRAY })
+  top += 55
+
+  const gap = 25
+  const blockWidth = (pdf.width - MARGIN * 2 - gap * 2) / SIGNATORIES.length
+  SIGNATORIES.forEach((role, index) => {
+    const x = MARGIN + index * (blockWidth + gap)
+    pdf.line(x, top, x + blockWidth, top)
+    pdf.text(role, x, top + 14, { size: 10, font: 'bold' })
+    pdf.text('Name:', x, top + 32, { size: 9, color: GRAY })
+    pdf.line(x + 30, top + 33, x + blockWidth, top + 33, GRAY, 0.5)
+    pdf.text('Date:', x, top + 50, { size: 9, color: GRAY })
+    pdf.line(x + 30, top + 51, x + blockWidth, top + 51, GRAY, 0.5)
+  })
+}
+
+// Footers go on last, once the page count is known
+const drawFooters = (pdf: Pdf, event: Event) => {
+  const generated = `Generated ${new Date().toLocaleString()}`
+  const pages = pdf.pageCount()
+  for (let page = 0; page < pages; page++) {
+    pdf.setPage(page)
+    pdf.line(MARGIN, FOOTER_TOP, pdf.width - MARGIN, FOOTER_TOP, LIGHT_GRAY)
+    pdf.text(truncateText(`${event.name} · ${generated}`, 400, 8), MARGIN, FOOTER_TOP + 14, { size: 8, color: GRAY })
+    pdf.text(`Page ${page + 1} of ${pages}`, pdf.width - MARGIN, FOOTER_TOP + 14, { size: 8, color: GRAY, align: 'right' })
+  }
+}
+
+export const createAttendanceReport = async (event: Event) => {
+  const [registrations, attendances, stats, poster] = await Promise.all([
+    repository.getEventRegistrations(event.id),
+    repository.getEventAttendances(event.id),
+    repository.getEventStats(event.id),
+    loadPoster(event)
+  ])
+
+  const pdf = createPdf()
+  let top = drawHeader(pdf, event, poster)
+  top = drawStats(pdf, event, stats, top)
+  top = drawAttendeeTable(pdf, event, registrations, attendances, top)
+  drawSignatures(pdf, top)
+  drawFooters(pdf, event)
+  return pdf.toBlob(`${event.name} - Attendance Report`)
+}
+
+export const attendanceReportFilename = (event: Event) => {
+  return `${eventFileSlug(event)}-attendance-report.pdf`
+}
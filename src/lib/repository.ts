@@ -0,0 +1,30 @@
+// Picks the data backend used by every page, based on VITE_DATA_BACKEND
+import { DataRepository } from '@/lib/models'
+import { localStorageRepository, indexedDbRepository } from '@/lib/storage'
+import { supabaseRepository } from '@/lib/supabase'
+import { withChangeNotifications } from '@/lib/changes'
+
+export type DataBackend = 'local' | 'indexeddb' | 'supabase'
+
+const backends: Record<DataBackend, DataRepository> = {
+  local: localStorageRepository,
+  indexeddb: indexedDbRepository,
+  supabase: supabaseRepository
+}
+
+const resolveBackend = (): DataBackend => {
+  const configured = import.meta.env.VITE_DATA_BACKEND
+  if (configured && configured in backends) {
+    return configured as DataBackend
+  }
+  if (configured) {
+    console.warn(`Unknown VITE_DATA_BACKEND "${configured}", using the default backend`)
+  }
+  // IndexedDB has no ~5 MB quota, so prefer it wherever the browser supports it
+  return typeof indexedDB !== 'undefined' ? 'indexeddb' : 'local'
+}
+
+export const dataBackend = resolveBackend()
+
+// Writes publish change events so open pages in every tab can refresh
+export const repository: DataRepository = withChangeNotifications(backends[dataBackend])
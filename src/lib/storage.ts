@@ -1,281 +1,903 @@
-// LocalStorage-based data management for SwiftAttend
-export interface Event {
-  id: string
-  name: string
-  description?: string
-  event_date: string
-  start_time: string
-  end_time: string
-  location: string
-  max_capacity?: number
-  poster_url?: string
-  created_by: string
-  created_at: string
-}
+// Browser-side data management for SwiftAttend, shared by the localStorage and IndexedDB backends
+import { Event, Registration, Attendance, SupportMessage, Team, Certificate, CertificateTemplate, CertificateVerification, CheckInMethod, CheckInResult, CheckOutResult, WalkInDetails, WalkInResult, NewEvent, EventUpdate, DataRepository, DataSnapshot, RestoreMode, getChangedFields, getSelfServiceBlocker, getRegistrationBlocker, PublicationStatus, RegistrationAnswers, validateAnswers, getEventSessions, withScheduleFromSessions, calculateEventStats, isTeamEvent, getTeamSizeError, createInviteCode, normalizeInviteCode, getWalkInBlocker, getCertificateTemplateError, createVerificationCode, normalizeVerificationCode, createRandomCode, createBackupCode, normalizeBackupCode, SigningKey, getDisplacedRegistrations } from '@/lib/models'
+import { userIdForEmail, validateEmail } from '@/lib/auth'
+import { createSigningSecret, createTicketPayload, parseTicketPayload } from '@/lib/tickets'
+import { RecordStore, localStorageStore } from '@/lib/record-store'
+import { indexedDbStore } from '@/lib/indexeddb'
+import { runMigrations } from '@/lib/migrations'
+import { withLock } from '@/lib/locks'
 
-export interface Registration {
-  id: string
-  event_id: string
-  user_id: string
-  user_name: string
-  user_email: string
-  qr_code_data: string
-  backup_code: string
-  created_at: string
-}
+// Generate unique IDs. getRandomValues, unlike randomUUID, also works for scanners on plain-http LAN addresses.
+const generateId = () => `${Date.now()}_${createRandomCode(9).toLowerCase()}`
 
-export interface Attendance {
-  id: string
-  registration_id: string
-  event_id: string
-  user_id: string
-  checked_in_at: string
-  check_in_method: 'qr_scan' | 'backup_code'
-  staff_id: string
+// Waitlisted registrations in the order they will be promoted
+const sortWaitlist = (registrations: Registration[]) => {
+  return registrations
+    .filter(registration => registration.status === 'waitlisted')
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
 }
 
-export interface SupportMessage {
-  id: string
-  event_id: string
-  user_id: string
-  user_name: string
-  user_email: string
-  message: string
-  status: 'open' | 'resolved'
-  created_at: string
-  resolved_at?: string
-  resolved_by?: string
+// Capacity checks read and then write, so each event's registrations change under one lock
+const withRegistrationLock = <T>(eventId: string, callback: () => Promise<T>) => {
+  return withLock(`swiftattend_registration_${eventId}`, callback)
 }
 
-// Generate unique IDs
-const generateId = () => `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+export const createBrowserRepository = (store: RecordStore): DataRepository => {
+  // Turn the stored poster reference into a displayable URL
+  const withPoster = async (event: Event): Promise<Event> => {
+    if (!event.poster_url) {
+      return event
+    }
+    return { ...event, poster_url: await store.resolvePosterUrl(event.poster_url) }
+  }
 
-// Generate backup code (8 characters)
-const generateBackupCode = () => {
-  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789'
-  let result = ''
-  for (let i = 0; i < 8; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length))
+  // Codes are looked up before the event is known, so skip any code already in use anywhere.
+  // Callers hold the event's registration lock, which keeps codes unique within the event.
+  const generateBackupCode = async () => {
+    let backupCode = createBackupCode()
+    while ((await store.findBy('registrations', 'backup_code', backupCode)).length > 0) {
+      backupCode = createBackupCode()
+    }
+    return backupCode
   }
-  return result
-}
 
-// Generate QR code data (longer string for QR)
-const generateQRCodeData = (eventId: string, userId: string, registrationId: string) => {
-  return `SWIFTATTEND_${eventId}_${userId}_${registrationId}_${Date.now()}`
-}
+  // Each event gets its secret the first time one of its tickets is signed or scanned.
+  // The lock stops two tabs from creating different secrets for the same event.
+  const getEventSigningKey = async (eventId: string): Promise<string> => {
+    return withLock(`swiftattend_signing_key_${eventId}`, async () => {
+      const [existing] = await store.findBy('signing_keys', 'event_id', eventId)
+      if (existing) {
+        return existing.secret
+      }
+      if (!await store.get('events', eventId)) {
+        throw new Error('Event not found')
+      }
+      const signingKey: SigningKey = {
+        id: generateId(),
+        event_id: eventId,
+        secret: createSigningSecret(),
+        created_at: new Date().toISOString()
+      }
+      await store.put('signing_keys', signingKey)
+      return signingKey.secret
+    })
+  }
 
-// Event Management
-export const createEvent = (eventData: Omit<Event, 'id' | 'created_at'>): Event => {
-  const event: Event = {
-    ...eventData,
-    id: generateId(),
-    created_at: new Date().toISOString()
-  }
-  
-  const events = getEvents()
-  events.push(event)
-  localStorage.setItem('swiftattend_events', JSON.stringify(events))
-  
-  return event
-}
+  const generateQRCodeData = async (eventId: string, registrationId: string) => {
+    return createTicketPayload(await getEventSigningKey(eventId), eventId, registrationId)
+  }
 
-export const getEvents = (): Event[] => {
-  const eventsStr = localStorage.getItem('swiftattend_events')
-  return eventsStr ? JSON.parse(eventsStr) : []
-}
+  // Tickets from before signing was introduced can't be verified by the scanner, so reissue them
+  const signLegacyTickets = async () => {
+    const unsigned = (await store.getAll('registrations'))
+      .filter(registration => registration.qr_code_data && !parseTicketPayload(registration.qr_code_data))
+    for (const eventId of new Set(unsigned.map(registration => registration.event_id))) {
+      await withRegistrationLock(eventId, async () => {
+        for (const registration of await store.findBy('registrations', 'event_id', eventId)) {
+          if (registration.qr_code_data && !parseTicketPayload(registration.qr_code_data)) {
+            await store.put('registrations', { ...registration, qr_code_data: await generateQRCodeData(eventId, registration.id) })
+          }
+        }
+      })
+    }
+  }
 
-export const getEventById = (eventId: string): Event | null => {
-  const events = getEvents()
-  return events.find(event => event.id === eventId) || null
-}
+  const initialize = async () => {
+    await runMigrations(store)
+    try {
+      await signLegacyTickets()
+    } catch (err) {
+      // Signing needs WebCrypto, which insecure origins lack; the tickets are retried on the next start
+      console.warn('Could not sign existing tickets:', err)
+    }
+  }
 
-// Registration Management
-export const registerForEvent = (eventId: string, userId: string, userName: string, userEmail: string): Registration => {
-  const registrationId = generateId()
-  const registration: Registration = {
-    id: registrationId,
-    event_id: eventId,
-    user_id: userId,
-    user_name: userName,
-    user_email: userEmail,
-    qr_code_data: generateQRCodeData(eventId, userId, registrationId),
-    backup_code: generateBackupCode(),
-    created_at: new Date().toISOString()
-  }
-  
-  const registrations = getRegistrations()
-  
-  // Check if already registered
-  const existingRegistration = registrations.find(
-    reg => reg.event_id === eventId && reg.user_id === userId
-  )
-  
-  if (existingRegistration) {
-    throw new Error('Already registered for this event')
-  }
-  
-  registrations.push(registration)
-  localStorage.setItem('swiftattend_registrations', JSON.stringify(registrations))
-  
-  return registration
-}
+  // Event Management
+  const createEvent = async (eventData: NewEvent, poster?: Blob | null): Promise<Event> => {
+    const eventId = generateId()
+    const event: Event = {
+      ...withScheduleFromSessions(eventData),
+      poster_url: poster ? await store.savePoster(eventId, poster) : undefined,
+      status: eventData.status ?? 'draft',
+      id: eventId,
+      created_at: new Date().toISOString()
+    }
 
-export const getRegistrations = (): Registration[] => {
-  const registrationsStr = localStorage.getItem('swiftattend_registrations')
-  return registrationsStr ? JSON.parse(registrationsStr) : []
-}
+    await store.put('events', event)
 
-export const getEventRegistrations = (eventId: string): Registration[] => {
-  const registrations = getRegistrations()
-  return registrations.filter(reg => reg.event_id === eventId)
-}
+    return withPoster(event)
+  }
 
-export const checkRegistrationStatus = (eventId: string, userId: string): Registration | null => {
-  const registrations = getRegistrations()
-  return registrations.find(reg => reg.event_id === eventId && reg.user_id === userId) || null
-}
+  const getEvents = async (): Promise<Event[]> => {
+    const events = await store.getAll('events')
+    return Promise.all(events.map(withPoster))
+  }
 
-// Delete registration function for admin
-export const deleteRegistration = (registrationId: string): boolean => {
-  const registrations = getRegistrations()
-  const filteredRegistrations = registrations.filter(reg => reg.id !== registrationId)
-  
-  if (filteredRegistrations.length === registrations.length) {
-    return false // Registration not found
-  }
-  
-  localStorage.setItem('swiftattend_registrations', JSON.stringify(filteredRegistrations))
-  
-  // Also remove any associated attendance records
-  const attendances = getAttendances()
-  const filteredAttendances = attendances.filter(att => att.registration_id !== registrationId)
-  localStorage.setItem('swiftattend_attendances', JSON.stringify(filteredAttendances))
-  
-  return true
-}
+  const getEventById = async (eventId: string): Promise<Event | null> => {
+    const event = await store.get('events', eventId)
+    return event ? withPoster(event) : null
+  }
 
-// Support Message Management
-export const createSupportMessage = (eventId: string, userId: string, userName: string, userEmail: string, message: string): SupportMessage => {
-  const supportMessage: SupportMessage = {
-    id: generateId(),
-    event_id: eventId,
-    user_id: userId,
-    user_name: userName,
-    user_email: userEmail,
-    message: message,
-    status: 'open',
-    created_at: new Date().toISOString()
-  }
-  
-  const messages = getSupportMessages()
-  messages.push(supportMessage)
-  localStorage.setItem('swiftattend_support_messages', JSON.stringify(messages))
-  
-  return supportMessage
-}
+  const updateEvent = async (eventId: string, updates: EventUpdate, poster?: Blob | null): Promise<Event> => {
+    const event = await store.get('events', eventId)
+    if (!event) {
+      throw new Error('Event not found')
+    }
 
-export const getSupportMessages = (): SupportMessage[] => {
-  const messagesStr = localStorage.getItem('swiftattend_support_messages')
-  return messagesStr ? JSON.parse(messagesStr) : []
-}
+    let poster_url = event.poster_url
+    if (poster) {
+      poster_url = await store.savePoster(eventId, poster)
+    } else if (poster === null && event.poster_url) {
+      await store.removePoster(event.poster_url)
+      poster_url = undefined
+    }
 
-export const getEventSupportMessages = (eventId: string): SupportMessage[] => {
-  const messages = getSupportMessages()
-  return messages.filter(msg => msg.event_id === eventId)
-}
+    const changedFields = getChangedFields(event, updates)
+    const updated: Event = {
+      ...event,
+      ...withScheduleFromSessions(updates),
+      poster_url,
+      updated_at: new Date().toISOString(),
+      // A poster-only edit keeps the previous notice for participants
+      changed_fields: changedFields.length > 0 ? changedFields : event.changed_fields
+    }
 
-export const getAllSupportMessages = (): SupportMessage[] => {
-  return getSupportMessages()
-}
+    await store.put('events', updated)
 
-export const resolveSupportMessage = (messageId: string, resolvedBy: string): boolean => {
-  const messages = getSupportMessages()
-  const messageIndex = messages.findIndex(msg => msg.id === messageId)
-  
-  if (messageIndex === -1) {
-    return false
-  }
-  
-  messages[messageIndex].status = 'resolved'
-  messages[messageIndex].resolved_at = new Date().toISOString()
-  messages[messageIndex].resolved_by = resolvedBy
-  
-  localStorage.setItem('swiftattend_support_messages', JSON.stringify(messages))
-  return true
-}
+    // A larger capacity lets waitlisted participants in
+    if (updated.max_capacity !== event.max_capacity) {
+      await withRegistrationLock(eventId, () => fillFromWaitlist(eventId))
+    }
 
-// Find registration by QR code or backup code
-export const findRegistrationByQR = (qrData: string): Registration | null => {
-  const registrations = getRegistrations()
-  return registrations.find(reg => reg.qr_code_data === qrData) || null
-}
+    return withPoster(updated)
+  }
 
-export const findRegistrationByBackupCode = (backupCode: string): Registration | null => {
-  const registrations = getRegistrations()
-  return registrations.find(reg => reg.backup_code === backupCode.toUpperCase()) || null
-}
+  const setEventStatus = async (eventId: string, status: PublicationStatus): Promise<Event> => {
+    const event = await store.get('events', eventId)
+    if (!event) {
+      throw new Error('Event not found')
+    }
+    if (event.status === 'cancelled') {
+      throw new Error('This event has been cancelled')
+    }
 
-// Attendance Management
-export const checkInAttendee = (registrationId: string, method: 'qr_scan' | 'backup_code', staffId: string): Attendance => {
-  const registration = getRegistrations().find(reg => reg.id === registrationId)
-  if (!registration) {
-    throw new Error('Registration not found')
-  }
-  
-  // Check if already checked in
-  if (isAttendeeCheckedIn(registrationId)) {
-    throw new Error('Already checked in')
-  }
-  
-  const attendance: Attendance = {
-    id: generateId(),
-    registration_id: registrationId,
-    event_id: registration.event_id,
-    user_id: registration.user_id,
-    checked_in_at: new Date().toISOString(),
-    check_in_method: method,
-    staff_id: staffId
-  }
-  
-  const attendances = getAttendances()
-  attendances.push(attendance)
-  localStorage.setItem('swiftattend_attendances', JSON.stringify(attendances))
-  
-  return attendance
-}
+    const updated: Event = { ...event, status, updated_at: new Date().toISOString() }
 
-export const getAttendances = (): Attendance[] => {
-  const attendancesStr = localStorage.getItem('swiftattend_attendances')
-  return attendancesStr ? JSON.parse(attendancesStr) : []
-}
+    await store.put('events', updated)
 
-export const getEventAttendances = (eventId: string): Attendance[] => {
-  const attendances = getAttendances()
-  return attendances.filter(att => att.event_id === eventId)
-}
+    return withPoster(updated)
+  }
 
-export const isAttendeeCheckedIn = (registrationId: string): boolean => {
-  const attendances = getAttendances()
-  return attendances.some(att => att.registration_id === registrationId)
-}
+  const cancelEvent = async (eventId: string, reason?: string): Promise<Event> => {
+    const event = await store.get('events', eventId)
+    if (!event) {
+      throw new Error('Event not found')
+    }
+
+    const cancelled: Event = {
+      ...event,
+      status: 'cancelled',
+      cancelled_at: new Date().toISOString(),
+      cancellation_reason: reason || undefined
+    }
+
+    await store.put('events', cancelled)
+
+    return withPoster(cancelled)
+  }
+
+  // Deleting an event removes everything that belongs to it
+  const deleteEvent = async (eventId: string): Promise<boolean> => {
+    const event = await store.get('events', eventId)
+    if (!event) {
+      return false
+    }
+
+    for (const attendance of await store.findBy('attendances', 'event_id', eventId)) {
+      await store.remove('attendances', attendance.id)
+    }
+    for (const registration of await store.findBy('registrations', 'event_id', eventId)) {
+      await store.remove('registrations', registration.id)
+    }
+    for (const message of await store.findBy('support_messages', 'event_id', eventId)) {
+      await store.remove('support_messages', message.id)
+    }
+    for (const team of await store.findBy('teams', 'event_id', eventId)) {
+      await store.remove('teams', team.id)
+    }
+    for (const certificate of await store.findBy('certificates', 'event_id', eventId)) {
+      await store.remove('certificates', certificate.id)
+    }
+    for (const signingKey of await store.findBy('signing_keys', 'event_id', eventId)) {
+      await store.remove('signing_keys', signingKey.id)
+    }
+    if (event.poster_url) {
+      await store.removePoster(event.poster_url)
+    }
+    await store.remove('events', eventId)
+
+    return true
+  }
+
+  // Registration Management
+  // Loads an event that currently accepts registrations.
+  // Callers must hold the event's registration lock.
+  const getOpenEvent = async (eventId: string) => {
+    const event = await store.get('events', eventId)
+    if (!event) {
+      throw new Error('Event not found')
+    }
+    const blocker = getRegistrationBlocker(event)
+    if (blocker) {
+      throw new Error(blocker)
+    }
+    return event
+  }
+
+  // Shared by individual and team registrations; a full event waitlists the registration.
+  // Callers must hold the event's registration lock.
+  const addRegistration = async (event: Event, userId: string, userName: string, userEmail: string, answers: RegistrationAnswers | undefined, teamId?: string, studentId?: string): Promise<Registration> => {
+    const validAnswers = validateAnswers(event, answers)
+
+    const registrations = await store.findBy('registrations', 'event_id', event.id)
+
+    // Check if already registered
+    if (registrations.some(reg => reg.user_id === userId)) {
+      throw new Error('Already registered for this event')
+    }
+
+    const confirmedCount = registrations.filter(reg => reg.status === 'confirmed').length
+    const isFull = !!event.max_capacity && confirmedCount >= event.max_capacity
+
+    const registrationId = generateId()
+    const registration: Registration = {
+      id: registrationId,
+      event_id: event.id,
+      user_id: userId,
+      user_name: userName,
+      user_email: userEmail,
+      status: isFull ? 'waitlisted' : 'confirmed',
+      answers: validAnswers,
+      team_id: teamId,
+      student_id: studentId || undefined,
+      qr_code_data: isFull ? undefined : await generateQRCodeData(event.id, registrationId),
+      backup_code: isFull ? undefined : await generateBackupCode(),
+      created_at: new Date().toISOString()
+    }
+
+    await store.put('registrations', registration)
+
+    return registration
+  }
+
+  const registerForEvent = async (eventId: string, userId: string, userName: string, userEmail: string, answers?: RegistrationAnswers, studentId?: string): Promise<Registration> => {
+    return withRegistrationLock(eventId, async () => {
+      const event = await getOpenEvent(eventId)
+      if (isTeamEvent(event)) {
+        throw new Error('Create or join a team to register for this event')
+      }
+      return addRegistration(event, userId, userName, userEmail, answers, undefined, studentId)
+    })
+  }
+
+  // Team Management
+  const createTeam = async (eventId: string, teamName: string, maxSize: number, userId: string, userName: string, userEmail: string, answers?: RegistrationAnswers) => {
+    return withRegistrationLock(eventId, async () => {
+      const event = await getOpenEvent(eventId)
+      if (!isTeamEvent(event)) {
+        throw new Error('This event does not use teams')
+      }
+      const name = teamName.trim()
+      if (!name) {
+        throw new Error('Team name is required')
+      }
+      const sizeError = getTeamSizeError(event, maxSize)
+      if (sizeError) {
+        throw new Error(sizeError)
+      }
+
+      const teams = await store.findBy('teams', 'event_id', eventId)
+      if (teams.some(team => team.name.toLowerCase() === name.toLowerCase())) {
+        throw new Error('A team with this name already exists')
+      }
+      // Invite codes only need to be unique within the event
+      let inviteCode = createInviteCode()
+      while (teams.some(team => team.invite_code === inviteCode)) {
+        inviteCode = createInviteCode()
+      }
+
+      const team: Team = {
+        id: generateId(),
+        event_id: eventId,
+        name,
+        invite_code: inviteCode,
+        leader_id: userId,
+        max_size: maxSize,
+        created_at: new Date().toISOString()
+      }
+
+      // Registering the leader first means a rejected registration leaves no empty team behind
+      const registration = await addRegistration(event, userId, userName, userEmail, answers, team.id)
+      await store.put('teams', team)
+
+      return { team, registration }
+    })
+  }
+
+  const joinTeam = async (eventId: string, inviteCode: string, userId: string, userName: string, userEmail: string, answers?: RegistrationAnswers): Promise<Registration> => {
+    return withRegistrationLock(eventId, async () => {
+      const event = await getOpenEvent(eventId)
+      const teams = await store.findBy('teams', 'invite_code', normalizeInviteCode(inviteCode))
+      const team = teams.find(candidate => candidate.event_id === eventId)
+      if (!team) {
+        throw new Error('No team found with this invite code')
+      }
+
+      const registrations = await store.findBy('registrations', 'event_id', eventId)
+      if (registrations.filter(reg => reg.team_id === team.id).length >= team.max_size) {
+        throw new Error('This team is full')
+      }
+
+      return addRegistration(event, userId, userName, userEmail, answers, team.id)
+    })
+  }
+
+  const getTeams = async (): Promise<Team[]> => {
+    return store.getAll('teams')
+  }
+
+  const getEventTeams = async (eventId: string): Promise<Team[]> => {
+    return store.findBy('teams', 'event_id', eventId)
+  }
+
+  const getTeam = async (teamId: string): Promise<Team | null> => {
+    return store.get('teams', teamId)
+  }
+
+  // Run after a member's registration is removed. A departing leader hands the team to the
+  // longest-standing member, and a team without members is removed.
+  // Callers must hold the event's registration lock.
+  const leaveTeam = async (registration: Registration) => {
+    const team = registration.team_id ? await store.get('teams', registration.team_id) : null
+    if (!team) {
+      return
+    }
+
+    const registrations = await store.findBy('registrations', 'event_id', registration.event_id)
+    const members = registrations
+      .filter(reg => reg.team_id === team.id)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+
+    if (members.length === 0) {
+      await store.remove('teams', team.id)
+    } else if (team.leader_id === registration.user_id) {
+      await store.put('teams', { ...team, leader_id: members[0].user_id })
+    }
+  }
+
+  // Promote waitlisted registrations into free spots and issue their codes.
+  // Callers must hold the event's registration lock.
+  const fillFromWaitlist = async (eventId: string) => {
+    const event = await store.get('events', eventId)
+    if (!event || event.status === 'cancelled') {
+      return
+    }
+
+    const registrations = await store.findBy('registrations', 'event_id', eventId)
+    const waitlist = sortWaitlist(registrations)
+    const confirmedCount = registrations.length - waitlist.length
+    const freeSpots = event.max_capacity ? event.max_capacity - confirmedCount : waitlist.length
+
+    for (const registration of waitlist.slice(0, Math.max(freeSpots, 0))) {
+      await store.put('registrations', {
+        ...registration,
+        status: 'confirmed',
+        qr_code_data: await generateQRCodeData(eventId, registration.id),
+        backup_code: await generateBackupCode(),
+        promoted_at: new Date().toISOString()
+      })
+    }
+  }
+
+  const getWaitlistPosition = async (registrationId: string): Promise<number | null> => {
+    const registration = await store.get('registrations', registrationId)
+    if (!registration || registration.status !== 'waitlisted') {
+      return null
+    }
+    const waitlist = sortWaitlist(await store.findBy('registrations', 'event_id', registration.event_id))
+    return waitlist.findIndex(reg => reg.id === registrationId) + 1
+  }
+
+  const getRegistrations = async (): Promise<Registration[]> => {
+    return store.getAll('registrations')
+  }
+
+  const getEventRegistrations = async (eventId: string): Promise<Registration[]> => {
+    return store.findBy('registrations', 'event_id', eventId)
+  }
+
+  const checkRegistrationStatus = async (eventId: string, userId: string): Promise<Registration | null> => {
+    const registrations = await store.findBy('registrations', 'event_id', eventId)
+    return registrations.find(reg => reg.user_id === userId) || null
+  }
+
+  // Delete registration function for admin
+  const deleteRegistration = async (registrationId: string): Promise<boolean> => {
+    const registration = await store.get('registrations', registrationId)
+    if (!registration) {
+      return false // Registration not found
+    }
+
+    await withRegistrationLock(registration.event_id, async () => {
+      await store.remove('registrations', registrationId)
+
+      // Also remove any associated attendance records
+      const attendances = await store.findBy('attendances', 'registration_id', registrationId)
+      for (const attendance of attendances) {
+        await store.remove('attendances', attendance.id)
+      }
+      for (const certificate of await store.findBy('certificates', 'registration_id', registrationId)) {
+        await store.remove('certificates', certificate.id)
+      }
+
+      await leaveTeam(registration)
+      await fillFromWaitlist(registration.event_id)
+    })
+
+    return true
+  }
+
+  // Participant self-service
+  // Loads the registration and its event, throwing if the participant may not change it
+  const getOwnRegistration = async (registrationId: string, userId: string) => {
+    const registration = await store.get('registrations', registrationId)
+    if (!registration) {
+      throw new Error('Registration not found')
+    }
+    const event = await store.get('events', registration.event_id)
+    if (!event) {
+      throw new Error('Event not found')
+    }
+    const blocker = getSelfServiceBlocker(event, registration, userId, await isAttendeeCheckedIn(registrationId))
+    if (blocker) {
+      throw new Error(blocker)
+    }
+    return { registration, event }
+  }
+
+  const cancelRegistration = async (registrationId: string, userId: string) => {
+    const { registration } = await getOwnRegistration(registrationId, userId)
+
+    await withRegistrationLock(registration.event_id, async () => {
+      await store.remove('registrations', registrationId)
+      await leaveTeam(registration)
+      await fillFromWaitlist(registration.event_id)
+    })
+  }
+
+  const transferRegistration = async (registrationId: string, userId: string, toEmail: string, toName: string): Promise<Registration> => {
+    const { registration } = await getOwnRegistration(registrationId, userId)
+    if (registration.status === 'waitlisted') {
+      throw new Error('Waitlisted registrations cannot be transferred')
+    }
+
+    const emailValidation = validateEmail(toEmail.trim())
+    if (!emailValidation.valid) {
+      throw new Error(emailValidation.error)
+    }
+    const recipientId = userIdForEmail(toEmail)
+    if (recipientId === userId) {
+      throw new Error('You cannot transfer a registration to yourself')
+    }
+
+    return withRegistrationLock(registration.event_id, async () => {
+      const registrations = await store.findBy('registrations', 'event_id', registration.event_id)
+      if (registrations.some(reg => reg.user_id === recipientId)) {
+        throw new Error(`${toEmail} is already registered for this event`)
+      }
+
+      // New codes replace the old ones, so anything the previous holder kept stops working.
+      // Their student ID, answers and walk-in flag describe them, not the recipient, so they go too.
+      const transferred: Registration = {
+        ...registration,
+        user_id: recipientId,
+        user_name: toName.trim(),
+        user_email: toEmail.trim().toLowerCase(),
+        student_id: undefined,
+        answers: undefined,
+        walk_in: undefined,
+        qr_code_data: await generateQRCodeData(registration.event_id, registration.id),
+        backup_code: await generateBackupCode(),
+        transferred_from: registration.user_email,
+        transferred_at: new Date().toISOString()
+      }
+      await store.put('registrations', transferred)
+
+      // The recipient takes over the team spot, including leadership
+      const team = registration.team_id ? await store.get('teams', registration.team_id) : null
+      if (team?.leader_id === userId) {
+        await store.put('teams', { ...team, leader_id: recipientId })
+      }
+
+      return transferred
+    })
+  }
+
+  // Certificate Management
+  const issueCertificates = async (eventId: string, template: CertificateTemplate): Promise<Certificate[]> => {
+    const templateError = getCertificateTemplateError(template)
+    if (templateError) {
+      throw new Error(templateError)
+    }
+
+    return withRegistrationLock(eventId, async () => {
+      const event = await store.get('events', eventId)
+      if (!event) {
+        throw new Error('Event not found')
+      }
+      await store.put('events', { ...event, certificate_template: template })
+
+      const certificates = await store.findBy('certificates', 'event_id', eventId)
+      const attended = new Set((await store.findBy('attendances', 'event_id', eventId)).map(attendance => attendance.registration_id))
+      // Codes are looked up without the event, so they must be unique across all events
+      const codes = new Set((await store.getAll('certificates')).map(certificate => certificate.verification_code))
+
+      for (const registration of await store.findBy('registrations', 'event_id', eventId)) {
+        if (!attended.has(registration.id) || certificates.some(certificate => certificate.registration_id === registration.id)) {
+          continue
+        }
+        let verificationCode = createVerificationCode()
+        while (codes.has(verificationCode)) {
+          verificationCode = createVerificationCode()
+        }
+        codes.add(verificationCode)
+
+        const certificate: Certificate = {
+          id: generateId(),
+          event_id: eventId,
+          registration_id: registration.id,
+          user_id: registration.user_id,
+          recipient_name: registration.user_name,
+          verification_code: verificationCode,
+          issued_at: new Date().toISOString()
+        }
+        await store.put('certificates', certificate)
+        certificates.push(certificate)
+      }
+
+      return certificates
+    })
+  }
+
+  const getCertificates = async (): Promise<Certificate[]> => {
+    return store.getAll('certificates')
+  }
+
+  const getEventCertificates = async (eventId: string): Promise<Certificate[]> => {
+    return store.findBy('certificates', 'event_id', eventId)
+  }
+
+  const verifyCertificate = async (code: string): Promise<CertificateVerification | null> => {
+    const [certificate] = await store.findBy('certificates', 'verification_code', normalizeVerificationCode(code))
+    const event = certificate ? await store.get('events', certificate.event_id) : null
+    if (!certificate || !event) {
+      return null
+    }
+    return {
+      recipient_name: certificate.recipient_name,
+      event_name: event.name,
+      event_date: event.event_date,
+      issued_at: certificate.issued_at
+    }
+  }
+
+  const getSigningKeys = async (): Promise<SigningKey[]> => {
+    return store.getAll('signing_keys')
+  }
+
+  // Support Message Management
+  const createSupportMessage = async (eventId: string, userId: string, userName: string, userEmail: string, message: string): Promise<SupportMessage> => {
+    const supportMessage: SupportMessage = {
+      id: generateId(),
+      event_id: eventId,
+      user_id: userId,
+      user_name: userName,
+      user_email: userEmail,
+      message: message,
+      status: 'open',
+      created_at: new Date().toISOString()
+    }
+
+    await store.put('support_messages', supportMessage)
+
+    return supportMessage
+  }
+
+  const getSupportMessages = async (): Promise<SupportMessage[]> => {
+    return store.getAll('support_messages')
+  }
+
+  const getEventSupportMessages = async (eventId: string): Promise<SupportMessage[]> => {
+    return store.findBy('support_messages', 'event_id', eventId)
+  }
+
+  const resolveSupportMessage = async (messageId: string, resolvedBy: string): Promise<boolean> => {
+    const message = await store.get('support_messages', messageId)
+
+    if (!message) {
+      return false
+    }
+
+    await store.put('support_messages', {
+      ...message,
+      status: 'resolved',
+      resolved_at: new Date().toISOString(),
+      resolved_by: resolvedBy
+    })
+    return true
+  }
+
+  // Find registration by QR code or backup code
+  const findRegistrationByQR = async (qrData: string): Promise<Registration | null> => {
+    const registrations = await store.findBy('registrations', 'qr_code_data', qrData)
+    return registrations[0] || null
+  }
+
+  const findRegistrationByBackupCode = async (backupCode: string): Promise<Registration | null> => {
+    const registrations = await store.findBy('registrations', 'backup_code', normalizeBackupCode(backupCode))
+    return registrations[0] || null
+  }
+
+  // Attendance Management
+  // Compare-and-set under a per-registration-and-session lock, so two scanner tabs
+  // processing the same code can never both record an attendance
+  const checkInAttendee = async (registrationId: string, sessionId: string, method: CheckInMethod, staffId: string, staffName: string): Promise<CheckInResult> => {
+    return withLock(`swiftattend_checkin_${registrationId}_${sessionId}`, async () => {
+      const registration = await store.get('registrations', registrationId)
+      if (!registration) {
+        throw new Error('Registration not found')
+      }
+      if (registration.status === 'waitlisted') {
+        throw new Error('Registration is still on the waitlist')
+      }
+
+      const event = await store.get('events', registration.event_id)
+      if (!event || !getEventSessions(event).some(session => session.id === sessionId)) {
+        throw new Error('Session not found')
+      }
+
+      // Check if already checked in for this session
+      const attendances = await store.findBy('attendances', 'registration_id', registrationId)
+      const existing = attendances.find(attendance => attendance.session_id === sessionId)
+      if (existing) {
+        return { success: false, attendance: existing }
+      }
+
+      const attendance: Attendance = {
+        id: generateId(),
+        registration_id: registrationId,
+        event_id: registration.event_id,
+        user_id: registration.user_id,
+        session_id: sessionId,
+        checked_in_at: new Date().toISOString(),
+        check_in_method: method,
+        staff_id: staffId,
+        staff_name: staffName
+      }
+
+      await store.put('attendances', attendance)
+
+      return { success: true, attendance }
+    })
+  }
+
+  const registerWalkIn = async (eventId: string, sessionId: string, details: WalkInDetails, staffId: string, staffName: string): Promise<WalkInResult> => {
+    const email = details.email.trim().toLowerCase()
+    const emailValidation = validateEmail(email)
+    if (!emailValidation.valid) {
+      throw new Error(emailValidation.error)
+    }
+    if (!details.name.trim()) {
+      throw new Error('Name is required')
+    }
+    const userId = userIdForEmail(email)
+
+    const registration = await withRegistrationLock(eventId, async () => {
+      const event = await store.get('events', eventId)
+      if (!event) {
+        throw new Error('Event not found')
+      }
+      const blocker = getWalkInBlocker(event)
+      if (blocker) {
+        throw new Error(blocker)
+      }
+      if (!getEventSessions(event).some(session => session.id === sessionId)) {
+        throw new Error('Session not found')
+      }
+
+      const registrations = await store.findBy('registrations', 'event_id', eventId)
+      if (registrations.some(reg => reg.user_id === userId)) {
+        throw new Error(`${email} is already registered for this event. Scan their code instead.`)
+      }
+      // Someone at the door can't wait on a waitlist
+      const confirmedCount = registrations.filter(reg => reg.status === 'confirmed').length
+      if (event.max_capacity && confirmedCount >= event.max_capacity) {
+        throw new Error('This event is full')
+      }
+
+      const registrationId = generateId()
+      const walkIn: Registration = {
+        id: registrationId,
+        event_id: eventId,
+        user_id: userId,
+        user_name: details.name.trim(),
+        user_email: email,
+        status: 'confirmed',
+        student_id: details.studentId?.trim() || undefined,
+        walk_in: true,
+        qr_code_data: await generateQRCodeData(eventId, registrationId),
+        backup_code: await generateBackupCode(),
+        created_at: new Date().toISOString()
+      }
+      await store.put('registrations', walkIn)
+
+      return walkIn
+    })
+
+    const { attendance } = await checkInAttendee(registration.id, sessionId, 'walk_in', staffId, staffName)
+    return { registration, attendance }
+  }
+
+  // Shares the check-in lock so a check-out never races the check-in it completes
+  const checkOutAttendee = async (registrationId: string, sessionId: string, staffId: string, staffName: string): Promise<CheckOutResult> => {
+    return withLock(`swiftattend_checkin_${registrationId}_${sessionId}`, async () => {
+      const attendances = await store.findBy('attendances', 'registration_id', registrationId)
+      const existing = attendances.find(attendance => attendance.session_id === sessionId)
+      if (!existing) {
+        throw new Error('Not checked in for this session')
+      }
+      if (existing.checked_out_at) {
+        return { success: false, attendance: existing }
+      }
+
+      const attendance: Attendance = {
+        ...existing,
+        checked_out_at: new Date().toISOString(),
+        check_out_staff_id: staffId,
+        check_out_staff_name: staffName
+      }
+
+      await store.put('attendances', attendance)
+
+      return { success: true, attendance }
+    })
+  }
+
+  const getAttendances = async (): Promise<Attendance[]> => {
+    return store.getAll('attendances')
+  }
+
+  const getEventAttendances = async (eventId: string): Promise<Attendance[]> => {
+    return store.findBy('attendances', 'event_id', eventId)
+  }
+
+  const isAttendeeCheckedIn = async (registrationId: string, sessionId?: string): Promise<boolean> => {
+    const attendances = await store.findBy('attendances', 'registration_id', registrationId)
+    return attendances.some(attendance => !sessionId || attendance.session_id === sessionId)
+  }
+
+  // Utility functions
+  const getEventStats = async (eventId: string) => {
+    const event = await store.get('events', eventId)
+    if (!event) {
+      throw new Error('Event not found')
+    }
+    const registrations = await getEventRegistrations(eventId)
+    const attendances = await getEventAttendances(eventId)
+
+    return calculateEventStats(event, registrations, attendances)
+  }
+
+  // Backup restore
+  const restoreSnapshot = async (snapshot: DataSnapshot, posters: Record<string, Blob>, mode: RestoreMode) => {
+    // Clearing first also drops posters that belonged to the old events
+    if (mode === 'replace') {
+      await store.clear()
+    }
+
+    const events: Event[] = []
+    for (const event of snapshot.events) {
+      const poster = posters[event.id]
+      events.push(poster ? { ...event, poster_url: await store.savePoster(event.id, poster) } : event)
+    }
+
+    if (mode === 'replace') {
+      await store.replaceAll('events', events)
+      await store.replaceAll('registrations', snapshot.registrations)
+      await store.replaceAll('attendances', snapshot.attendances)
+      await store.replaceAll('support_messages', snapshot.support_messages)
+      await store.replaceAll('teams', snapshot.teams)
+      await store.replaceAll('certificates', snapshot.certificates)
+      await store.replaceAll('signing_keys', snapshot.signing_keys)
+      return
+    }
+
+    for (const displaced of getDisplacedRegistrations(await store.getAll('registrations'), snapshot.registrations)) {
+      await store.remove('registrations', displaced.id)
+      for (const attendance of await store.findBy('attendances', 'registration_id', displaced.id)) {
+        await store.remove('attendances', attendance.id)
+      }
+      for (const certificate of await store.findBy('certificates', 'registration_id', displaced.id)) {
+        await store.remove('certificates', certificate.id)
+      }
+    }
+
+    for (const event of events) await store.put('events', event)
+    for (const registration of snapshot.registrations) await store.put('registrations', registration)
+    for (const attendance of snapshot.attendances) await store.put('attendances', attendance)
+    for (const message of snapshot.support_messages) await store.put('support_messages', message)
+    for (const team of snapshot.teams) await store.put('teams', team)
+    for (const certificate of snapshot.certificates) await store.put('certificates', certificate)
+    // An event keeps one secret: the backup's, which signed the tickets being restored
+    for (const signingKey of snapshot.signing_keys) {
+      for (const existing of await store.findBy('signing_keys', 'event_id', signingKey.event_id)) {
+        await store.remove('signing_keys', existing.id)
+      }
+      await store.put('signing_keys', signingKey)
+    }
+  }
+
+  // Clear all data (for development/testing)
+  const clearAllData = async () => {
+    await store.clear()
+  }
 
-// Utility functions
-export const getEventStats = (eventId: string) => {
-  const registrations = getEventRegistrations(eventId)
-  const attendances = getEventAttendances(eventId)
-  
   return {
-    totalRegistrations: registrations.length,
-    totalAttendances: attendances.length,
-    attendanceRate: registrations.length > 0 ? (attendances.length / registrations.length) * 100 : 0
+    initialize,
+    createEvent,
+    getEvents,
+    getEventById,
+    updateEvent,
+    setEventStatus,
+    cancelEvent,
+    deleteEvent,
+    registerForEvent,
+    getRegistrations,
+    getEventRegistrations,
+    checkRegistrationStatus,
+    createTeam,
+    joinTeam,
+    getTeams,
+    getEventTeams,
+    getTeam,
+    deleteRegistration,
+    getWaitlistPosition,
+    cancelRegistration,
+    transferRegistration,
+    findRegistrationByQR,
+    findRegistrationByBackupCode,
+    checkInAttendee,
+    registerWalkIn,
+    checkOutAttendee,
+    getAttendances,
+    getEventAttendances,
+    isAttendeeCheckedIn,
+    getEventStats,
+    issueCertificates,
+    getCertificates,
+    getEventCertificates,
+    verifyCertificate,
+    getEventSigningKey,
+    getSigningKeys,
+    createSupportMessage,
+    getSupportMessages,
+    getEventSupportMessages,
+    resolveSupportMessage,
+    restoreSnapshot,
+    clearAllData
   }
 }
 
-// Clear all data (for development/testing)
-export const clearAllData = () => {
-  localStorage.removeItem('swiftattend_events')
-  localStorage.removeItem('swiftattend_registrations')
-  localStorage.removeItem('swiftattend_attendances')
-  localStorage.removeItem('swiftattend_support_messages')
-}
\ No newline at end of file
+export const localStorageRepository = createBrowserRepository(localStorageStore)
+
+export const indexedDbRepository = createBrowserRepository(indexedDbStore)
@@ -1,165 +1,886 @@
 import { createClient } from '@supabase/supabase-js'
+import { Event, EventStatus, EventDetailField, Registration, RegistrationStatus, Attendance, SupportMessage, Team, Certificate, CertificateTemplate, CertificateVerification, CheckInMethod, EventSession, RegistrationQuestion, RegistrationAnswers, DataRepository, getChangedFields, validateAnswers, getSelfServiceBlocker, withScheduleFromSessions, calculateEventStats, createInviteCode, normalizeInviteCode, getCertificateTemplateError, createVerificationCode, normalizeVerificationCode, createRandomCode, normalizeBackupCode, SigningKey, getDisplacedRegistrations } from '@/lib/models'
+import { User, validateEmail } from '@/lib/auth'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || 'https://your-project.supabase.co'
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY || 'your-anon-key'
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey)
 
-// Database types
-export interface User {
+// Signed-in users are profiles in public.users, created by handle_new_user on sign-up
+interface UserRow {
   id: string
   email: string
   full_name: string
-  role: 'admin' | 'staff' | 'participant'
-  student_id?: string
+  role: User['role']
+  student_id: string | null
   created_at: string
-  updated_at: string
 }
 
-export interface Event {
+const toUser = (row: UserRow): User => ({ ...row, student_id: row.student_id ?? undefined })
+
+// Auth helpers. With this backend the session, and so auth.uid() in every policy and
+// function, comes from Supabase Auth; user.id is the auth user's UUID.
+export const getSupabaseUser = async (): Promise<User | null> => {
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session) {
+    return null
+  }
+  const row = unwrap<UserRow | null>(await supabase
+    .from('users')
+    .select('*')
+    .eq('id', session.user.id)
+    .maybeSingle())
+  return row ? toUser(row) : null
+}
+
+export const signInWithSupabase = async (email: string, password: string): Promise<User> => {
+  const { error } = await supabase.auth.signInWithPassword({ email: email.trim(), password })
+  if (error) {
+    throw new Error(error.message)
+  }
+  const user = await getSupabaseUser()
+  if (!user) {
+    throw new Error('Your account has no SwiftAttend profile. Contact an administrator.')
+  }
+  return user
+}
+
+// Everyone signs up as a participant; admins grant staff and admin roles in public.users.
+// Returns null when the project requires the email address to be confirmed first.
+export const signUpWithSupabase = async (email: string, password: string, fullName: string, studentId?: string): Promise<User | null> => {
+  const { data, error } = await supabase.auth.signUp({
+    email: email.trim(),
+    password,
+    options: { data: { full_name: fullName.trim(), student_id: studentId?.trim() || null } }
+  })
+  if (error) {
+    throw new Error(error.message)
+  }
+  return data.session ? getSupabaseUser() : null
+}
+
+export const signOutOfSupabase = async () => {
+  await supabase.auth.signOut()
+}
+
+// Keeps the app in step with sign-outs and expired sessions, including from other tabs
+export const onSupabaseAuthChange = (callback: (signedIn: boolean) => void) => {
+  const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+    if (event === 'SIGNED_IN' || event === 'SIGNED_OUT') {
+      callback(!!session)
+    }
+  })
+  return () => subscription.unsubscribe()
+}
+
+// Database rows, mapped onto the shared domain model
+interface EventRow {
   id: string
   name: string
-  description?: string
+  description: string | null
   event_date: string
   start_time: string
   end_time: string
   location: string
-  qr_code_data: string
-  max_capacity?: number
+  sessions: EventSession[] | null
+  questions: RegistrationQuestion[] | null
+  max_capacity: number | null
+  cancellation_cutoff_hours: number | null
+  min_attendance_minutes: number | null
+  late_grace_minutes: number | null
+  very_late_after_minutes: number | null
+  registration_opens_at: string | null
+  registration_closes_at: string | null
+  min_team_size: number | null
+  max_team_size: number | null
+  certificate_template: CertificateTemplate | null
+  poster_url: string | null
+  status: EventStatus
   created_by: string
   created_at: string
   updated_at: string
-  registration_count?: number
-  attendance_count?: number
+  changed_fields: EventDetailField[] | null
+  cancelled_at: string | null
+  cancellation_reason: string | null
 }
 
-export interface Registration {
+interface RegistrationRow {
   id: string
   event_id: string
-  user_id: string
-  qr_code_data: string
-  backup_code: string
+  // NULL for walk-ins without an account
+  user_id: string | null
+  user_name: string
+  user_email: string
+  status: RegistrationStatus
+  answers: RegistrationAnswers | null
+  team_id: string | null
+  student_id: string | null
+  walk_in: boolean
+  qr_code_data: string | null
+  backup_code: string | null
   registration_date: string
-  event?: Event
-  user?: User
+  promoted_at: string | null
+  transferred_from: string | null
+  transferred_at: string | null
 }
 
-export interface Attendance {
+interface AttendanceRow {
   id: string
   registration_id: string
+  event_id: string
+  user_id: string | null
+  session_id: string
   check_in_time: string
-  check_in_method: 'qr_scan' | 'backup_code'
+  check_in_method: CheckInMethod
   checked_in_by: string
-  registration?: Registration
+  staff_name: string | null
+  check_out_time: string | null
+  checked_out_by: string | null
+  check_out_staff_name: string | null
 }
 
-// Auth helpers
-export const getCurrentUser = async () => {
-  const { data: { user } } = await supabase.auth.getUser()
-  return user
+interface TeamRow {
+  id: string
+  event_id: string
+  name: string
+  invite_code: string
+  leader_id: string
+  max_size: number
+  created_at: string
 }
 
-export const signIn = async (email: string, password: string) => {
-  return await supabase.auth.signInWithPassword({ email, password })
+interface CertificateRow {
+  id: string
+  event_id: string
+  registration_id: string
+  // NULL for walk-ins without an account
+  user_id: string | null
+  recipient_name: string
+  verification_code: string
+  issued_at: string
 }
 
-export const signUp = async (email: string, password: string, userData: Partial<User>) => {
-  const { data, error } = await supabase.auth.signUp({
-    email,
-    password,
-    options: {
-      data: userData
-    }
-  })
-  return { data, error }
+interface SupportMessageRow {
+  id: string
+  event_id: string
+  user_id: string
+  user_name: string
+  user_email: string
+  message: string
+  status: 'open' | 'resolved'
+  created_at: string
+  resolved_at: string | null
+  resolved_by: string | null
 }
 
-export const signOut = async () => {
-  return await supabase.auth.signOut()
-}
+const POSTER_BUCKET = 'event-posters'
 
-// Database helpers
-export const createEvent = async (eventData: Omit<Event, 'id' | 'created_at' | 'updated_at' | 'qr_code_data'>) => {
-  const qr_code_data = `event_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-  
-  return await supabase
-    .from('events')
-    .insert([{ ...eventData, qr_code_data }])
-    .select()
-    .single()
-}
-
-export const getEvents = async () => {
-  return await supabase
-    .from('events')
-    .select('*, registration_count:registrations(count), attendance_count:registrations!inner(attendance(count))')
-    .order('event_date', { ascending: true })
-}
-
-export const getEventById = async (eventId: string) => {
-  return await supabase
-    .from('events')
-    .select('*, registration_count:registrations(count), attendance_count:registrations!inner(attendance(count))')
-    .eq('id', eventId)
-    .single()
-}
-
-export const registerForEvent = async (eventId: string, userId: string) => {
-  const qr_code_data = `reg_${eventId}_${userId}_${Date.now()}`
-  const backup_code = Math.random().toString(36).substr(2, 8).toUpperCase()
-  
-  return await supabase
-    .from('registrations')
-    .insert([{
-      event_id: eventId,
-      user_id: userId,
-      qr_code_data,
-      backup_code
-    }])
-    .select()
-    .single()
-}
-
-export const checkRegistrationStatus = async (eventId: string, userId: string) => {
-  return await supabase
-    .from('registrations')
-    .select('*')
-    .eq('event_id', eventId)
-    .eq('user_id', userId)
-    .single()
+const toEvent = (row: EventRow): Event => ({
+  id: row.id,
+  name: row.name,
+  description: row.description ?? undefined,
+  event_date: row.event_date,
+  start_time: row.start_time,
+  end_time: row.end_time,
+  location: row.location,
+  sessions: row.sessions ?? undefined,
+  questions: row.questions ?? undefined,
+  max_capacity: row.max_capacity ?? undefined,
+  cancellation_cutoff_hours: row.cancellation_cutoff_hours ?? undefined,
+  min_attendance_minutes: row.min_attendance_minutes ?? undefined,
+  late_grace_minutes: row.late_grace_minutes ?? undefined,
+  very_late_after_minutes: row.very_late_after_minutes ?? undefined,
+  registration_opens_at: row.registration_opens_at ?? undefined,
+  registration_closes_at: row.registration_closes_at ?? undefined,
+  min_team_size: row.min_team_size ?? undefined,
+  max_team_size: row.max_team_size ?? undefined,
+  certificate_template: row.certificate_template ?? undefined,
+  poster_url: row.poster_url ?? undefined,
+  status: row.status,
+  created_by: row.created_by,
+  created_at: row.created_at,
+  // The updated_at trigger also fires on cancel, so only report it when details changed
+  updated_at: row.changed_fields ? row.updated_at : undefined,
+  changed_fields: row.changed_fields ?? undefined,
+  cancelled_at: row.cancelled_at ?? undefined,
+  cancellation_reason: row.cancellation_reason ?? undefined
+})
+
+const toRegistration = (row: RegistrationRow): Registration => ({
+  id: row.id,
+  event_id: row.event_id,
+  user_id: row.user_id ?? '',
+  user_name: row.user_name,
+  user_email: row.user_email,
+  status: row.status,
+  answers: row.answers ?? undefined,
+  team_id: row.team_id ?? undefined,
+  student_id: row.student_id ?? undefined,
+  walk_in: row.walk_in || undefined,
+  qr_code_data: row.qr_code_data ?? undefined,
+  backup_code: row.backup_code ?? undefined,
+  created_at: row.registration_date,
+  promoted_at: row.promoted_at ?? undefined,
+  transferred_from: row.transferred_from ?? undefined,
+  transferred_at: row.transferred_at ?? undefined
+})
+
+const toAttendance = (row: AttendanceRow): Attendance => ({
+  id: row.id,
+  registration_id: row.registration_id,
+  event_id: row.event_id,
+  user_id: row.user_id ?? '',
+  session_id: row.session_id,
+  checked_in_at: row.check_in_time,
+  check_in_method: row.check_in_method,
+  staff_id: row.checked_in_by,
+  staff_name: row.staff_name ?? undefined,
+  checked_out_at: row.check_out_time ?? undefined,
+  check_out_staff_id: row.checked_out_by ?? undefined,
+  check_out_staff_name: row.check_out_staff_name ?? undefined
+})
+
+const toTeam = (row: TeamRow): Team => ({ ...row })
+
+const toCertificate = (row: CertificateRow): Certificate => ({ ...row, user_id: row.user_id ?? '' })
+
+const toSupportMessage = (row: SupportMessageRow): SupportMessage => ({
+  ...row,
+  resolved_at: row.resolved_at ?? undefined,
+  resolved_by: row.resolved_by ?? undefined
+})
+
+const fromEvent = (event: Event) => ({
+  ...event,
+  description: event.description ?? null,
+  sessions: event.sessions ?? null,
+  questions: event.questions ?? null,
+  max_capacity: event.max_capacity ?? null,
+  cancellation_cutoff_hours: event.cancellation_cutoff_hours ?? null,
+  min_attendance_minutes: event.min_attendance_minutes ?? null,
+  late_grace_minutes: event.late_grace_minutes ?? null,
+  very_late_after_minutes: event.very_late_after_minutes ?? null,
+  registration_opens_at: event.registration_opens_at ?? null,
+  registration_closes_at: event.registration_closes_at ?? null,
+  min_team_size: event.min_team_size ?? null,
+  max_team_size: event.max_team_size ?? null,
+  certificate_template: event.certificate_template ?? null,
+  poster_url: event.poster_url ?? null,
+  updated_at: event.updated_at ?? event.created_at,
+  changed_fields: event.changed_fields ?? null,
+  cancelled_at: event.cancelled_at ?? null,
+  cancellation_reason: event.cancellation_reason ?? null,
+  qr_code_data: `event_${event.id}`
+})
+
+const fromRegistration = ({ created_at, ...registration }: Registration) => ({
+  ...registration,
+  user_id: registration.user_id || null,
+  answers: registration.answers ?? null,
+  team_id: registration.team_id ?? null,
+  student_id: registration.student_id ?? null,
+  walk_in: registration.walk_in ?? false,
+  qr_code_data: registration.qr_code_data ?? null,
+  backup_code: registration.backup_code ?? null,
+  registration_date: created_at,
+  promoted_at: registration.promoted_at ?? null,
+  transferred_from: registration.transferred_from ?? null,
+  transferred_at: registration.transferred_at ?? null
+})
+
+const fromAttendance = ({ checked_in_at, staff_id, staff_name, checked_out_at, check_out_staff_id, check_out_staff_name, ...attendance }: Attendance) => ({
+  ...attendance,
+  user_id: attendance.user_id || null,
+  check_in_time: checked_in_at,
+  checked_in_by: staff_id,
+  staff_name: staff_name ?? null,
+  check_out_time: checked_out_at ?? null,
+  checked_out_by: check_out_staff_id ?? null,
+  check_out_staff_name: check_out_staff_name ?? null
+})
+
+// Throw Supabase errors so every backend fails the same way
+const unwrap = <T>({ data, error }: { data: T | null; error: { message: string } | null }): T => {
+  if (error) {
+    throw new Error(error.message)
+  }
+  return data as T
 }
 
-export const checkInAttendee = async (registrationId: string, method: 'qr_scan' | 'backup_code', staffId: string) => {
-  return await supabase
-    .from('attendance')
-    .insert([{
-      registration_id: registrationId,
-      check_in_method: method,
-      checked_in_by: staffId
-    }])
-    .select()
-    .single()
+const uploadPoster = async (poster: Blob): Promise<string> => {
+  const path = `${Date.now()}_${createRandomCode(9).toLowerCase()}`
+  unwrap(await supabase.storage.from(POSTER_BUCKET).upload(path, poster, { contentType: poster.type }))
+  return supabase.storage.from(POSTER_BUCKET).getPublicUrl(path).data.publicUrl
 }
 
-export const getEventAttendance = async (eventId: string) => {
-  return await supabase
-    .from('attendance')
-    .select('*, registration:registrations!inner(*, user:users(*), event:events(*))')
-    .eq('registration.event_id', eventId)
+// Public URLs end with the object path inside the bucket
+const removeUploadedPoster = async (posterUrl: string) => {
+  const marker = `/${POSTER_BUCKET}/`
+  const index = posterUrl.indexOf(marker)
+  if (index !== -1) {
+    unwrap(await supabase.storage.from(POSTER_BUCKET).remove([posterUrl.slice(index + marker.length)]))
+  }
 }
 
-export const findRegistrationByQR = async (qrCode: string) => {
-  return await supabase
+// Loads a participant's registration, throwing if they may not cancel or transfer it
+const getOwnRegistration = async (registrationId: string, userId: string): Promise<Registration> => {
+  const row = unwrap<RegistrationRow | null>(await supabase
     .from('registrations')
-    .select('*, event:events(*), user:users(*)')
-    .eq('qr_code_data', qrCode)
-    .single()
+    .select('*')
+    .eq('id', registrationId)
+    .maybeSingle())
+  if (!row) {
+    throw new Error('Registration not found')
+  }
+  const registration = toRegistration(row)
+  const event = await supabaseRepository.getEventById(registration.event_id)
+  if (!event) {
+    throw new Error('Event not found')
+  }
+  const blocker = getSelfServiceBlocker(event, registration, userId, await supabaseRepository.isAttendeeCheckedIn(registrationId))
+  if (blocker) {
+    throw new Error(blocker)
+  }
+  return registration
 }
 
-export const findRegistrationByBackupCode = async (backupCode: string) => {
-  return await supabase
-    .from('registrations')
-    .select('*, event:events(*), user:users(*)')
-    .eq('backup_code', backupCode)
-    .single()
-}
\ No newline at end of file
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Database helpers
+export const supabaseRepository: DataRepository = {
+  async initialize() {
+    // Schema is managed by database_setup.sql
+  },
+
+  async createEvent(eventData, poster) {
+    const qr_code_data = `event_${Date.now()}_${createRandomCode(9).toLowerCase()}`
+    const poster_url = poster ? await uploadPoster(poster) : null
+
+    const row = unwrap<EventRow>(await supabase
+      .from('events')
+      .insert([{ ...withScheduleFromSessions(eventData), qr_code_data, poster_url }])
+      .select()
+      .single())
+    return toEvent(row)
+  },
+
+  async getEvents() {
+    const rows = unwrap<EventRow[]>(await supabase
+      .from('events')
+      .select('*')
+      .order('event_date', { ascending: true }))
+    return rows.map(toEvent)
+  },
+
+  async getEventById(eventId) {
+    const row = unwrap<EventRow | null>(await supabase
+      .from('events')
+      .select('*')
+      .eq('id', eventId)
+      .maybeSingle())
+    return row ? toEvent(row) : null
+  },
+
+  async updateEvent(eventId, updates, poster) {
+    const event = await supabaseRepository.getEventById(eventId)
+    if (!event) {
+      throw new Error('Event not found')
+    }
+
+    let poster_url = event.poster_url ?? null
+    if (poster !== undefined) {
+      poster_url = poster ? await uploadPoster(poster) : null
+      if (event.poster_url) {
+        await removeUploadedPoster(event.poster_url)
+      }
+    }
+
+    const changedFields = getChangedFields(event, updates)
+    const row = unwrap<EventRow>(await supabase
+      .from('events')
+      .update({
+        ...withScheduleFromSessions(updates),
+        // undefined is dropped from the request, so clearing the capacity needs an explicit null
+        ...('max_capacity' in updates ? { max_capacity: updates.max_capacity ?? null } : {}),
+        ...('cancellation_cutoff_hours' in updates ? { cancellation_cutoff_hours: updates.cancellation_cutoff_hours ?? null } : {}),
+        ...('sessions' in updates ? { sessions: updates.sessions ?? null } : {}),
+        ...('questions' in updates ? { questions: updates.questions ?? null } : {}),
+        ...('min_attendance_minutes' in updates ? { min_attendance_minutes: updates.min_attendance_minutes ?? null } : {}),
+        ...('late_grace_minutes' in updates ? { late_grace_minutes: updates.late_grace_minutes ?? null } : {}),
+        ...('very_late_after_minutes' in updates ? { very_late_after_minutes: updates.very_late_after_minutes ?? null } : {}),
+        ...('registration_opens_at' in updates ? { registration_opens_at: updates.registration_opens_at ?? null } : {}),
+        ...('registration_closes_at' in updates ? { registration_closes_at: updates.registration_closes_at ?? null } : {}),
+        ...('min_team_size' in updates ? { min_team_size: updates.min_team_size ?? null } : {}),
+        ...('max_team_size' in updates ? { max_team_size: updates.max_team_size ?? null } : {}),
+        poster_url,
+        // A poster-only edit keeps the previous notice for participants
+        changed_fields: changedFields.length > 0 ? changedFields : event.changed_fields ?? null
+      })
+      .eq('id', eventId)
+      .select()
+      .single())
+
+    // A larger capacity lets waitlisted participants in
+    if (row.max_capacity !== (event.max_capacity ?? null)) {
+      unwrap(await supabase.rpc('promote_waitlisted', { p_event_id: eventId }))
+    }
+    return toEvent(row)
+  },
+
+  async setEventStatus(eventId, status) {
+    // Cancelled rows don't match, so a cancellation can't be undone by a stale tab
+    const row = unwrap<EventRow | null>(await supabase
+      .from('events')
+      .update({ status })
+      .eq('id', eventId)
+      .neq('status', 'cancelled')
+      .select()
+      .maybeSingle())
+    if (!row) {
+      throw new Error('This event has been cancelled')
+    }
+    return toEvent(row)
+  },
+
+  async cancelEvent(eventId, reason) {
+    const row = unwrap<EventRow>(await supabase
+      .from('events')
+      .update({ status: 'cancelled', cancelled_at: new Date().toISOString(), cancellation_reason: reason || null })
+      .eq('id', eventId)
+      .select()
+      .single())
+    return toEvent(row)
+  },
+
+  async deleteEvent(eventId) {
+    // Registrations, teams, attendance and certificates cascade; support messages only hold the id as text
+    unwrap(await supabase.from('support_messages').delete().eq('event_id', eventId))
+    const rows = unwrap<EventRow[]>(await supabase
+      .from('events')
+      .delete()
+      .eq('id', eventId)
+      .select())
+    if (rows[0]?.poster_url) {
+      await removeUploadedPoster(rows[0].poster_url)
+    }
+    return rows.length > 0
+  },
+
+  async registerForEvent(eventId, userId, userName, userEmail, answers, studentId) {
+    const event = await supabaseRepository.getEventById(eventId)
+    if (!event) {
+      throw new Error('Event not found')
+    }
+
+    // Admins importing a roster register other people; the database links their account by email
+    const { data: { session } } = await supabase.auth.getSession()
+    const registeringSelf = session?.user.id === userId
+
+    // The function checks capacity under a row lock and issues the codes unless it waitlists;
+    // the ticket is signed in the database because participants never see the event's secret
+    const { data, error } = await supabase
+      .rpc('register_for_event', {
+        p_event_id: eventId,
+        p_user_id: registeringSelf ? userId : null,
+        p_user_name: userName,
+        p_user_email: userEmail,
+        p_answers: validateAnswers(event, answers),
+        p_student_id: studentId || null
+      })
+      .single<RegistrationRow>()
+
+    // 23505 = unique_violation on (event_id, user_id)
+    if (error?.code === '23505') {
+      throw new Error('Already registered for this event')
+    }
+    return toRegistration(unwrap<RegistrationRow>({ data, error }))
+  },
+
+  async createTeam(eventId, teamName, maxSize, userId, userName, userEmail, answers) {
+    const event = await supabaseRepository.getEventById(eventId)
+    if (!event) {
+      throw new Error('Event not found')
+    }
+
+    // The function creates the team and registers its leader in one transaction
+    const { data, error } = await supabase.rpc('create_team', {
+      p_event_id: eventId,
+      p_name: teamName.trim(),
+      p_max_size: maxSize,
+      p_invite_code: createInviteCode(),
+      p_user_id: userId,
+      p_user_name: userName,
+      p_user_email: userEmail,
+      p_answers: validateAnswers(event, answers)
+    })
+
+    // 23505 = unique_violation on (event_id, user_id), (event_id, name) or (event_id, invite_code)
+    if (error?.code === '23505') {
+      throw new Error(error.message.includes('registrations')
+        ? 'Already registered for this event'
+        : 'A team with this name already exists')
+    }
+    const result = unwrap<{ team: TeamRow; registration: RegistrationRow }>({ data, error })
+    return { team: toTeam(result.team), registration: toRegistration(result.registration) }
+  },
+
+  async joinTeam(eventId, inviteCode, userId, userName, userEmail, answers) {
+    const event = await supabaseRepository.getEventById(eventId)
+    if (!event) {
+      throw new Error('Event not found')
+    }
+
+    // Runs as definer because participants cannot read teams they are not in yet
+    const { data, error } = await supabase
+      .rpc('join_team', {
+        p_event_id: eventId,
+        p_invite_code: normalizeInviteCode(inviteCode),
+        p_user_id: userId,
+        p_user_name: userName,
+        p_user_email: userEmail,
+        p_answers: validateAnswers(event, answers)
+      })
+      .single<RegistrationRow>()
+
+    if (error?.code === '23505') {
+      throw new Error('Already registered for this event')
+    }
+    return toRegistration(unwrap<RegistrationRow>({ data, error }))
+  },
+
+  async getTeams() {
+    const rows = unwrap<TeamRow[]>(await supabase.from('teams').select('*'))
+    return rows.map(toTeam)
+  },
+
+  async getEventTeams(eventId) {
+    const rows = unwrap<TeamRow[]>(await supabase
+      .from('teams')
+      .select('*')
+      .eq('event_id', eventId))
+    return rows.map(toTeam)
+  },
+
+  async getTeam(teamId) {
+    const row = unwrap<TeamRow | null>(await supabase
+      .from('teams')
+      .select('*')
+      .eq('id', teamId)
+      .maybeSingle())
+    return row ? toTeam(row) : null
+  },
+
+  async getRegistrations() {
+    const rows = unwrap<RegistrationRow[]>(await supabase.from('registrations').select('*'))
+    return rows.map(toRegistration)
+  },
+
+  async getEventRegistrations(eventId) {
+    const rows = unwrap<RegistrationRow[]>(await supabase
+      .from('registrations')
+      .select('*')
+      .eq('event_id', eventId))
+    return rows.map(toRegistration)
+  },
+
+  async checkRegistrationStatus(eventId, userId) {
+    const row = unwrap<RegistrationRow | null>(await supabase
+      .from('registrations')
+      .select('*')
+      .eq('event_id', eventId)
+      .eq('user_id', userId)
+      .maybeSingle())
+    return row ? toRegistration(row) : null
+  },
+
+  async deleteRegistration(registrationId) {
+    const row = unwrap<RegistrationRow | null>(await supabase
+      .from('registrations')
+      .select('id')
+      .eq('id', registrationId)
+      .maybeSingle())
+    if (!row) {
+      return false
+    }
+    // Only cancel_registration may delete registrations; attendance rows and certificates are removed by ON DELETE CASCADE
+    unwrap(await supabase.rpc('cancel_registration', { p_registration_id: registrationId }))
+    return true
+  },
+
+  async cancelRegistration(registrationId, userId) {
+    await getOwnRegistration(registrationId, userId)
+    // Participants cannot promote others' waitlisted rows, so the database deletes and promotes in one call
+    unwrap(await supabase.rpc('cancel_registration', { p_registration_id: registrationId }))
+  },
+
+  async transferRegistration(registrationId, userId, toEmail, toName) {
+    const registration = await getOwnRegistration(registrationId, userId)
+    if (registration.status === 'waitlisted') {
+      throw new Error('Waitlisted registrations cannot be transferred')
+    }
+    const emailValidation = validateEmail(toEmail.trim())
+    if (!emailValidation.valid) {
+      throw new Error(emailValidation.error)
+    }
+
+    // The function finds the recipient's account and swaps the owner and codes in one step
+    const row = unwrap<RegistrationRow>(await supabase
+      .rpc('transfer_registration', {
+        p_registration_id: registrationId,
+        p_to_email: toEmail.trim().toLowerCase(),
+        p_to_name: toName.trim()
+      })
+      .single<RegistrationRow>())
+    return toRegistration(row)
+  },
+
+  async getWaitlistPosition(registrationId) {
+    // Participants can only read their own registration, so the database counts the ones ahead
+    return unwrap<number | null>(await supabase.rpc('waitlist_position', { p_registration_id: registrationId }))
+  },
+
+  async findRegistrationByQR(qrData) {
+    const row = unwrap<RegistrationRow | null>(await supabase
+      .from('registrations')
+      .select('*')
+      .eq('qr_code_data', qrData)
+      .maybeSingle())
+    return row ? toRegistration(row) : null
+  },
+
+  async findRegistrationByBackupCode(backupCode) {
+    const row = unwrap<RegistrationRow | null>(await supabase
+      .from('registrations')
+      .select('*')
+      .eq('backup_code', normalizeBackupCode(backupCode))
+      .maybeSingle())
+    return row ? toRegistration(row) : null
+  },
+
+  async checkInAttendee(registrationId, sessionId, method, staffId, staffName) {
+    // The check_in_attendee RPC inserts against UNIQUE(registration_id, session_id) in one
+    // statement and returns the existing row to the scanner that lost the race
+    const result = unwrap<{ inserted: boolean; attendance: AttendanceRow }>(await supabase.rpc('check_in_attendee', {
+      p_registration_id: registrationId,
+      p_session_id: sessionId,
+      p_method: method,
+      p_staff_id: staffId,
+      p_staff_name: staffName
+    }))
+    return { success: result.inserted, attendance: toAttendance(result.attendance) }
+  },
+
+  async registerWalkIn(eventId, sessionId, details, staffId, staffName) {
+    const email = details.email.trim().toLowerCase()
+    const emailValidation = validateEmail(email)
+    if (!emailValidation.valid) {
+      throw new Error(emailValidation.error)
+    }
+    if (!details.name.trim()) {
+      throw new Error('Name is required')
+    }
+
+    // The function links an existing account by email, enforces capacity and checks in atomically
+    const result = unwrap<{ registration: RegistrationRow; attendance: AttendanceRow }>(await supabase.rpc('register_walk_in', {
+      p_event_id: eventId,
+      p_session_id: sessionId,
+      p_user_email: email,
+      p_user_name: details.name.trim(),
+      p_student_id: details.studentId?.trim() || null,
+      p_staff_id: staffId,
+      p_staff_name: staffName
+    }))
+    return { registration: toRegistration(result.registration), attendance: toAttendance(result.attendance) }
+  },
+
+  async checkOutAttendee(registrationId, sessionId, staffId, staffName) {
+    // check_out_attendee only stamps a row whose check_out_time is still NULL
+    const result = unwrap<{ updated: boolean; attendance: AttendanceRow }>(await supabase.rpc('check_out_attendee', {
+      p_registration_id: registrationId,
+      p_session_id: sessionId,
+      p_staff_id: staffId,
+      p_staff_name: staffName
+    }))
+    return { success: result.updated, attendance: toAttendance(result.attendance) }
+  },
+
+  async getAttendances() {
+    const rows = unwrap<AttendanceRow[]>(await supabase.from('attendance').select('*'))
+    return rows.map(toAttendance)
+  },
+
+  async getEventAttendances(eventId) {
+    const rows = unwrap<AttendanceRow[]>(await supabase
+      .from('attendance')
+      .select('*')
+      .eq('event_id', eventId))
+    return rows.map(toAttendance)
+  },
+
+  async isAttendeeCheckedIn(registrationId, sessionId) {
+    let query = supabase
+      .from('attendance')
+      .select('id')
+      .eq('registration_id', registrationId)
+    if (sessionId) {
+      query = query.eq('session_id', sessionId)
+    }
+    const rows = unwrap<{ id: string }[]>(await query.limit(1))
+    return rows.length > 0
+  },
+
+  async getEventStats(eventId) {
+    const [event, registrations, attendances, seats] = await Promise.all([
+      supabaseRepository.getEventById(eventId),
+      supabaseRepository.getEventRegistrations(eventId),
+      supabaseRepository.getEventAttendances(eventId),
+      supabase.rpc('event_seat_counts', { p_event_id: eventId })
+    ])
+    if (!event) {
+      throw new Error('Event not found')
+    }
+    // Participants only see their own registration; the seat counts come from the database for everyone
+    const { confirmed, waitlisted } = unwrap<{ confirmed: number; waitlisted: number }>(seats)
+    return {
+      ...calculateEventStats(event, registrations, attendances),
+      totalRegistrations: confirmed,
+      totalWaitlisted: waitlisted
+    }
+  },
+
+  async issueCertificates(eventId, template) {
+    const templateError = getCertificateTemplateError(template)
+    if (templateError) {
+      throw new Error(templateError)
+    }
+    unwrap(await supabase.from('events').update({ certificate_template: template }).eq('id', eventId))
+
+    const [registrations, attendances, issued] = await Promise.all([
+      supabaseRepository.getEventRegistrations(eventId),
+      supabaseRepository.getEventAttendances(eventId),
+      supabaseRepository.getEventCertificates(eventId)
+    ])
+    const attended = new Set(attendances.map(attendance => attendance.registration_id))
+    const pending = registrations
+      .filter(registration => attended.has(registration.id) && !issued.some(certificate => certificate.registration_id === registration.id))
+      .map(registration => ({
+        event_id: eventId,
+        registration_id: registration.id,
+        user_id: registration.user_id || null,
+        recipient_name: registration.user_name,
+        verification_code: createVerificationCode()
+      }))
+    if (pending.length > 0) {
+      // Certificates another admin issued in the meantime are kept as they are
+      unwrap(await supabase.from('certificates').upsert(pending, { onConflict: 'registration_id', ignoreDuplicates: true }))
+    }
+    return supabaseRepository.getEventCertificates(eventId)
+  },
+
+  async getCertificates() {
+    const rows = unwrap<CertificateRow[]>(await supabase.from('certificates').select('*'))
+    return rows.map(toCertificate)
+  },
+
+  async getEventCertificates(eventId) {
+    const rows = unwrap<CertificateRow[]>(await supabase
+      .from('certificates')
+      .select('*')
+      .eq('event_id', eventId))
+    return rows.map(toCertificate)
+  },
+
+  async getEventSigningKey(eventId) {
+    return unwrap<string>(await supabase.rpc('get_signing_secret', { p_event_id: eventId }))
+  },
+
+  async getSigningKeys() {
+    return unwrap<SigningKey[]>(await supabase.from('signing_keys').select('*'))
+  },
+
+  async verifyCertificate(code) {
+    return unwrap<CertificateVerification | null>(await supabase.rpc('verify_certificate', {
+      p_code: normalizeVerificationCode(code)
+    }))
+  },
+
+  async createSupportMessage(eventId, userId, userName, userEmail, message) {
+    const row = unwrap<SupportMessageRow>(await supabase
+      .from('support_messages')
+      .insert([{
+        event_id: eventId,
+        user_id: userId,
+        user_name: userName,
+        user_email: userEmail,
+        message
+      }])
+      .select()
+      .single())
+    return toSupportMessage(row)
+  },
+
+  async getSupportMessages() {
+    const rows = unwrap<SupportMessageRow[]>(await supabase.from('support_messages').select('*'))
+    return rows.map(toSupportMessage)
+  },
+
+  async getEventSupportMessages(eventId) {
+    const rows = unwrap<SupportMessageRow[]>(await supabase
+      .from('support_messages')
+      .select('*')
+      .eq('event_id', eventId))
+    return rows.map(toSupportMessage)
+  },
+
+  async resolveSupportMessage(messageId, resolvedBy) {
+    const rows = unwrap<SupportMessageRow[]>(await supabase
+      .from('support_messages')
+      .update({ status: 'resolved', resolved_at: new Date().toISOString(), resolved_by: resolvedBy })
+      .eq('id', messageId)
+      .select())
+    return rows.length > 0
+  },
+
+  async restoreSnapshot(snapshot, posters, mode) {
+    // Browser backends use `${Date.now()}_xxx` ids, which the UUID columns reject; stop before anything is written
+    const records: { id: string }[] = Object.values(snapshot).flat()
+    if (records.some(record => !UUID_PATTERN.test(record.id))) {
+      throw new Error('This backup came from the offline backend and cannot be restored to Supabase')
+    }
+
+    if (mode === 'replace') {
+      // Children first; registrations and attendance would cascade anyway
+      for (const table of ['signing_keys', 'certificates', 'attendance', 'registrations', 'teams', 'events', 'support_messages']) {
+        unwrap(await supabase.from(table).delete().not('id', 'is', null))
+      }
+    } else {
+      // UNIQUE(event_id, user_id) would refuse the backup's registration; attendance and certificates cascade
+      const displaced = getDisplacedRegistrations(await supabaseRepository.getRegistrations(), snapshot.registrations)
+      if (displaced.length > 0) {
+        unwrap(await supabase.from('registrations').delete().in('id', displaced.map(registration => registration.id)))
+      }
+    }
+
+    const events = await Promise.all(snapshot.events.map(async event => {
+      const poster = posters[event.id]
+      return fromEvent(poster ? { ...event, poster_url: await uploadPoster(poster) } : event)
+    }))
+
+    unwrap(await supabase.from('events').upsert(events))
+    // Keep the backup's secrets, which signed the tickets being restored
+    unwrap(await supabase.from('signing_keys').upsert(snapshot.signing_keys, { onConflict: 'event_id' }))
+    unwrap(await supabase.from('teams').upsert(snapshot.teams))
+    unwrap(await supabase.from('registrations').upsert(snapshot.registrations.map(fromRegistration)))
+    unwrap(await supabase.from('attendance').upsert(snapshot.attendances.map(fromAttendance)))
+    unwrap(await supabase.from('support_messages').upsert(snapshot.support_messages))
+    unwrap(await supabase.from('certificates').upsert(snapshot.certificates.map(certificate => ({
+      ...certificate,
+      user_id: certificate.user_id || null
+    }))))
+  },
+
+  async clearAllData() {
+    throw new Error('Clearing all data is not supported on the Supabase backend')
+  }
+}
@@ -0,0 +1,142 @@
+// Downloadable tickets, so participants can show their code without a connection.
+// One layout is drawn both as SVG (also rasterized to PNG) and as PDF.
+import { Event, Registration } from '@/lib/models'
+import { BLACK, PdfColor, PdfFont, createPdf, truncateText, wrapText } from '@/lib/pdf'
+import { qrCodePath } from '@/lib/qr'
+import { eventFileSlug } from '@/lib/export'
+
+export type TicketFormat = 'png' | 'svg' | 'pdf'
+
+export const TICKET_FORMAT_LABELS: Record<TicketFormat, string> = {
+  png: 'PNG image',
+  svg: 'SVG image',
+  pdf: 'PDF'
+}
+
+// Points in the PDF, pixels in the SVG
+const WIDTH = 360
+const HEIGHT = 560
+const MARGIN = 24
+const QR_SIZE = 200
+const PNG_SCALE = 3
+
+const WHITE: PdfColor = [1, 1, 1]
+const GRAY: PdfColor = [0.4, 0.4, 0.4]
+const ACCENT: PdfColor = [0.86, 0.15, 0.47]
+
+type TicketItem =
+  | { type: 'rect'; x: number; top: number; width: number; height: number; fill: PdfColor }
+  | { type: 'text'; value: string; x: number; top: number; size: number; font: PdfFont; color: PdfColor; align: 'left' | 'center' }
+  | { type: 'qr'; value: string; x: number; top: number; size: number }
+
+const layoutTicket = (event: Event, registration: Registration): TicketItem[] => {
+  const center = WIDTH / 2
+  const textWidth = WIDTH - MARGIN * 2
+  const items: TicketItem[] = [
+    { type: 'rect', x: 0, top: 0, width: WIDTH, height: HEIGHT, fill: WHITE },
+    { type: 'rect', x: 0, top: 0, width: WIDTH, height: 44, fill: ACCENT },
+    { type: 'text', value: 'SWIFTATTEND · EVENT TICKET', x: center, top: 27, size: 11, font: 'bold', color: WHITE, align: 'center' }
+  ]
+
+  let top = 80
+  for (const line of wrapText(event.name, textWidth, 18, 'bold').slice(0, 2)) {
+    items.push({ type: 'text', value: line, x: center, top, size: 18, font: 'bold', color: BLACK, align: 'center' })
+    top += 22
+  }
+  const date = new Date(event.event_date).toLocaleDateString('en-US', { weekday: 'short', year: 'numeric', month: 'long', day: 'numeric' })
+  for (const detail of [date, `${event.start_time} - ${event.end_time}`, event.location]) {
+    items.push({ type: 'text', value: truncateText(detail, textWidth, 11), x: center, top, size: 11, font: 'regular', color: GRAY, align: 'center' })
+    top += 16
+  }
+
+  items.push({ type: 'qr', value: registration.qr_code_data ?? '', x: center - QR_SIZE / 2, top: top + 10, size: QR_SIZE })
+  top += QR_SIZE + 44
+
+  items.push(
+    { type: 'text', value: 'ATTENDEE', x: center, top, size: 8, font: 'bold', color: GRAY, align: 'center' },
+    { type: 'text', value: truncateText(registration.user_name, textWidth, 16, 'bold'), x: center, top: top + 20, size: 16, font: 'bold', color: BLACK, align: 'center' },
+    { type: 'text', value: 'BACKUP CODE', x: center, top: top + 48, size: 8, font: 'bold', color: GRAY, align: 'center' },
+    { type: 'text', value: registration.backup_code ?? '', x: center, top: top + 72, size: 22, font: 'bold', color: ACCENT, align: 'center' },
+    { type: 'text', value: "Use the backup code if the QR code won't scan", x: center, top: HEIGHT - 20, size: 8, font: 'regular', color: GRAY, align: 'center' }
+  )
+  return items
+}
+
+const escapeXml = (text: string) => text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`)
+
+const svgColor = ([r, g, b]: PdfColor) => `rgb(${Math.round(r * 255)},${Math.round(g * 255)},${Math.round(b * 255)})`
+
+const renderSvg = (items: TicketItem[]) => {
+  const elements = items.map(item => {
+    if (item.type === 'rect') {
+      return `<rect x="${item.x}" y="${item.top}" width="${item.width}" height="${item.height}" fill="${svgColor(item.fill)}"/>`
+    }
+    if (item.type === 'text') {
+      const anchor = item.align === 'center' ? 'middle' : 'start'
+      const weight = item.font === 'bold' ? 'bold' : 'normal'
+      return `<text x="${item.x}" y="${item.top}" font-size="${item.size}" font-weight="${weight}" fill="${svgColor(item.color)}" text-anchor="${anchor}">${escapeXml(item.value)}</text>`
+    }
+    const { size, path } = qrCodePath(item.value)
+    return `<g transform="translate(${item.x} ${item.top}) scale(${item.size / size})"><path d="${path}" fill="#000000" shape-rendering="crispEdges"/></g>`
+  })
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}" font-family="Helvetica, Arial, sans-serif">`,
+    ...elements,
+    '</svg>'
+  ].join('\n')
+}
+
+const renderPdf = (items: TicketItem[], title: string) => {
+  const pdf = createPdf({ width: WIDTH, height: HEIGHT })
+  for (const item of items) {
+    if (item.type === 'rect') {
+      pdf.rect(item.x, item.top, item.width, item.height, { fill: item.fill })
+    } else if (item.type === 'text') {
+      pdf.text(item.value, item.x, item.top, { size: item.size, font: item.font, color: item.color, align: item.align })
+    } else {
+      pdf.qrCode(item.value, item.x, item.top, item.size)
+    }
+  }
+  return pdf.toBlob(title)
+}
+
+const svgToPng = (svg: string): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }))
+    const image = new Image()
+    image.onload = () => {
+      URL.revokeObjectURL(url)
+      const canvas = document.createElement('canvas')
+      canvas.width = WIDTH * PNG_SCALE
+      canvas.height = HEIGHT * PNG_SCALE
+      const context = canvas.getContext('2d')
+      if (!context) {
+        reject(new Error('Could not create the ticket image'))
+        return
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height)
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not create the ticket image')), 'image/png')
+    }
+    image.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error('Could not create the ticket image'))
+    }
+    image.src = url
+  })
+}
+
+export const createTicketFile = async (format: TicketFormat, event: Event, registration: Registration): Promise<Blob> => {
+  if (!registration.qr_code_data) {
+    throw new Error('This registration has no ticket yet')
+  }
+  const items = layoutTicket(event, registration)
+  if (format === 'pdf') {
+    return renderPdf(items, `${event.name} - Ticket`)
+  }
+  const svg = renderSvg(items)
+  return format === 'svg' ? new Blob([svg], { type: 'image/svg+xml' }) : svgToPng(svg)
+}
+
+export const ticketFilename = (event: Event, format: TicketFormat) => {
+  return `${eventFileSlug(event)}-ticket.${format}`
+}
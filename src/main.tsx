@@ -1,5 +1,12 @@
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { repository } from './lib/repository';
 import './index.css';
 
-createRoot(document.getElementById('root')!).render(<App />);
+// Upgrade persisted data before any page reads it; a failed migration must not block the app
+repository
+  .initialize()
+  .catch((err) => console.error('Failed to prepare data storage:', err))
+  .finally(() => {
+    createRoot(document.getElementById('root')!).render(<App />);
+  });
@@ -1,7 +1,8 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, Fragment } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { User } from '@/lib/auth'
-import { createEvent, getEvents, getEventRegistrations, deleteRegistration, getAllSupportMessages, Event, Registration } from '@/lib/storage'
+import { repository } from '@/lib/repository'
+import { Event, EventSession, EventStats, Attendance, Registration, DEFAULT_CANCELLATION_CUTOFF_HOURS, DEFAULT_SESSION_ID, createSessionId, getEventSessions, getTimeOnSiteMinutes, isPartialAttendance, formatDuration, getArrivalStatus, ArrivalStatus, ARRIVAL_STATUS_LABELS, DEFAULT_LATE_GRACE_MINUTES, DEFAULT_VERY_LATE_AFTER_MINUTES, PublicationStatus, EVENT_STATUS_LABELS, RegistrationQuestion, formatAnswer, Team, TeamSummary, summarizeTeams, isTeamEvent } from '@/lib/models'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -11,43 +12,105 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Badge } from '@/components/ui/badge'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { Calendar, Clock, MapPin, Users, Plus, Loader2, Trash2, Eye, Upload } from 'lucide-react'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { Calendar, Clock, MapPin, Users, Plus, Loader2, Trash2, Eye, Upload, Pencil, Ban, FileText } from 'lucide-react'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import SupportChat from '@/components/SupportChat'
+import BackupRestoreDialog from '@/components/BackupRestoreDialog'
+import RosterImportDialog from '@/components/RosterImportDialog'
+import ExportDialog from '@/components/ExportDialog'
+import CertificatesDialog from '@/components/CertificatesDialog'
+import RegistrationQuestionsEditor from '@/components/RegistrationQuestionsEditor'
+import { useDataChanges } from '@/hooks/use-data-changes'
+import { createAttendanceReport, attendanceReportFilename } from '@/lib/report'
+import { downloadBlob } from '@/lib/download'
 
 interface DashboardProps {
   user: User
 }
 
+const ARRIVAL_BADGE_CLASSES: Record<ArrivalStatus, string> = {
+  on_time: 'bg-green-500/20 text-green-400 border-green-500/30',
+  late: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
+  very_late: 'bg-red-500/20 text-red-400 border-red-500/30'
+}
+
+const PUBLICATION_STATUSES: PublicationStatus[] = ['draft', 'published', 'registration_closed', 'archived']
+
+// datetime-local inputs take local time without a timezone suffix
+const toDateTimeLocal = (iso?: string) => {
+  if (!iso) return ''
+  const date = new Date(iso)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+
+const emptyEventForm = {
+  name: '',
+  description: '',
+  event_date: '',
+  start_time: '',
+  end_time: '',
+  location: '',
+  max_capacity: '',
+  cancellation_cutoff_hours: '',
+  min_attendance_minutes: '',
+  late_grace_minutes: '',
+  very_late_after_minutes: '',
+  registration_opens_at: '',
+  registration_closes_at: '',
+  // Both empty for individual registration
+  min_team_size: '',
+  max_team_size: '',
+  // Only used when creating; existing events change status from their card
+  publish: false,
+  // Empty for a single-session event
+  sessions: [] as EventSession[],
+  questions: [] as RegistrationQuestion[],
+  poster: null as File | null
+}
+
 export default function Dashboard({ user }: DashboardProps) {
   const navigate = useNavigate()
   const [events, setEvents] = useState<Event[]>([])
   const [loading, setLoading] = useState(true)
   const [createDialogOpen, setCreateDialogOpen] = useState(false)
+  // Set while the create dialog is editing an existing event
+  const [editingEvent, setEditingEvent] = useState<Event | null>(null)
+  const [existingPosterUrl, setExistingPosterUrl] = useState<string | null>(null)
+  const [cancelEventTarget, setCancelEventTarget] = useState<Event | null>(null)
+  const [cancellationReason, setCancellationReason] = useState('')
+  const [cancelling, setCancelling] = useState(false)
   const [registrationsDialogOpen, setRegistrationsDialogOpen] = useState(false)
   const [selectedEvent, setSelectedEvent] = useState<Event | null>(null)
   const [eventRegistrations, setEventRegistrations] = useState<Registration[]>([])
+  const [eventAttendances, setEventAttendances] = useState<Attendance[]>([])
+  const [eventTeams, setEventTeams] = useState<Team[]>([])
+  const [selectedEventStats, setSelectedEventStats] = useState<EventStats | null>(null)
   const [creating, setCreating] = useState(false)
+  const [generatingReport, setGeneratingReport] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState<string | null>(null)
   const [activeTab, setActiveTab] = useState('events')
   const [supportMessageCount, setSupportMessageCount] = useState(0)
-  const [formData, setFormData] = useState({
-    name: '',
-    description: '',
-    event_date: '',
-    start_time: '',
-    end_time: '',
-    location: '',
-    max_capacity: '',
-    poster: null as File | null
-  })
+  const [registrationCounts, setRegistrationCounts] = useState<Record<string, number>>({})
+  const [waitlistCounts, setWaitlistCounts] = useState<Record<string, number>>({})
+  const [formData, setFormData] = useState(emptyEventForm)
 
   // Load events and support message count
-  const loadEvents = () => {
+  const loadEvents = async () => {
     try {
-      const allEvents = getEvents()
+      // One read of all registrations, counted per event here, instead of stats for every event
+      const [allEvents, registrations] = await Promise.all([repository.getEvents(), repository.getRegistrations()])
+      const confirmed: Record<string, number> = {}
+      const waitlisted: Record<string, number> = {}
+      for (const registration of registrations) {
+        const counts = registration.status === 'confirmed' ? confirmed : waitlisted
+        counts[registration.event_id] = (counts[registration.event_id] ?? 0) + 1
+      }
       setEvents(allEvents)
+      setRegistrationCounts(Object.fromEntries(allEvents.map(event => [event.id, confirmed[event.id] ?? 0])))
+      setWaitlistCounts(Object.fromEntries(allEvents.map(event => [event.id, waitlisted[event.id] ?? 0])))
       setError(null)
     } catch (err) {
       setError('Failed to load events')
@@ -57,9 +120,9 @@ export default function Dashboard({ user }: DashboardProps) {
     }
   }
 
-  const loadSupportMessageCount = () => {
+  const loadSupportMessageCount = async () => {
     try {
-      const messages = getAllSupportMessages()
+      const messages = await repository.getSupportMessages()
       const openMessages = messages.filter(msg => msg.status === 'open')
       setSupportMessageCount(openMessages.length)
     } catch (err) {
@@ -72,24 +135,105 @@ export default function Dashboard({ user }: DashboardProps) {
     loadSupportMessageCount()
   }, [])
 
+  // Stay in sync with check-ins, registrations and support messages from other tabs
+  useDataChanges(async (change) => {
+    if (change.type === 'support_message_created' || change.type === 'support_message_resolved') {
+      loadSupportMessageCount()
+      return
+    }
+
+    // Check-ins and certificates change neither the event list nor its counts; only the open report needs them
+    const affectsEventList = change.type !== 'attendance_recorded' && change.type !== 'attendance_checked_out' && change.type !== 'certificates_issued'
+    if (affectsEventList) {
+      await loadEvents()
+    }
+    if (change.type === 'data_cleared' || change.type === 'data_restored' || change.type === 'event_deleted') {
+      loadSupportMessageCount()
+    }
+    if (change.type === 'event_deleted' && selectedEvent?.id === change.eventId) {
+      setRegistrationsDialogOpen(false)
+      setSelectedEvent(null)
+    } else if (selectedEvent && (!('eventId' in change) || change.eventId === selectedEvent.id)) {
+      await loadEventReport(selectedEvent.id)
+    }
+  })
+
+  // Registrations and per-session attendance for the registrations dialog
+  const loadEventReport = async (eventId: string) => {
+    const [registrations, attendances, stats, teams] = await Promise.all([
+      repository.getEventRegistrations(eventId),
+      repository.getEventAttendances(eventId),
+      repository.getEventStats(eventId),
+      repository.getEventTeams(eventId)
+    ])
+    setEventRegistrations(registrations)
+    setEventAttendances(attendances)
+    setEventTeams(teams)
+    setSelectedEventStats(stats)
+  }
+
+  const openCreateDialog = () => {
+    setEditingEvent(null)
+    setExistingPosterUrl(null)
+    setFormData(emptyEventForm)
+    setCreateDialogOpen(true)
+  }
+
+  const openEditDialog = (event: Event) => {
+    setEditingEvent(event)
+    setExistingPosterUrl(event.poster_url || null)
+    setFormData({
+      name: event.name,
+      description: event.description || '',
+      event_date: event.event_date,
+      start_time: event.start_time,
+      end_time: event.end_time,
+      location: event.location,
+      max_capacity: event.max_capacity ? String(event.max_capacity) : '',
+      cancellation_cutoff_hours: event.cancellation_cutoff_hours !== undefined ? String(event.cancellation_cutoff_hours) : '',
+      min_attendance_minutes: event.min_attendance_minutes ? String(event.min_attendance_minutes) : '',
+      late_grace_minutes: event.late_grace_minutes !== undefined ? String(event.late_grace_minutes) : '',
+      very_late_after_minutes: event.very_late_after_minutes !== undefined ? String(event.very_late_after_minutes) : '',
+      registration_opens_at: toDateTimeLocal(event.registration_opens_at),
+      registration_closes_at: toDateTimeLocal(event.registration_closes_at),
+      min_team_size: event.min_team_size ? String(event.min_team_size) : '',
+      max_team_size: event.max_team_size ? String(event.max_team_size) : '',
+      publish: false,
+      sessions: event.sessions?.length ? getEventSessions(event) : [],
+      questions: event.questions ?? [],
+      poster: null
+    })
+    setCreateDialogOpen(true)
+  }
+
   const handleCreateEvent = async (e: React.FormEvent) => {
     e.preventDefault()
+    if (formData.registration_opens_at && formData.registration_closes_at &&
+      new Date(formData.registration_closes_at) <= new Date(formData.registration_opens_at)) {
+      setError('Registration must close after it opens')
+      return
+    }
+    if (formData.min_team_size && !formData.max_team_size) {
+      setError('Set a maximum team size for team events')
+      return
+    }
+    if (formData.min_team_size && parseInt(formData.min_team_size) > parseInt(formData.max_team_size)) {
+      setError('The minimum team size cannot be larger than the maximum')
+      return
+    }
+    const questions = formData.questions.map(question => question.type === 'select'
+      ? { ...question, options: question.options?.filter(Boolean) }
+      : question)
+    if (questions.some(question => question.type === 'select' && !question.options?.length)) {
+      setError('Dropdown questions need at least one option')
+      return
+    }
+
     setCreating(true)
     setError(null)
     setSuccess(null)
 
     try {
-      let posterUrl = ''
-      
-      // Handle poster upload (convert to base64 for localStorage)
-      if (formData.poster) {
-        const reader = new FileReader()
-        posterUrl = await new Promise((resolve) => {
-          reader.onload = () => resolve(reader.result as string)
-          reader.readAsDataURL(formData.poster!)
-        })
-      }
-
       const eventData = {
         name: formData.name,
         description: formData.description,
@@ -98,40 +242,112 @@ export default function Dashboard({ user }: DashboardProps) {
         end_time: formData.end_time,
         location: formData.location,
         max_capacity: formData.max_capacity ? parseInt(formData.max_capacity) : undefined,
-        poster_url: posterUrl,
-        created_by: user.id
+        cancellation_cutoff_hours: formData.cancellation_cutoff_hours ? parseInt(formData.cancellation_cutoff_hours) : undefined,
+        min_attendance_minutes: formData.min_attendance_minutes ? parseInt(formData.min_attendance_minutes) : undefined,
+        late_grace_minutes: formData.late_grace_minutes ? parseInt(formData.late_grace_minutes) : undefined,
+        very_late_after_minutes: formData.very_late_after_minutes ? parseInt(formData.very_late_after_minutes) : undefined,
+        registration_opens_at: formData.registration_opens_at ? new Date(formData.registration_opens_at).toISOString() : undefined,
+        registration_closes_at: formData.registration_closes_at ? new Date(formData.registration_closes_at).toISOString() : undefined,
+        min_team_size: formData.min_team_size ? parseInt(formData.min_team_size) : undefined,
+        max_team_size: formData.max_team_size ? parseInt(formData.max_team_size) : undefined,
+        sessions: formData.sessions.length > 0 ? formData.sessions : undefined,
+        questions: questions.length > 0 ? questions : undefined
+      }
+
+      if (editingEvent) {
+        // Keep the current poster unless it was replaced or removed
+        const poster = formData.poster ?? (editingEvent.poster_url && !existingPosterUrl ? null : undefined)
+        const updatedEvent = await repository.updateEvent(editingEvent.id, eventData, poster)
+        setSuccess(`Event "${updatedEvent.name}" updated successfully!`)
+      } else {
+        // The backend decides how the poster is stored
+        const newEvent = await repository.createEvent(
+          { ...eventData, status: formData.publish ? 'published' : 'draft', created_by: user.id },
+          formData.poster
+        )
+        setSuccess(formData.publish
+          ? `Event "${newEvent.name}" created and published!`
+          : `Event "${newEvent.name}" saved as a draft. Publish it when it's ready.`)
       }
 
-      const newEvent = createEvent(eventData)
-      
-      // Reload events to show the new event
-      loadEvents()
-      
+      // Reload events to show the changes
+      await loadEvents()
+
       // Reset form and close dialog
-      setFormData({
-        name: '',
-        description: '',
-        event_date: '',
-        start_time: '',
-        end_time: '',
-        location: '',
-        max_capacity: '',
-        poster: null
-      })
+      setFormData(emptyEventForm)
+      setEditingEvent(null)
+      setExistingPosterUrl(null)
       setCreateDialogOpen(false)
-      setSuccess(`Event "${newEvent.name}" created successfully!`)
     } catch (err) {
-      setError('Failed to create event')
-      console.error('Error creating event:', err)
+      setError(editingEvent ? 'Failed to update event' : 'Failed to create event')
+      console.error('Error saving event:', err)
     } finally {
       setCreating(false)
     }
   }
 
-  const handleViewRegistrations = (event: Event) => {
+  const handleCancelEvent = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!cancelEventTarget) return
+
+    setCancelling(true)
+    setError(null)
+    setSuccess(null)
+
+    try {
+      const cancelledEvent = await repository.cancelEvent(cancelEventTarget.id, cancellationReason.trim())
+      await loadEvents()
+      setCancelEventTarget(null)
+      setCancellationReason('')
+      setSuccess(`Event "${cancelledEvent.name}" has been cancelled`)
+    } catch (err) {
+      setError('Failed to cancel event')
+      console.error('Error cancelling event:', err)
+    } finally {
+      setCancelling(false)
+    }
+  }
+
+  const handleStatusChange = async (event: Event, status: PublicationStatus) => {
+    setError(null)
+    setSuccess(null)
+
+    try {
+      await repository.setEventStatus(event.id, status)
+      await loadEvents()
+      setSuccess(`"${event.name}" is now ${EVENT_STATUS_LABELS[status].toLowerCase()}`)
+    } catch (err) {
+      setError('Failed to change event status')
+      console.error('Error changing event status:', err)
+    }
+  }
+
+  const handleDeleteEvent = async (event: Event) => {
+    const registrations = (registrationCounts[event.id] ?? 0) + (waitlistCounts[event.id] ?? 0)
+    const warning = registrations > 0
+      ? `Delete "${event.name}"? Its ${registrations} registration(s), attendance records and support messages will be deleted too.`
+      : `Delete "${event.name}"?`
+    if (!confirm(warning)) {
+      return
+    }
+
+    try {
+      const success = await repository.deleteEvent(event.id)
+      if (success) {
+        await loadEvents()
+        setSuccess(`Event "${event.name}" deleted`)
+      } else {
+        setError('Failed to delete event')
+      }
+    } catch (err) {
+      setError('Failed to delete event')
+      console.error('Error deleting event:', err)
+    }
+  }
+
+  const handleViewRegistrations = async (event: Event) => {
     setSelectedEvent(event)
-    const registrations = getEventRegistrations(event.id)
-    setEventRegistrations(registrations)
+    await loadEventReport(event.id)
     setRegistrationsDialogOpen(true)
   }
 
@@ -141,15 +357,14 @@ export default function Dashboard({ user }: DashboardProps) {
     }
 
     try {
-      const success = deleteRegistration(registrationId)
+      const success = await repository.deleteRegistration(registrationId)
       if (success) {
         // Reload registrations for current event
         if (selectedEvent) {
-          const updatedRegistrations = getEventRegistrations(selectedEvent.id)
-          setEventRegistrations(updatedRegistrations)
+          await loadEventReport(selectedEvent.id)
         }
         // Reload events to update counts
-        loadEvents()
+        await loadEvents()
         setSuccess('Registration deleted successfully')
       } else {
         setError('Failed to delete registration')
@@ -178,14 +393,103 @@ export default function Dashboard({ user }: DashboardProps) {
     }
   }
 
+  // Turning sessions on starts from the current schedule; the first session keeps the
+  // implicit session's id so attendance already taken still counts for it
+  const enableSessions = () => {
+    setFormData({
+      ...formData,
+      sessions: [{
+        id: DEFAULT_SESSION_ID,
+        name: 'Session 1',
+        session_date: formData.event_date,
+        start_time: formData.start_time,
+        end_time: formData.end_time
+      }]
+    })
+  }
+
+  const addSession = () => {
+    const last = formData.sessions[formData.sessions.length - 1]
+    setFormData({
+      ...formData,
+      sessions: [...formData.sessions, {
+        id: createSessionId(),
+        name: `Session ${formData.sessions.length + 1}`,
+        session_date: last?.session_date ?? '',
+        start_time: last?.start_time ?? '',
+        end_time: last?.end_time ?? ''
+      }]
+    })
+  }
+
+  const updateSession = (sessionId: string, changes: Partial<EventSession>) => {
+    setFormData({
+      ...formData,
+      sessions: formData.sessions.map(session => session.id === sessionId ? { ...session, ...changes } : session)
+    })
+  }
+
+  const removeSession = (sessionId: string) => {
+    const sessions = formData.sessions.filter(session => session.id !== sessionId)
+    // Back to a single-session event once only the original session is left
+    if (sessions.length === 1 && sessions[0].id === DEFAULT_SESSION_ID) {
+      const [only] = sessions
+      setFormData({ ...formData, sessions: [], event_date: only.session_date, start_time: only.start_time, end_time: only.end_time })
+    } else {
+      setFormData({ ...formData, sessions })
+    }
+  }
+
+  // Sessions attended, time on site and early leaves per registration, for the registrations dialog
+  const attendanceSummaries = eventAttendances.reduce<Record<string, { sessions: number; minutes: number; partial: boolean }>>((summaries, attendance) => {
+    const summary = summaries[attendance.registration_id] ?? { sessions: 0, minutes: 0, partial: false }
+    summaries[attendance.registration_id] = {
+      sessions: summary.sessions + 1,
+      minutes: summary.minutes + (getTimeOnSiteMinutes(attendance) ?? 0),
+      partial: summary.partial || (!!selectedEvent && isPartialAttendance(selectedEvent, attendance))
+    }
+    return summaries
+  }, {})
+
+  const handleDownloadReport = async () => {
+    if (!selectedEvent) return
+
+    setGeneratingReport(true)
+    try {
+      downloadBlob(await createAttendanceReport(selectedEvent), attendanceReportFilename(selectedEvent))
+    } catch (err) {
+      setError('Failed to generate attendance report')
+      console.error('Error generating report:', err)
+    } finally {
+      setGeneratingReport(false)
+    }
+  }
+
   const getEventStats = (event: Event) => {
-    const registrations = getEventRegistrations(event.id)
     return {
-      registrations: registrations.length,
+      registrations: registrationCounts[event.id] ?? 0,
+      waitlisted: waitlistCounts[event.id] ?? 0,
       capacity: event.max_capacity || 'Unlimited'
     }
   }
 
+  // Waitlist positions for the registrations dialog, in promotion order
+  const waitlistPositions = new Map(
+    eventRegistrations
+      .filter(registration => registration.status === 'waitlisted')
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .map((registration, index) => [registration.id, index + 1])
+  )
+
+  // Team events list registrations under their team, with members who joined no team last
+  const teamSummaries = selectedEvent ? summarizeTeams(selectedEvent, eventTeams, eventRegistrations, eventAttendances) : []
+  const registrationGroups: { key: string; summary?: TeamSummary; registrations: Registration[] }[] = selectedEvent && isTeamEvent(selectedEvent)
+    ? [
+      ...teamSummaries.map(summary => ({ key: summary.team.id, summary, registrations: summary.members })),
+      { key: 'no_team', registrations: eventRegistrations.filter(registration => !teamSummaries.some(summary => summary.team.id === registration.team_id)) }
+    ].filter(group => group.registrations.length > 0)
+    : [{ key: 'all', registrations: eventRegistrations }]
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -205,6 +509,10 @@ export default function Dashboard({ user }: DashboardProps) {
             <h1 className="text-4xl font-bold text-white mb-2">Admin Dashboard</h1>
             <p className="text-gray-400 text-lg">Manage events, registrations, and support</p>
           </div>
+          <div className="flex gap-2">
+            <ExportDialog events={events} label="Export All Events" />
+            <BackupRestoreDialog />
+          </div>
         </div>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
@@ -227,16 +535,18 @@ export default function Dashboard({ user }: DashboardProps) {
               <h2 className="text-2xl font-bold text-white">Event Management</h2>
               <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
                 <DialogTrigger asChild>
-                  <Button className="btn-pink">
+                  <Button className="btn-pink" onClick={openCreateDialog}>
                     <Plus className="h-4 w-4 mr-2" />
                     Create Event
                   </Button>
                 </DialogTrigger>
                 <DialogContent className="max-w-2xl card-dark border-pink-500/30">
                   <DialogHeader>
-                    <DialogTitle className="text-white">Create New Event</DialogTitle>
+                    <DialogTitle className="text-white">{editingEvent ? 'Edit Event' : 'Create New Event'}</DialogTitle>
                     <DialogDescription className="text-gray-400">
-                      Fill in the details to create a new event
+                      {editingEvent
+                        ? 'Registered participants will see a notice about changed details'
+                        : 'Fill in the details to create a new event'}
                     </DialogDescription>
                   </DialogHeader>
                   <form onSubmit={handleCreateEvent} className="space-y-4 max-h-[70vh] overflow-y-auto">
@@ -277,10 +587,10 @@ export default function Dashboard({ user }: DashboardProps) {
                         />
                         <Label htmlFor="poster" className="cursor-pointer">
                           <div className="flex flex-col items-center space-y-2">
-                            {formData.poster ? (
+                            {formData.poster || existingPosterUrl ? (
                               <div className="poster-preview">
                                 <img
-                                  src={URL.createObjectURL(formData.poster)}
+                                  src={formData.poster ? URL.createObjectURL(formData.poster) : existingPosterUrl!}
                                   alt="Poster preview"
                                   className="w-32 h-32 object-cover"
                                 />
@@ -296,12 +606,15 @@ export default function Dashboard({ user }: DashboardProps) {
                             )}
                           </div>
                         </Label>
-                        {formData.poster && (
+                        {(formData.poster || existingPosterUrl) && (
                           <Button
                             type="button"
                             variant="outline"
                             size="sm"
-                            onClick={() => setFormData({ ...formData, poster: null })}
+                            onClick={() => {
+                              setFormData({ ...formData, poster: null })
+                              setExistingPosterUrl(null)
+                            }}
                             className="mt-2 border-pink-500/30 text-pink-400"
                           >
                             Remove Poster
@@ -310,68 +623,260 @@ export default function Dashboard({ user }: DashboardProps) {
                       </div>
                     </div>
                     
+                    <div className="space-y-2">
+                      <Label htmlFor="location" className="text-gray-300">Location</Label>
+                      <Input
+                        id="location"
+                        value={formData.location}
+                        onChange={(e) => setFormData({ ...formData, location: e.target.value })}
+                        placeholder="Event location"
+                        required
+                        className="input-dark"
+                      />
+                    </div>
+
+                    {formData.sessions.length === 0 ? (
+                      <>
+                        <div className="grid grid-cols-3 gap-4">
+                          <div className="space-y-2">
+                            <Label htmlFor="event_date" className="text-gray-300">Date</Label>
+                            <Input
+                              id="event_date"
+                              type="date"
+                              value={formData.event_date}
+                              onChange={(e) => setFormData({ ...formData, event_date: e.target.value })}
+                              required
+                              className="input-dark"
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="start_time" className="text-gray-300">Start Time</Label>
+                            <Input
+                              id="start_time"
+                              type="time"
+                              value={formData.start_time}
+                              onChange={(e) => setFormData({ ...formData, start_time: e.target.value })}
+                              required
+                              className="input-dark"
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor="end_time" className="text-gray-300">End Time</Label>
+                            <Input
+                              id="end_time"
+                              type="time"
+                              value={formData.end_time}
+                              onChange={(e) => setFormData({ ...formData, end_time: e.target.value })}
+                              required
+                              className="input-dark"
+                            />
+                          </div>
+                        </div>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={enableSessions}
+                          className="border-pink-500/30 text-pink-400 hover:bg-pink-500/10"
+                        >
+                          <Plus className="h-4 w-4 mr-2" />
+                          Split into multiple sessions
+                        </Button>
+                      </>
+                    ) : (
+                      <div className="space-y-3">
+                        <Label className="text-gray-300">Sessions</Label>
+                        {formData.sessions.map((session) => (
+                          <div key={session.id} className="p-3 bg-pink-500/10 rounded-lg border border-pink-500/20 space-y-2">
+                            <div className="flex space-x-2">
+                              <Input
+                                value={session.name}
+                                onChange={(e) => updateSession(session.id, { name: e.target.value })}
+                                placeholder="Session name"
+                                required
+                                className="input-dark"
+                              />
+                              <Button
+                                type="button"
+                                variant="outline"
+                                size="sm"
+                                onClick={() => removeSession(session.id)}
+                                disabled={formData.sessions.length === 1}
+                                className="border-red-500/30 text-red-400 hover:bg-red-500/10"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                            <div className="grid grid-cols-3 gap-2">
+                              <Input
+                                type="date"
+                                value={session.session_date}
+                                onChange={(e) => updateSession(session.id, { session_date: e.target.value })}
+                                required
+                                className="input-dark"
+                              />
+                              <Input
+                                type="time"
+                                value={session.start_time}
+                                onChange={(e) => updateSession(session.id, { start_time: e.target.value })}
+                                required
+                                className="input-dark"
+                              />
+                              <Input
+                                type="time"
+                                value={session.end_time}
+                                onChange={(e) => updateSession(session.id, { end_time: e.target.value })}
+                                required
+                                className="input-dark"
+                              />
+                            </div>
+                          </div>
+                        ))}
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={addSession}
+                          className="border-pink-500/30 text-pink-400 hover:bg-pink-500/10"
+                        >
+                          <Plus className="h-4 w-4 mr-2" />
+                          Add Session
+                        </Button>
+                      </div>
+                    )}
+                    
                     <div className="grid grid-cols-2 gap-4">
                       <div className="space-y-2">
-                        <Label htmlFor="event_date" className="text-gray-300">Date</Label>
+                        <Label htmlFor="max_capacity" className="text-gray-300">Max Capacity (Optional)</Label>
                         <Input
-                          id="event_date"
-                          type="date"
-                          value={formData.event_date}
-                          onChange={(e) => setFormData({ ...formData, event_date: e.target.value })}
-                          required
+                          id="max_capacity"
+                          type="number"
+                          value={formData.max_capacity}
+                          onChange={(e) => setFormData({ ...formData, max_capacity: e.target.value })}
+                          placeholder="Leave empty for unlimited"
+                          min="1"
                           className="input-dark"
                         />
                       </div>
                       <div className="space-y-2">
-                        <Label htmlFor="location" className="text-gray-300">Location</Label>
+                        <Label htmlFor="cancellation_cutoff_hours" className="text-gray-300">Cancellation Cutoff (Hours)</Label>
                         <Input
-                          id="location"
-                          value={formData.location}
-                          onChange={(e) => setFormData({ ...formData, location: e.target.value })}
-                          placeholder="Event location"
-                          required
+                          id="cancellation_cutoff_hours"
+                          type="number"
+                          value={formData.cancellation_cutoff_hours}
+                          onChange={(e) => setFormData({ ...formData, cancellation_cutoff_hours: e.target.value })}
+                          placeholder={`Default: ${DEFAULT_CANCELLATION_CUTOFF_HOURS} before start`}
+                          min="0"
                           className="input-dark"
                         />
                       </div>
                     </div>
-                    
+
+                    <div className="space-y-2">
+                      <Label htmlFor="min_attendance_minutes" className="text-gray-300">Minimum Attendance (Minutes, Optional)</Label>
+                      <Input
+                        id="min_attendance_minutes"
+                        type="number"
+                        value={formData.min_attendance_minutes}
+                        onChange={(e) => setFormData({ ...formData, min_attendance_minutes: e.target.value })}
+                        placeholder="Attendees checking out sooner are flagged as partial"
+                        min="1"
+                        className="input-dark"
+                      />
+                    </div>
+
                     <div className="grid grid-cols-2 gap-4">
                       <div className="space-y-2">
-                        <Label htmlFor="start_time" className="text-gray-300">Start Time</Label>
+                        <Label htmlFor="late_grace_minutes" className="text-gray-300">Late Grace Period (Minutes)</Label>
                         <Input
-                          id="start_time"
-                          type="time"
-                          value={formData.start_time}
-                          onChange={(e) => setFormData({ ...formData, start_time: e.target.value })}
-                          required
+                          id="late_grace_minutes"
+                          type="number"
+                          value={formData.late_grace_minutes}
+                          onChange={(e) => setFormData({ ...formData, late_grace_minutes: e.target.value })}
+                          placeholder={`Default: ${DEFAULT_LATE_GRACE_MINUTES} after start`}
+                          min="0"
                           className="input-dark"
                         />
                       </div>
                       <div className="space-y-2">
-                        <Label htmlFor="end_time" className="text-gray-300">End Time</Label>
+                        <Label htmlFor="very_late_after_minutes" className="text-gray-300">Very Late After (Minutes)</Label>
                         <Input
-                          id="end_time"
-                          type="time"
-                          value={formData.end_time}
-                          onChange={(e) => setFormData({ ...formData, end_time: e.target.value })}
-                          required
+                          id="very_late_after_minutes"
+                          type="number"
+                          value={formData.very_late_after_minutes}
+                          onChange={(e) => setFormData({ ...formData, very_late_after_minutes: e.target.value })}
+                          placeholder={`Default: ${DEFAULT_VERY_LATE_AFTER_MINUTES} after start`}
+                          min="0"
                           className="input-dark"
                         />
                       </div>
                     </div>
-                    
-                    <div className="space-y-2">
-                      <Label htmlFor="max_capacity" className="text-gray-300">Max Capacity (Optional)</Label>
-                      <Input
-                        id="max_capacity"
-                        type="number"
-                        value={formData.max_capacity}
-                        onChange={(e) => setFormData({ ...formData, max_capacity: e.target.value })}
-                        placeholder="Leave empty for unlimited"
-                        min="1"
-                        className="input-dark"
-                      />
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="registration_opens_at" className="text-gray-300">Registration Opens (Optional)</Label>
+                        <Input
+                          id="registration_opens_at"
+                          type="datetime-local"
+                          value={formData.registration_opens_at}
+                          onChange={(e) => setFormData({ ...formData, registration_opens_at: e.target.value })}
+                          className="input-dark"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="registration_closes_at" className="text-gray-300">Registration Closes (Optional)</Label>
+                        <Input
+                          id="registration_closes_at"
+                          type="datetime-local"
+                          value={formData.registration_closes_at}
+                          onChange={(e) => setFormData({ ...formData, registration_closes_at: e.target.value })}
+                          className="input-dark"
+                        />
+                      </div>
                     </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="min_team_size" className="text-gray-300">Minimum Team Size (Optional)</Label>
+                        <Input
+                          id="min_team_size"
+                          type="number"
+                          value={formData.min_team_size}
+                          onChange={(e) => setFormData({ ...formData, min_team_size: e.target.value })}
+                          placeholder="Default: 1"
+                          min="1"
+                          className="input-dark"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="max_team_size" className="text-gray-300">Maximum Team Size (Optional)</Label>
+                        <Input
+                          id="max_team_size"
+                          type="number"
+                          value={formData.max_team_size}
+                          onChange={(e) => setFormData({ ...formData, max_team_size: e.target.value })}
+                          placeholder="Empty for individual registration"
+                          min="1"
+                          className="input-dark"
+                        />
+                      </div>
+                    </div>
+
+                    <RegistrationQuestionsEditor
+                      questions={formData.questions}
+                      onChange={(questions) => setFormData({ ...formData, questions })}
+                    />
+
+                    {!editingEvent && (
+                      <div className="flex items-center space-x-2">
+                        <Switch
+                          id="publish"
+                          checked={formData.publish}
+                          onCheckedChange={(checked) => setFormData({ ...formData, publish: checked })}
+                        />
+                        <Label htmlFor="publish" className="text-gray-300">Publish now (otherwise saved as a draft)</Label>
+                      </div>
+                    )}
                     
                     <Button
                       type="submit"
@@ -379,7 +884,7 @@ export default function Dashboard({ user }: DashboardProps) {
                       className="w-full btn-pink"
                     >
                       {creating ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
-                      Create Event
+                      {editingEvent ? 'Save Changes' : formData.publish ? 'Create & Publish' : 'Save Draft'}
                     </Button>
                   </form>
                 </DialogContent>
@@ -406,7 +911,7 @@ export default function Dashboard({ user }: DashboardProps) {
                   </div>
                   <h3 className="text-2xl font-medium text-white mb-4">No events yet</h3>
                   <p className="text-gray-400 mb-6 text-lg">Create your first event to get started</p>
-                  <Button onClick={() => setCreateDialogOpen(true)} className="btn-pink">
+                  <Button onClick={openCreateDialog} className="btn-pink">
                     <Plus className="h-4 w-4 mr-2" />
                     Create Event
                   </Button>
@@ -419,9 +924,19 @@ export default function Dashboard({ user }: DashboardProps) {
                       <CardHeader>
                         <div className="flex justify-between items-start">
                           <CardTitle className="text-xl text-white">{event.name}</CardTitle>
-                          <Badge className="bg-pink-500/20 text-pink-400 border-pink-500/30">
-                            {stats.registrations} registered
-                          </Badge>
+                          {event.status === 'cancelled' ? (
+                            <Badge className="bg-red-500/20 text-red-400 border-red-500/30">
+                              Cancelled
+                            </Badge>
+                          ) : event.status !== 'published' ? (
+                            <Badge className="bg-gray-500/20 text-gray-400 border-gray-500/30">
+                              {EVENT_STATUS_LABELS[event.status]}
+                            </Badge>
+                          ) : (
+                            <Badge className="bg-pink-500/20 text-pink-400 border-pink-500/30">
+                              {stats.registrations} registered
+                            </Badge>
+                          )}
                         </div>
                         {event.description && (
                           <CardDescription className="line-clamp-2 text-gray-400">
@@ -454,6 +969,9 @@ export default function Dashboard({ user }: DashboardProps) {
                         <div className="flex items-center text-sm text-gray-300">
                           <Users className="h-4 w-4 mr-3 text-pink-400" />
                           {stats.registrations} / {stats.capacity}
+                          {stats.waitlisted > 0 && (
+                            <span className="ml-2 text-yellow-400">+{stats.waitlisted} waitlisted</span>
+                          )}
                         </div>
                         <div className="pt-4 space-y-2">
                           <Button 
@@ -468,8 +986,59 @@ export default function Dashboard({ user }: DashboardProps) {
                             onClick={() => handleViewRegistrations(event)}
                           >
                             <Eye className="h-4 w-4 mr-2" />
-                            View Registrations ({stats.registrations})
+                            View Registrations ({stats.registrations + stats.waitlisted})
                           </Button>
+                          <RosterImportDialog event={event} onImported={loadEvents} />
+                          {event.status !== 'cancelled' && (
+                            <Select
+                              value={event.status}
+                              onValueChange={(value) => handleStatusChange(event, value as PublicationStatus)}
+                            >
+                              <SelectTrigger className="input-dark" aria-label="Event status">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent className="bg-gray-900 border-pink-500/30">
+                                {PUBLICATION_STATUSES.map((status) => (
+                                  <SelectItem key={status} value={status} className="text-gray-300 hover:bg-pink-500/20">
+                                    {EVENT_STATUS_LABELS[status]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                          <div className="flex gap-2">
+                            {event.status !== 'cancelled' && (
+                              <>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="flex-1 border-pink-500/30 text-pink-400 hover:bg-pink-500/10"
+                                  onClick={() => openEditDialog(event)}
+                                >
+                                  <Pencil className="h-4 w-4 mr-2" />
+                                  Edit
+                                </Button>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="flex-1 border-red-500/30 text-red-400 hover:bg-red-500/10"
+                                  onClick={() => setCancelEventTarget(event)}
+                                >
+                                  <Ban className="h-4 w-4 mr-2" />
+                                  Cancel
+                                </Button>
+                              </>
+                            )}
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="flex-1 border-red-500/30 text-red-400 hover:bg-red-500/10"
+                              onClick={() => handleDeleteEvent(event)}
+                            >
+                              <Trash2 className="h-4 w-4 mr-2" />
+                              Delete
+                            </Button>
+                          </div>
                         </div>
                       </CardContent>
                     </Card>
@@ -484,6 +1053,47 @@ export default function Dashboard({ user }: DashboardProps) {
           </TabsContent>
         </Tabs>
 
+        {/* Cancel Event Dialog */}
+        <Dialog
+          open={!!cancelEventTarget}
+          onOpenChange={(open) => {
+            if (!open) {
+              setCancelEventTarget(null)
+              setCancellationReason('')
+            }
+          }}
+        >
+          <DialogContent className="max-w-md card-dark border-pink-500/30">
+            <DialogHeader>
+              <DialogTitle className="text-white">Cancel Event: {cancelEventTarget?.name}</DialogTitle>
+              <DialogDescription className="text-gray-400">
+                The event stays listed as cancelled and registered participants are notified. New registrations are closed.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleCancelEvent} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="cancellation_reason" className="text-gray-300">Reason (Optional)</Label>
+                <Textarea
+                  id="cancellation_reason"
+                  value={cancellationReason}
+                  onChange={(e) => setCancellationReason(e.target.value)}
+                  placeholder="Shown to registered participants"
+                  rows={3}
+                  className="input-dark"
+                />
+              </div>
+              <Button
+                type="submit"
+                disabled={cancelling}
+                className="w-full bg-red-500 hover:bg-red-600 text-white"
+              >
+                {cancelling ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+                Cancel Event
+              </Button>
+            </form>
+          </DialogContent>
+        </Dialog>
+
         {/* Registrations Dialog */}
         <Dialog open={registrationsDialogOpen} onOpenChange={setRegistrationsDialogOpen}>
           <DialogContent className="max-w-4xl card-dark border-pink-500/30">
@@ -495,7 +1105,60 @@ export default function Dashboard({ user }: DashboardProps) {
                 Manage registrations for this event ({eventRegistrations.length} total)
               </DialogDescription>
             </DialogHeader>
-            <div className="max-h-[60vh] overflow-y-auto">
+            {selectedEvent && eventRegistrations.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                <ExportDialog events={[selectedEvent]} label="Export" />
+                <Button
+                  variant="outline"
+                  onClick={handleDownloadReport}
+                  disabled={generatingReport}
+                  className="border-pink-500/30 text-pink-400 hover:bg-pink-500/10"
+                >
+                  {generatingReport ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <FileText className="h-4 w-4 mr-2" />}
+                  Attendance Report (PDF)
+                </Button>
+                <CertificatesDialog event={selectedEvent} />
+              </div>
+            )}
+            <div className="max-h-[60vh] overflow-y-auto space-y-4">
+              {selectedEventStats && eventRegistrations.length > 0 && (
+                <div className="p-4 bg-pink-500/10 rounded-lg border border-pink-500/20 space-y-2">
+                  <p className="text-sm text-gray-300">
+                    Attended: <strong className="text-pink-300">{selectedEventStats.totalAttendances}</strong> of {selectedEventStats.totalRegistrations} ({selectedEventStats.attendanceRate.toFixed(1)}%)
+                    {!!selectedEvent?.min_attendance_minutes && (
+                      <span className="text-gray-400">
+                        {' '}· {selectedEventStats.partialAttendances} partial (under {formatDuration(selectedEvent.min_attendance_minutes)})
+                      </span>
+                    )}
+                    {selectedEventStats.totalWalkIns > 0 && (
+                      <span className="text-gray-400"> · {selectedEventStats.totalWalkIns} walk-ins</span>
+                    )}
+                  </p>
+                  {teamSummaries.length > 0 && (
+                    <p className="text-sm text-gray-300">
+                      Teams: <strong className="text-pink-300">{teamSummaries.length}</strong>
+                      <span className="text-gray-400">
+                        {' '}· {teamSummaries.filter(summary => summary.checkedIn === summary.members.length).length} fully checked in
+                        {teamSummaries.some(summary => summary.belowMinimum) && `, ${teamSummaries.filter(summary => summary.belowMinimum).length} below minimum size`}
+                      </span>
+                    </p>
+                  )}
+                  {selectedEventStats.sessions.length > 1 && (
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                      {selectedEventStats.sessions.map((session) => (
+                        <div key={session.sessionId} className="text-sm">
+                          <span className="text-white">{session.name}</span>
+                          <span className="text-gray-400">
+                            {' '}— {session.totalAttendances} checked in ({session.attendanceRate.toFixed(1)}%), {session.totalCheckedOut} checked out
+                            {session.partialAttendances > 0 && `, ${session.partialAttendances} partial`}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
               {eventRegistrations.length === 0 ? (
                 <div className="text-center py-8">
                   <Users className="h-12 w-12 mx-auto text-pink-500/50 mb-4" />
@@ -508,36 +1171,111 @@ export default function Dashboard({ user }: DashboardProps) {
                       <TableHead className="text-pink-400">Name</TableHead>
                       <TableHead className="text-pink-400">Email</TableHead>
                       <TableHead className="text-pink-400">Registration Date</TableHead>
+                      <TableHead className="text-pink-400">Status</TableHead>
                       <TableHead className="text-pink-400">Backup Code</TableHead>
+                      <TableHead className="text-pink-400">Attendance</TableHead>
+                      <TableHead className="text-pink-400">Arrival</TableHead>
+                      <TableHead className="text-pink-400">Time on Site</TableHead>
                       <TableHead className="text-pink-400">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {eventRegistrations.map((registration) => (
-                      <TableRow key={registration.id}>
-                        <TableCell className="text-white font-medium">
-                          {registration.user_name}
-                        </TableCell>
-                        <TableCell className="text-gray-300">
-                          {registration.user_email}
-                        </TableCell>
-                        <TableCell className="text-gray-300">
-                          {new Date(registration.created_at).toLocaleDateString()}
-                        </TableCell>
-                        <TableCell className="text-pink-300 font-mono">
-                          {registration.backup_code}
-                        </TableCell>
-                        <TableCell>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleDeleteRegistration(registration.id)}
-                            className="border-red-500/30 text-red-400 hover:bg-red-500/10"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </TableCell>
-                      </TableRow>
+                    {registrationGroups.map((group) => (
+                      <Fragment key={group.key}>
+                        {selectedEvent && isTeamEvent(selectedEvent) && (
+                          <TableRow className="bg-pink-500/10 hover:bg-pink-500/10">
+                            <TableCell colSpan={9} className="text-pink-300 font-medium">
+                              {group.summary ? (
+                                <>
+                                  {group.summary.team.name}
+                                  <span className="text-gray-400 font-normal">
+                                    {' '}· led by {group.summary.leader?.user_name ?? 'a former member'} · {group.summary.members.length}/{group.summary.team.max_size} members · {group.summary.checkedIn}/{group.summary.members.length} checked in
+                                  </span>
+                                  {group.summary.belowMinimum && (
+                                    <Badge className="ml-2 bg-yellow-500/20 text-yellow-400 border-yellow-500/30">Below minimum size</Badge>
+                                  )}
+                                </>
+                              ) : 'No team'}
+                            </TableCell>
+                          </TableRow>
+                        )}
+                        {group.registrations.map((registration) => (
+                          <TableRow key={registration.id}>
+                            <TableCell className="text-white font-medium">
+                              {registration.user_name}
+                              {registration.student_id && (
+                                <p className="text-xs text-gray-500">{registration.student_id}</p>
+                              )}
+                              {registration.transferred_from && (
+                                <p className="text-xs text-gray-500">Transferred from {registration.transferred_from}</p>
+                              )}
+                              {selectedEvent?.questions?.filter(question => registration.answers?.[question.id] !== undefined).map((question) => (
+                                <p key={question.id} className="text-xs text-gray-400 font-normal">
+                                  {question.label}: {formatAnswer(registration.answers[question.id])}
+                                </p>
+                              ))}
+                            </TableCell>
+                            <TableCell className="text-gray-300">
+                              {registration.user_email}
+                            </TableCell>
+                            <TableCell className="text-gray-300">
+                              {new Date(registration.created_at).toLocaleDateString()}
+                            </TableCell>
+                            <TableCell>
+                              {registration.status === 'waitlisted' ? (
+                                <Badge className="bg-yellow-500/20 text-yellow-400 border-yellow-500/30">
+                                  Waitlist #{waitlistPositions.get(registration.id)}
+                                </Badge>
+                              ) : (
+                                <Badge className="bg-green-500/20 text-green-400 border-green-500/30">
+                                  Confirmed
+                                </Badge>
+                              )}
+                              {registration.walk_in && (
+                                <Badge className="ml-1 bg-pink-500/20 text-pink-400 border-pink-500/30">
+                                  Walk-in
+                                </Badge>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-pink-300 font-mono">
+                              {registration.backup_code ?? '—'}
+                            </TableCell>
+                            <TableCell className="text-gray-300">
+                              {attendanceSummaries[registration.id]?.sessions ?? 0}/{selectedEventStats?.sessions.length ?? 1} sessions
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex flex-wrap gap-1">
+                                {selectedEvent && eventAttendances
+                                  .filter(attendance => attendance.registration_id === registration.id)
+                                  .map((attendance) => {
+                                    const arrival = getArrivalStatus(selectedEvent, attendance)
+                                    return (
+                                      <Badge key={attendance.id} className={ARRIVAL_BADGE_CLASSES[arrival]}>
+                                        {ARRIVAL_STATUS_LABELS[arrival]}
+                                      </Badge>
+                                    )
+                                  })}
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-gray-300">
+                              {attendanceSummaries[registration.id]?.minutes ? formatDuration(attendanceSummaries[registration.id].minutes) : '—'}
+                              {attendanceSummaries[registration.id]?.partial && (
+                                <Badge className="ml-2 bg-yellow-500/20 text-yellow-400 border-yellow-500/30">Partial</Badge>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleDeleteRegistration(registration.id)}
+                                className="border-red-500/30 text-red-400 hover:bg-red-500/10"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </Fragment>
                     ))}
                   </TableBody>
                 </Table>
@@ -1,28 +1,91 @@
 import { useState, useEffect } from 'react'
 import { useParams, useNavigate } from 'react-router-dom'
 import { User, validateEmail } from '@/lib/auth'
-import { getEventById, registerForEvent, checkRegistrationStatus, Event, Registration } from '@/lib/storage'
+import { repository } from '@/lib/repository'
+import { TicketFormat, TICKET_FORMAT_LABELS, createTicketFile, ticketFilename } from '@/lib/ticket-download'
+import { downloadBlob } from '@/lib/download'
+import { Event, EventStats, Registration, EVENT_DETAIL_LABELS, getCancellationDeadline, getSelfServiceBlocker, getEventSessions, getRegistrationBlocker, EVENT_STATUS_LABELS, RegistrationAnswers, formatAnswer, Team, isTeamEvent } from '@/lib/models'
 import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
 import { Badge } from '@/components/ui/badge'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { Calendar, Clock, MapPin, Users, ArrowLeft, QrCode, Loader2, CheckCircle, Copy } from 'lucide-react'
+import { Calendar, Clock, MapPin, Users, ArrowLeft, QrCode, Loader2, CheckCircle, Copy, AlertTriangle, Ban, Hourglass, UserX, Send, UsersRound, UserPlus, Crown, Download } from 'lucide-react'
+import { useDataChanges } from '@/hooks/use-data-changes'
+import { useNow } from '@/hooks/use-now'
+import RegistrationCountdown from '@/components/RegistrationCountdown'
+import RegistrationQuestionFields from '@/components/RegistrationQuestionFields'
+import QRCodeImage from '@/components/QRCodeImage'
 
 interface EventDetailsProps {
   user: User
 }
 
+// Team events register by starting a team or joining one with its invite code
+type TeamMode = 'create' | 'join'
+
 export default function EventDetails({ user }: EventDetailsProps) {
   const { eventId } = useParams<{ eventId: string }>()
   const navigate = useNavigate()
   const [event, setEvent] = useState<Event | null>(null)
   const [registration, setRegistration] = useState<Registration | null>(null)
+  // Sessions the participant has been checked in for
+  const [attendedSessionIds, setAttendedSessionIds] = useState<Set<string>>(new Set())
+  const [stats, setStats] = useState<EventStats | null>(null)
+  const [waitlistPosition, setWaitlistPosition] = useState<number | null>(null)
   const [loading, setLoading] = useState(true)
   const [registering, setRegistering] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [showQR, setShowQR] = useState(false)
+  const [downloadingTicket, setDownloadingTicket] = useState<TicketFormat | null>(null)
   const [success, setSuccess] = useState<string | null>(null)
+  const [managing, setManaging] = useState(false)
+  const [transferDialogOpen, setTransferDialogOpen] = useState(false)
+  const [transferEmail, setTransferEmail] = useState('')
+  const [transferName, setTransferName] = useState('')
+  const [answers, setAnswers] = useState<RegistrationAnswers>({})
+  const [team, setTeam] = useState<Team | null>(null)
+  const [teamMode, setTeamMode] = useState<TeamMode>('create')
+  const [teamName, setTeamName] = useState('')
+  const [teamSize, setTeamSize] = useState('')
+  const [inviteCode, setInviteCode] = useState('')
+  // Ticks so registration opens and closes on time without a reload
+  const now = useNow()
+
+  const loadEvent = async (eventId: string) => {
+    try {
+      const eventData = await repository.getEventById(eventId)
+      // Drafts are not public yet
+      if (!eventData || (eventData.status === 'draft' && user?.role === 'participant')) {
+        setEvent(null)
+        setError('Event not found')
+        return
+      }
+
+      setEvent(eventData)
+      setStats(await repository.getEventStats(eventId))
+
+      // Check if user is already registered
+      if (user) {
+        const existingRegistration = await repository.checkRegistrationStatus(eventId, user.id)
+        setRegistration(existingRegistration)
+        setTeam(existingRegistration?.team_id ? await repository.getTeam(existingRegistration.team_id) : null)
+        const attendances = existingRegistration ? await repository.getEventAttendances(eventId) : []
+        setAttendedSessionIds(new Set(attendances
+          .filter(attendance => attendance.registration_id === existingRegistration?.id)
+          .map(attendance => attendance.session_id)))
+        setWaitlistPosition(existingRegistration ? await repository.getWaitlistPosition(existingRegistration.id) : null)
+      }
+    } catch (err) {
+      setError('Failed to load event')
+      console.error('Error loading event:', err)
+    } finally {
+      setLoading(false)
+    }
+  }
 
   useEffect(() => {
     if (!eventId) {
@@ -30,23 +93,26 @@ export default function EventDetails({ user }: EventDetailsProps) {
       return
     }
 
-    const eventData = getEventById(eventId)
-    if (!eventData) {
-      setError('Event not found')
-      setLoading(false)
-      return
-    }
+    loadEvent(eventId)
+  }, [eventId, user, navigate])
 
-    setEvent(eventData)
-    
-    // Check if user is already registered
-    if (user) {
-      const existingRegistration = checkRegistrationStatus(eventId, user.id)
-      setRegistration(existingRegistration)
+  // Reflect check-ins and admin changes made in other tabs
+  useDataChanges((change) => {
+    if (!eventId) return
+    if (change.type === 'event_deleted') {
+      if (change.eventId === eventId) {
+        setEvent(null)
+        setError('This event has been deleted')
+      }
+    } else if (
+      change.type === 'attendance_recorded' || change.type === 'registration_added' || change.type === 'registration_transferred' || change.type === 'team_created' ||
+      change.type === 'event_updated' || change.type === 'event_status_changed' || change.type === 'event_cancelled'
+    ) {
+      if (change.eventId === eventId) loadEvent(eventId)
+    } else if (change.type === 'registration_deleted' || change.type === 'data_cleared' || change.type === 'data_restored') {
+      loadEvent(eventId)
     }
-    
-    setLoading(false)
-  }, [eventId, user, navigate])
+  })
 
   const handleOneClickRegister = async () => {
     if (!event || !user) return
@@ -57,21 +123,127 @@ export default function EventDetails({ user }: EventDetailsProps) {
 
     try {
       // Use logged-in user's information for registration
-      const newRegistration = registerForEvent(event.id, user.id, user.full_name, user.email)
+      let newRegistration: Registration
+      if (!isTeamEvent(event)) {
+        newRegistration = await repository.registerForEvent(event.id, user.id, user.full_name, user.email, answers, user.student_id)
+      } else if (teamMode === 'create') {
+        const created = await repository.createTeam(event.id, teamName, Number(teamSize || event.max_team_size), user.id, user.full_name, user.email, answers)
+        newRegistration = created.registration
+        setTeam(created.team)
+      } else {
+        newRegistration = await repository.joinTeam(event.id, inviteCode, user.id, user.full_name, user.email, answers)
+        setTeam(newRegistration.team_id ? await repository.getTeam(newRegistration.team_id) : null)
+      }
       setRegistration(newRegistration)
-      setSuccess(`Successfully registered for ${event.name}! Your QR code and backup code are ready.`)
+      if (newRegistration.status === 'waitlisted') {
+        const position = await repository.getWaitlistPosition(newRegistration.id)
+        setWaitlistPosition(position)
+        setSuccess(`${event.name} is full, so you joined the waitlist at position ${position}. You'll get your QR code and backup code when a spot opens up.`)
+      } else {
+        setSuccess(`Successfully registered for ${event.name}! Your QR code and backup code are ready.`)
+      }
     } catch (err) {
-      setError('Failed to register for event')
+      // Unanswered or invalid questions are explained by the repository
+      setError(err instanceof Error ? err.message : 'Failed to register for event')
       console.error('Registration error:', err)
     } finally {
       setRegistering(false)
     }
   }
 
+  const handleCancelRegistration = async () => {
+    if (!event || !registration) return
+    const leadershipNote = team?.leader_id === user.id ? ' Leadership of your team passes to the next member.' : ''
+    if (!confirm(`Cancel your registration for ${event.name}? Your spot may go to someone on the waitlist.${leadershipNote}`)) {
+      return
+    }
+
+    setManaging(true)
+    setError(null)
+    setSuccess(null)
+
+    try {
+      await repository.cancelRegistration(registration.id, user.id)
+      setRegistration(null)
+      setTeam(null)
+      setWaitlistPosition(null)
+      setSuccess('Your registration has been cancelled')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel registration')
+      console.error('Cancellation error:', err)
+    } finally {
+      setManaging(false)
+    }
+  }
+
+  const handleTransferRegistration = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!registration) return
+
+    const emailValidation = validateEmail(transferEmail.trim())
+    if (!emailValidation.valid) {
+      setError(emailValidation.error)
+      return
+    }
+
+    setManaging(true)
+    setError(null)
+    setSuccess(null)
+
+    try {
+      await repository.transferRegistration(registration.id, user.id, transferEmail, transferName)
+      setRegistration(null)
+      setTeam(null)
+      setTransferDialogOpen(false)
+      setSuccess(`Your registration was transferred to ${transferEmail.trim()}. Your old QR code and backup code no longer work.`)
+      setTransferEmail('')
+      setTransferName('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to transfer registration')
+      console.error('Transfer error:', err)
+    } finally {
+      setManaging(false)
+    }
+  }
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text)
   }
 
+  const handleDownloadTicket = async (format: TicketFormat) => {
+    if (!event || !registration) return
+
+    setDownloadingTicket(format)
+    setError(null)
+    try {
+      downloadBlob(await createTicketFile(format, event, registration), ticketFilename(event, format))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to download ticket')
+    } finally {
+      setDownloadingTicket(null)
+    }
+  }
+
+  // Saved tickets carry everything needed at the door, so they work offline
+  const ticketDownloads = (
+    <div className="grid grid-cols-3 gap-2">
+      {(Object.keys(TICKET_FORMAT_LABELS) as TicketFormat[]).map((format) => (
+        <Button
+          key={format}
+          variant="outline"
+          size="sm"
+          title={`Download ticket as ${TICKET_FORMAT_LABELS[format]}`}
+          onClick={() => handleDownloadTicket(format)}
+          disabled={downloadingTicket !== null}
+          className="border-pink-500/30 text-pink-400 hover:bg-pink-500/10"
+        >
+          {downloadingTicket === format ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Download className="h-4 w-4 mr-1" />}
+          {format.toUpperCase()}
+        </Button>
+      ))}
+    </div>
+  )
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -101,7 +273,18 @@ export default function EventDetails({ user }: EventDetailsProps) {
   if (!event) return null
 
   const isRegistered = !!registration
-  const canRegister = !isRegistered && user?.role === 'participant'
+  const isWaitlisted = registration?.status === 'waitlisted'
+  const isCancelled = event.status === 'cancelled'
+  const isFull = !!event.max_capacity && !!stats && stats.totalRegistrations >= event.max_capacity
+  const isTeam = isTeamEvent(event)
+  const minTeamSize = Math.max(event.min_team_size ?? 1, 1)
+  const sessions = getEventSessions(event)
+  const selfServiceBlocker = registration ? getSelfServiceBlocker(event, registration, user.id, attendedSessionIds.size > 0) : null
+  const canRegister = !isRegistered && !isCancelled && user?.role === 'participant'
+  const registrationBlocker = getRegistrationBlocker(event, now)
+  // Participants who registered before the latest edit are told what changed
+  const changedSinceRegistration = isRegistered && !isCancelled && !!event.updated_at && !!event.changed_fields?.length &&
+    new Date(event.updated_at) > new Date(registration.created_at)
 
   return (
     <div className="min-h-screen p-6">
@@ -126,10 +309,22 @@ export default function EventDetails({ user }: EventDetailsProps) {
                   </CardDescription>
                 )}
               </div>
-              {isRegistered && (
+              {isCancelled ? (
+                <Badge className="bg-red-500/20 text-red-400 border-red-500/30">
+                  Cancelled
+                </Badge>
+              ) : isWaitlisted ? (
+                <Badge className="bg-yellow-500/20 text-yellow-400 border-yellow-500/30">
+                  Waitlist #{waitlistPosition}
+                </Badge>
+              ) : isRegistered ? (
                 <Badge className="bg-green-500/20 text-green-400 border-green-500/30">
                   Registered
                 </Badge>
+              ) : event.status !== 'published' && (
+                <Badge className="bg-gray-500/20 text-gray-400 border-gray-500/30">
+                  {EVENT_STATUS_LABELS[event.status]}
+                </Badge>
               )}
             </div>
           </CardHeader>
@@ -164,13 +359,70 @@ export default function EventDetails({ user }: EventDetailsProps) {
               <div className="flex items-center text-gray-300">
                 <Users className="h-5 w-5 mr-3 text-pink-400" />
                 <span>
-                  {event.max_capacity ? `Max ${event.max_capacity} participants` : 'Unlimited capacity'}
+                  {event.max_capacity
+                    ? `${stats?.totalRegistrations ?? 0} / ${event.max_capacity} spots taken`
+                    : 'Unlimited capacity'}
+                  {!!stats?.totalWaitlisted && ` · ${stats.totalWaitlisted} on waitlist`}
                 </span>
               </div>
+              {isTeam && (
+                <div className="flex items-center text-gray-300">
+                  <UsersRound className="h-5 w-5 mr-3 text-pink-400" />
+                  <span>Teams of {minTeamSize === event.max_team_size ? minTeamSize : `${minTeamSize} to ${event.max_team_size}`}</span>
+                </div>
+              )}
+              <RegistrationCountdown event={event} />
             </div>
+
+            {sessions.length > 1 && (
+              <div className="space-y-2">
+                <h4 className="font-medium text-pink-300">Sessions</h4>
+                {sessions.map((session) => (
+                  <div key={session.id} className="flex items-center justify-between p-3 bg-pink-500/10 rounded-lg border border-pink-500/20 text-sm">
+                    <div>
+                      <p className="text-white font-medium">{session.name}</p>
+                      <p className="text-gray-400">
+                        {new Date(session.session_date).toLocaleDateString()} · {session.start_time} - {session.end_time}
+                      </p>
+                    </div>
+                    {registration?.status === 'confirmed' && (
+                      attendedSessionIds.has(session.id) ? (
+                        <Badge className="bg-green-500/20 text-green-400 border-green-500/30">
+                          <CheckCircle className="h-3 w-3 mr-1" />
+                          Checked in
+                        </Badge>
+                      ) : (
+                        <Badge className="bg-gray-500/20 text-gray-400 border-gray-500/30">Not checked in</Badge>
+                      )
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
           </CardContent>
         </Card>
 
+        {isCancelled && (
+          <Alert className="mb-6 border-red-500/30 bg-red-500/10">
+            <Ban className="h-4 w-4 text-red-400" />
+            <AlertDescription className="text-red-300">
+              <strong>This event has been cancelled</strong>
+              {event.cancelled_at && ` on ${new Date(event.cancelled_at).toLocaleString()}`}.
+              {event.cancellation_reason && <span className="block mt-1">Reason: {event.cancellation_reason}</span>}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {changedSinceRegistration && (
+          <Alert className="mb-6 border-yellow-500/30 bg-yellow-500/10">
+            <AlertTriangle className="h-4 w-4 text-yellow-400" />
+            <AlertDescription className="text-yellow-200">
+              <strong>This event was updated</strong> on {new Date(event.updated_at!).toLocaleString()} after you registered.
+              Changed: {event.changed_fields!.map(field => EVENT_DETAIL_LABELS[field]).join(', ')}. Please check the details above.
+            </AlertDescription>
+          </Alert>
+        )}
+
         {error && (
           <Alert className="mb-6 error-pink">
             <AlertDescription>{error}</AlertDescription>
@@ -188,9 +440,11 @@ export default function EventDetails({ user }: EventDetailsProps) {
         {canRegister && (
           <Card className="mb-6 card-dark">
             <CardHeader>
-              <CardTitle className="text-white">Quick Registration</CardTitle>
+              <CardTitle className="text-white">{isTeam ? 'Team Registration' : 'Quick Registration'}</CardTitle>
               <CardDescription className="text-gray-400">
-                Register for this event with one click using your account information
+                {isTeam
+                  ? 'Start a team and share its invite code, or join a team with the code you were given'
+                  : 'Register for this event with one click using your account information'}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -204,22 +458,121 @@ export default function EventDetails({ user }: EventDetailsProps) {
                   </div>
                 </div>
                 
+                {isTeam && !registrationBlocker && (
+                  <div className="space-y-4">
+                    <Tabs value={teamMode} onValueChange={(value) => setTeamMode(value as TeamMode)}>
+                      <TabsList className="grid w-full grid-cols-2 bg-gray-800 border-pink-500/30">
+                        <TabsTrigger value="create" className="data-[state=active]:bg-pink-500/20 data-[state=active]:text-pink-300">
+                          <Crown className="h-4 w-4 mr-2" />
+                          Create a Team
+                        </TabsTrigger>
+                        <TabsTrigger value="join" className="data-[state=active]:bg-pink-500/20 data-[state=active]:text-pink-300">
+                          <UserPlus className="h-4 w-4 mr-2" />
+                          Join a Team
+                        </TabsTrigger>
+                      </TabsList>
+                    </Tabs>
+
+                    {teamMode === 'create' ? (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label htmlFor="team_name" className="text-gray-300">Team Name</Label>
+                          <Input
+                            id="team_name"
+                            value={teamName}
+                            onChange={(e) => setTeamName(e.target.value)}
+                            className="input-dark"
+                          />
+                        </div>
+                        <div className="space-y-2">
+                          <Label htmlFor="team_size" className="text-gray-300">Maximum Members</Label>
+                          <Input
+                            id="team_size"
+                            type="number"
+                            min={minTeamSize}
+                            max={event.max_team_size}
+                            value={teamSize}
+                            onChange={(e) => setTeamSize(e.target.value)}
+                            placeholder={String(event.max_team_size)}
+                            className="input-dark"
+                          />
+                          <p className="text-xs text-gray-500">
+                            Between {minTeamSize} and {event.max_team_size}, including you
+                          </p>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="space-y-2">
+                        <Label htmlFor="invite_code" className="text-gray-300">Invite Code</Label>
+                        <Input
+                          id="invite_code"
+                          value={inviteCode}
+                          onChange={(e) => setInviteCode(e.target.value.toUpperCase())}
+                          placeholder="Ask your team leader for the code"
+                          className="input-dark font-mono tracking-wider"
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {!!event.questions?.length && !registrationBlocker && (
+                  <RegistrationQuestionFields questions={event.questions} answers={answers} onChange={setAnswers} />
+                )}
+
+                {registrationBlocker ? (
+                  <p className="text-sm text-gray-400">
+                    {registrationBlocker}
+                    {event.registration_opens_at && now < new Date(event.registration_opens_at) &&
+                      ` (opens ${new Date(event.registration_opens_at).toLocaleString()})`}
+                  </p>
+                ) : isFull && (
+                  <p className="text-sm text-yellow-300">
+                    This event is full. Join the waitlist and you'll be registered automatically when a spot opens up.
+                  </p>
+                )}
+
                 <Button
                   onClick={handleOneClickRegister}
-                  disabled={registering}
+                  disabled={registering || !!registrationBlocker || (isTeam && (teamMode === 'create' ? !teamName.trim() : !inviteCode.trim()))}
                   className="w-full btn-pink"
                   size="lg"
                 >
                   {registering ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
-                  Register for Event
+                  {isTeam
+                    ? `${teamMode === 'create' ? 'Create Team' : 'Join Team'}${isFull ? ' and Join Waitlist' : ''}`
+                    : isFull ? 'Join Waitlist' : 'Register for Event'}
                 </Button>
               </div>
             </CardContent>
           </Card>
         )}
 
+        {/* Waitlisted: codes are issued on promotion */}
+        {isWaitlisted && (
+          <Card className="mb-6 card-dark">
+            <CardHeader>
+              <CardTitle className="text-yellow-400 flex items-center">
+                <Hourglass className="h-5 w-5 mr-2" />
+                You're on the Waitlist
+              </CardTitle>
+              <CardDescription className="text-gray-400">
+                Your QR code and backup code will appear here as soon as a spot opens up.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="p-4 bg-yellow-500/10 rounded-lg border border-yellow-500/20">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm text-yellow-200">
+                  <p><strong>Position:</strong> #{waitlistPosition}</p>
+                  <p><strong>Joined:</strong> {new Date(registration.created_at).toLocaleString()}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Registration Success with QR Code */}
-        {isRegistered && registration && (
+        {isRegistered && !isWaitlisted && registration && (
           <Card className="mb-6 card-dark">
             <CardHeader>
               <CardTitle className="text-green-400 flex items-center">
@@ -258,12 +611,7 @@ export default function EventDetails({ user }: EventDetailsProps) {
                   <h4 className="font-medium text-white">QR Code</h4>
                   <div className="flex justify-center">
                     <div className="qr-container">
-                      <div className="w-32 h-32 bg-white flex items-center justify-center">
-                        <div className="text-center">
-                          <QrCode className="h-8 w-8 mx-auto mb-1 text-gray-600" />
-                          <p className="text-xs text-gray-600">QR Code</p>
-                        </div>
-                      </div>
+                      {registration.qr_code_data && <QRCodeImage value={registration.qr_code_data} className="w-32 h-32" />}
                     </div>
                   </div>
                   <Button
@@ -274,6 +622,8 @@ export default function EventDetails({ user }: EventDetailsProps) {
                     <QrCode className="h-4 w-4 mr-2" />
                     View Full QR Code
                   </Button>
+                  <p className="text-xs text-gray-400">Download your ticket to show it without a connection:</p>
+                  {ticketDownloads}
                 </div>
               </div>
 
@@ -284,13 +634,134 @@ export default function EventDetails({ user }: EventDetailsProps) {
                   <p><strong>Name:</strong> {registration.user_name}</p>
                   <p><strong>Email:</strong> {registration.user_email}</p>
                   <p><strong>Registered:</strong> {new Date(registration.created_at).toLocaleString()}</p>
-                  <p><strong>Status:</strong> Confirmed</p>
+                  <p><strong>Status:</strong> {attendedSessionIds.size > 0 ? 'Checked in' : 'Confirmed'}</p>
+                  {registration.promoted_at && (
+                    <p><strong>Promoted from waitlist:</strong> {new Date(registration.promoted_at).toLocaleString()}</p>
+                  )}
+                  {registration.transferred_from && (
+                    <p><strong>Transferred from:</strong> {registration.transferred_from}</p>
+                  )}
+                  {event.questions?.filter(question => registration.answers?.[question.id] !== undefined).map((question) => (
+                    <p key={question.id}><strong>{question.label}:</strong> {formatAnswer(registration.answers[question.id])}</p>
+                  ))}
                 </div>
               </div>
             </CardContent>
           </Card>
         )}
 
+        {/* Team: every member has their own codes above; the invite code brings in the rest */}
+        {isRegistered && team && (
+          <Card className="mb-6 card-dark">
+            <CardHeader>
+              <CardTitle className="text-white flex items-center">
+                <UsersRound className="h-5 w-5 mr-2 text-pink-400" />
+                {team.name}
+              </CardTitle>
+              <CardDescription className="text-gray-400">
+                {team.leader_id === user.id
+                  ? `You lead this team of up to ${team.max_size}. Share the invite code with your teammates.`
+                  : `You are a member of this team of up to ${team.max_size}.`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h4 className="font-medium text-white">Invite Code</h4>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => copyToClipboard(team.invite_code)}
+                    className="text-pink-400 hover:bg-pink-500/10"
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="backup-code p-4 rounded-md text-xl text-center tracking-wider">
+                  {team.invite_code}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Participant self-service: cancel or hand the spot to someone else */}
+        {isRegistered && !isCancelled && registration.user_id === user.id && (
+          <Card className="mb-6 card-dark">
+            <CardHeader>
+              <CardTitle className="text-white">Manage Registration</CardTitle>
+              <CardDescription className="text-gray-400">
+                {selfServiceBlocker ?? `You can cancel${isWaitlisted ? '' : ' or transfer'} until ${getCancellationDeadline(event).toLocaleString()}`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="flex flex-col sm:flex-row gap-4">
+                {!isWaitlisted && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setTransferDialogOpen(true)}
+                    disabled={managing || !!selfServiceBlocker}
+                    className="flex-1 border-pink-500/30 text-pink-400 hover:bg-pink-500/10"
+                  >
+                    <Send className="h-4 w-4 mr-2" />
+                    Transfer to Someone Else
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  onClick={handleCancelRegistration}
+                  disabled={managing || !!selfServiceBlocker}
+                  className="flex-1 border-red-500/30 text-red-400 hover:bg-red-500/10"
+                >
+                  {managing ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <UserX className="h-4 w-4 mr-2" />}
+                  {isWaitlisted ? 'Leave Waitlist' : 'Cancel Registration'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Transfer Dialog */}
+        <Dialog open={transferDialogOpen} onOpenChange={setTransferDialogOpen}>
+          <DialogContent className="max-w-md card-dark border-pink-500/30">
+            <DialogHeader>
+              <DialogTitle className="text-white">Transfer Registration</DialogTitle>
+              <DialogDescription className="text-gray-400">
+                The new holder gets a fresh QR code and backup code. Yours will stop working immediately, and your student ID and answers are not passed on.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleTransferRegistration} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="transfer_email" className="text-gray-300">Recipient Email</Label>
+                <Input
+                  id="transfer_email"
+                  type="email"
+                  value={transferEmail}
+                  onChange={(e) => setTransferEmail(e.target.value)}
+                  placeholder="name@nmamit.in"
+                  required
+                  className="input-dark"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="transfer_name" className="text-gray-300">Recipient Full Name</Label>
+                <Input
+                  id="transfer_name"
+                  value={transferName}
+                  onChange={(e) => setTransferName(e.target.value)}
+                  placeholder="Enter their full name"
+                  required
+                  className="input-dark"
+                />
+              </div>
+              <Button type="submit" disabled={managing} className="w-full btn-pink">
+                {managing ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+                Transfer Registration
+              </Button>
+            </form>
+          </DialogContent>
+        </Dialog>
+
         {/* QR Code Dialog */}
         <Dialog open={showQR} onOpenChange={setShowQR}>
           <DialogContent className="max-w-md card-dark border-pink-500/30">
@@ -302,15 +773,7 @@ export default function EventDetails({ user }: EventDetailsProps) {
             </DialogHeader>
             <div className="flex justify-center p-6">
               <div className="qr-container">
-                <div className="w-48 h-48 bg-white flex items-center justify-center">
-                  <div className="text-center">
-                    <QrCode className="h-16 w-16 mx-auto mb-4 text-gray-600" />
-                    <p className="text-sm text-gray-600 mb-2">QR Code for</p>
-                    <p className="text-xs text-gray-500 font-mono break-all">
-                      {registration?.qr_code_data}
-                    </p>
-                  </div>
-                </div>
+                {registration?.qr_code_data && <QRCodeImage value={registration.qr_code_data} className="w-64 h-64 max-w-full" />}
               </div>
             </div>
             <div className="text-center space-y-2">
@@ -324,6 +787,7 @@ export default function EventDetails({ user }: EventDetailsProps) {
                 <Copy className="h-4 w-4 mr-2" />
                 Copy Backup Code
               </Button>
+              <div className="pt-2">{ticketDownloads}</div>
             </div>
           </DialogContent>
         </Dialog>
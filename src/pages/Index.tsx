@@ -1,7 +1,8 @@
 import { useState, useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { User } from '@/lib/auth'
-import { getEvents, getEventRegistrations, Event } from '@/lib/storage'
+import { repository } from '@/lib/repository'
+import { Event, EVENT_STATUS_LABELS, isEventListed, getRegistrationBlocker } from '@/lib/models'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
@@ -9,6 +10,8 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Calendar, Clock, MapPin, Users, Loader2, Plus, Sparkles, MessageCircle } from 'lucide-react'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import SupportChat from '@/components/SupportChat'
+import { useDataChanges } from '@/hooks/use-data-changes'
+import RegistrationCountdown from '@/components/RegistrationCountdown'
 
 interface IndexProps {
   user: User
@@ -20,18 +23,21 @@ export default function Index({ user }: IndexProps) {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [supportDialogOpen, setSupportDialogOpen] = useState(false)
+  const [registrationCounts, setRegistrationCounts] = useState<Record<string, number>>({})
 
-  useEffect(() => {
+  const loadEvents = async () => {
     try {
-      const allEvents = getEvents()
-      // Filter to show only upcoming events
+      const allEvents = await repository.getEvents()
+      // Filter to show only upcoming events; participants never see drafts or archived events
       const upcomingEvents = allEvents.filter(event => {
         const eventDate = new Date(event.event_date)
         const today = new Date()
         today.setHours(0, 0, 0, 0)
-        return eventDate >= today
+        return eventDate >= today && (user.role !== 'participant' || isEventListed(event))
       })
+      const stats = await Promise.all(upcomingEvents.map(event => repository.getEventStats(event.id)))
       setEvents(upcomingEvents)
+      setRegistrationCounts(Object.fromEntries(upcomingEvents.map((event, index) => [event.id, stats[index].totalRegistrations])))
       setError(null)
     } catch (err) {
       setError('Failed to load events')
@@ -39,12 +45,22 @@ export default function Index({ user }: IndexProps) {
     } finally {
       setLoading(false)
     }
+  }
+
+  useEffect(() => {
+    loadEvents()
   }, [])
 
+  // New events and registration counts show up without a reload
+  useDataChanges((change) => {
+    if (change.type !== 'support_message_created' && change.type !== 'support_message_resolved') {
+      loadEvents()
+    }
+  })
+
   const getEventStats = (event: Event) => {
-    const registrations = getEventRegistrations(event.id)
     return {
-      registrations: registrations.length,
+      registrations: registrationCounts[event.id] ?? 0,
       capacity: event.max_capacity || 'Unlimited'
     }
   }
@@ -181,9 +197,19 @@ export default function Index({ user }: IndexProps) {
                   <CardHeader>
                     <div className="flex justify-between items-start">
                       <CardTitle className="text-xl text-white">{event.name}</CardTitle>
-                      <Badge className="bg-pink-500/20 text-pink-400 border-pink-500/30">
-                        {stats.registrations} registered
-                      </Badge>
+                      {event.status === 'cancelled' ? (
+                        <Badge className="bg-red-500/20 text-red-400 border-red-500/30">
+                          Cancelled
+                        </Badge>
+                      ) : event.status !== 'published' ? (
+                        <Badge className="bg-gray-500/20 text-gray-400 border-gray-500/30">
+                          {EVENT_STATUS_LABELS[event.status]}
+                        </Badge>
+                      ) : (
+                        <Badge className="bg-pink-500/20 text-pink-400 border-pink-500/30">
+                          {stats.registrations} registered
+                        </Badge>
+                      )}
                     </div>
                     {event.description && (
                       <CardDescription className="line-clamp-2 text-gray-400">
@@ -221,12 +247,14 @@ export default function Index({ user }: IndexProps) {
                       <Users className="h-4 w-4 mr-3 text-pink-400" />
                       {stats.registrations} / {stats.capacity}
                     </div>
+                    <RegistrationCountdown event={event} />
                     <div className="pt-4">
                       <Button 
                         className="w-full btn-pink"
                         onClick={() => handleEventClick(event.id)}
                       >
-                        {user.role === 'participant' ? 'Register' : 
+                        {event.status === 'cancelled' ? 'View Details' :
+                         user.role === 'participant' ? (getRegistrationBlocker(event) ? 'View Details' : 'Register') : 
                          user.role === 'staff' ? 'Take Attendance' : 
                          'View Details'}
                       </Button>
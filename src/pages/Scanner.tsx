@@ -1,75 +1,153 @@
 import { useState, useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { User } from '@/lib/auth'
-import { getEvents, findRegistrationByQR, findRegistrationByBackupCode, checkInAttendee, isAttendeeCheckedIn, Event } from '@/lib/storage'
+import { repository } from '@/lib/repository'
+import { getTicketError } from '@/lib/tickets'
+import { Event, isEventListed, getEventSessions, getDefaultSession, getTimeOnSiteMinutes, isPartialAttendance, formatDuration, getArrivalStatus, getMinutesLate, ARRIVAL_STATUS_LABELS, getWalkInBlocker, getBackupCodeError } from '@/lib/models'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Alert, AlertDescription } from '@/components/ui/alert'
-import { Calendar, Clock, MapPin, QrCode, Loader2, CheckCircle, XCircle, ArrowLeft, Sparkles } from 'lucide-react'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Calendar, Clock, MapPin, QrCode, Loader2, CheckCircle, XCircle, ArrowLeft, Sparkles, LogIn, LogOut, UserPlus, Camera, ImageUp, Keyboard } from 'lucide-react'
+import { useDataChanges } from '@/hooks/use-data-changes'
+import QRScanner from '@/components/QRScanner'
+import QRImageScanner from '@/components/QRImageScanner'
 
 interface ScannerProps {
   user: User
 }
 
+type ScanMode = 'check_in' | 'check_out'
+
+// How codes are read: live camera, a photo or screenshot, or typed and pasted as a fallback
+type InputMode = 'camera' | 'image' | 'manual'
+
 export default function Scanner({ user }: ScannerProps) {
   const navigate = useNavigate()
   const [events, setEvents] = useState<Event[]>([])
   const [selectedEventId, setSelectedEventId] = useState<string>('')
+  const [selectedSessionId, setSelectedSessionId] = useState<string>('')
+  const [signingKey, setSigningKey] = useState<string | null>(null)
+  const [scanMode, setScanMode] = useState<ScanMode>('check_in')
+  const [inputMode, setInputMode] = useState<InputMode>('camera')
   const [loading, setLoading] = useState(true)
   const [scanning, setScanning] = useState(false)
   const [scanInput, setScanInput] = useState('')
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const [walkIn, setWalkIn] = useState({ email: '', name: '', studentId: '' })
+  const [registeringWalkIn, setRegisteringWalkIn] = useState(false)
 
-  useEffect(() => {
-    const loadEvents = () => {
-      try {
-        console.log('Loading events for staff portal...')
-        const allEvents = getEvents()
-        console.log('All events found:', allEvents)
-        
-        // Show all events for staff (not just today's events)
-        // Staff should be able to take attendance for any event
-        setEvents(allEvents)
-        setError(null)
-        
-        if (allEvents.length === 0) {
-          setError('No events found. Please ask admin to create events first.')
-        }
-      } catch (err) {
-        console.error('Error loading events for staff:', err)
-        setError('Failed to load events')
-      } finally {
-        setLoading(false)
+  const loadEvents = async () => {
+    try {
+      console.log('Loading events for staff portal...')
+      const allEvents = await repository.getEvents()
+      console.log('All events found:', allEvents)
+      
+      // Show all events for staff (not just today's events)
+      // Staff should be able to take attendance for any event that is still on
+      const activeEvents = allEvents.filter(event => isEventListed(event) && event.status !== 'cancelled')
+      setEvents(activeEvents)
+      setError(null)
+
+      // Drop the selection if that event was cancelled, archived or deleted meanwhile
+      setSelectedEventId(current => activeEvents.some(event => event.id === current) ? current : '')
+      
+      if (activeEvents.length === 0) {
+        setError('No events found. Please ask admin to create events first.')
       }
+    } catch (err) {
+      console.error('Error loading events for staff:', err)
+      setError('Failed to load events')
+    } finally {
+      setLoading(false)
     }
+  }
 
+  useEffect(() => {
     loadEvents()
   }, [])
 
-  const handleScan = async () => {
-    if (!selectedEventId || !scanInput.trim()) {
+  // The event's ticket secret is loaded once, so tickets are verified without a round trip
+  const loadSigningKey = async (eventId: string) => {
+    setSigningKey(null)
+    if (!eventId) return
+    try {
+      setSigningKey(await repository.getEventSigningKey(eventId))
+    } catch (err) {
+      console.error('Error loading ticket signing key:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load the ticket key for this event')
+    }
+  }
+
+  useEffect(() => {
+    loadSigningKey(selectedEventId)
+  }, [selectedEventId])
+
+  // Event changes made by an admin in another tab show up in the selector right away
+  useDataChanges((change) => {
+    if (
+      change.type === 'event_created' || change.type === 'event_updated' || change.type === 'event_status_changed' || change.type === 'event_cancelled' ||
+      change.type === 'event_deleted' || change.type === 'data_cleared' || change.type === 'data_restored'
+    ) {
+      loadEvents()
+    }
+    // A restore brings back the secrets that signed the restored tickets
+    if (change.type === 'data_cleared' || change.type === 'data_restored') {
+      loadSigningKey(selectedEventId)
+    }
+  })
+
+  const selectedEvent = events.find(e => e.id === selectedEventId)
+  const sessions = selectedEvent ? getEventSessions(selectedEvent) : []
+  const selectedSession = sessions.find(session => session.id === selectedSessionId)
+
+  // Preselect the current session whenever the event changes or its sessions are edited
+  useEffect(() => {
+    if (selectedEvent && !getEventSessions(selectedEvent).some(session => session.id === selectedSessionId)) {
+      setSelectedSessionId(getDefaultSession(selectedEvent).id)
+    }
+  }, [selectedEvent, selectedSessionId])
+
+  // Shared by the camera and manual entry: verify the code, look it up, then check in or out
+  const processCode = async (code: string) => {
+    if (!selectedEventId || !selectedSession || !code.trim()) {
       setMessage({ type: 'error', text: 'Please select an event and enter QR code or backup code' })
       return
     }
 
+    // QR payloads are long; anything short is a typed backup code, checked before any lookup
+    const method = code.trim().length > 10 ? 'qr_scan' : 'backup_code'
+    const backupCodeError = method === 'backup_code' ? getBackupCodeError(code) : null
+    if (backupCodeError) {
+      setMessage({ type: 'error', text: backupCodeError })
+      return
+    }
+
     setScanning(true)
     setMessage(null)
 
     try {
-      // Try to find registration by QR code first
-      let registration = findRegistrationByQR(scanInput.trim())
-      
-      // If not found, try backup code
-      if (!registration) {
-        registration = findRegistrationByBackupCode(scanInput.trim().toUpperCase())
+      // Forged, altered and other events' tickets are refused before anything is looked up
+      if (method === 'qr_scan') {
+        const ticketError = signingKey
+          ? await getTicketError(code, selectedEventId, signingKey)
+          : 'The ticket key for this event has not loaded yet. Try again in a moment.'
+        if (ticketError) {
+          setMessage({ type: 'error', text: ticketError })
+          return
+        }
       }
 
+      const registration = method === 'qr_scan'
+        ? await repository.findRegistrationByQR(code.trim())
+        : await repository.findRegistrationByBackupCode(code)
+
       if (!registration) {
-        setMessage({ type: 'error', text: 'Invalid QR code or backup code' })
+        setMessage({ type: 'error', text: 'Invalid QR code or backup code. Not registered? Use walk-in registration below.' })
         setScanning(false)
         return
       }
@@ -81,31 +159,94 @@ export default function Scanner({ user }: ScannerProps) {
         return
       }
 
-      // Check if already checked in
-      if (isAttendeeCheckedIn(registration.id)) {
-        setMessage({ type: 'error', text: `${registration.user_name} is already checked in` })
-        setScanning(false)
+      const forSession = sessions.length > 1 ? ` for ${selectedSession.name}` : ''
+
+      if (scanMode === 'check_out') {
+        // Only checked-in attendees can check out, and only once per session
+        const isCheckedIn = await repository.isAttendeeCheckedIn(registration.id, selectedSession.id)
+        if (!isCheckedIn) {
+          setMessage({ type: 'error', text: `${registration.user_name} never checked in${forSession}` })
+          return
+        }
+
+        const result = await repository.checkOutAttendee(registration.id, selectedSession.id, user.id, user.full_name)
+        const timeOnSite = formatDuration(getTimeOnSiteMinutes(result.attendance) ?? 0)
+
+        if (!result.success) {
+          const checkedOutAt = new Date(result.attendance.checked_out_at!).toLocaleTimeString()
+          setMessage({ type: 'error', text: `${registration.user_name} already checked out${forSession} at ${checkedOutAt} (${timeOnSite} on site)` })
+          return
+        }
+
+        const partial = isPartialAttendance(selectedEvent, result.attendance)
+          ? ` — below the ${formatDuration(selectedEvent.min_attendance_minutes!)} minimum, marked as partial attendance`
+          : ''
+        setMessage({ type: 'success', text: `👋 ${registration.user_name} checked out${forSession} after ${timeOnSite}${partial}` })
+        setScanInput('')
         return
       }
 
-      // Check in the attendee
-      const method = scanInput.length > 10 ? 'qr_scan' : 'backup_code'
-      await checkInAttendee(registration.id, method, user.id)
+      // Check in the attendee; the repository refuses a second check-in atomically
+      const result = await repository.checkInAttendee(registration.id, selectedSession.id, method, user.id, user.full_name)
+
+      if (!result.success) {
+        const checkedInBy = result.attendance.staff_name || 'another staff member'
+        const checkedInAt = new Date(result.attendance.checked_in_at).toLocaleTimeString()
+        setMessage({ type: 'error', text: `${registration.user_name} is already checked in${forSession} by ${checkedInBy} at ${checkedInAt}` })
+        return
+      }
 
+      const arrival = getArrivalStatus(selectedEvent, result.attendance)
+      const minutesLate = getMinutesLate(selectedEvent, result.attendance)
       setMessage({ 
         type: 'success', 
-        text: `✅ ${registration.user_name} checked in successfully!` 
+        text: `✅ ${registration.user_name} checked in${forSession} successfully! ${ARRIVAL_STATUS_LABELS[arrival]}${arrival === 'on_time' ? '' : ` (${formatDuration(minutesLate)} after start)`}` 
       })
       setScanInput('')
     } catch (err) {
-      setMessage({ type: 'error', text: 'Failed to check in attendee' })
+      // Waitlisted registrations, cancelled events and the like are explained by the repository
+      const fallback = scanMode === 'check_out' ? 'Failed to check out attendee' : 'Failed to check in attendee'
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : fallback })
       console.error('Check-in error:', err)
     } finally {
       setScanning(false)
     }
   }
 
-  const selectedEvent = events.find(e => e.id === selectedEventId)
+  const handleScan = () => processCode(scanInput)
+
+  // Codes read by the camera or from an image; the camera keeps reading during a check-in, so those reads are dropped
+  const handleDecodedScan = (decodedText: string) => {
+    if (!scanning) {
+      processCode(decodedText)
+    }
+  }
+
+  // Someone who turned up without registering is registered and checked in at once
+  const handleWalkIn = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!selectedEventId || !selectedSession) return
+
+    setRegisteringWalkIn(true)
+    setMessage(null)
+
+    try {
+      const { registration, attendance } = await repository.registerWalkIn(selectedEventId, selectedSession.id, walkIn, user.id, user.full_name)
+      const forSession = sessions.length > 1 ? ` for ${selectedSession.name}` : ''
+      const arrival = getArrivalStatus(selectedEvent, attendance)
+      setMessage({
+        type: 'success',
+        text: `✅ Walk-in ${registration.user_name} registered and checked in${forSession}. ${ARRIVAL_STATUS_LABELS[arrival]}. Backup code for later sessions: ${registration.backup_code}`
+      })
+      setWalkIn({ email: '', name: '', studentId: '' })
+    } catch (err) {
+      // Full events, duplicates and invalid emails are explained by the repository
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to register walk-in' })
+      console.error('Walk-in error:', err)
+    } finally {
+      setRegisteringWalkIn(false)
+    }
+  }
 
   if (user.role !== 'staff' && user.role !== 'admin') {
     return (
@@ -199,17 +340,39 @@ export default function Scanner({ user }: ScannerProps) {
                 )}
               </div>
 
+              {sessions.length > 1 && (
+                <div className="space-y-2">
+                  <Label htmlFor="session-select" className="text-gray-300">Session</Label>
+                  <Select value={selectedSessionId} onValueChange={setSelectedSessionId}>
+                    <SelectTrigger id="session-select" className="input-dark">
+                      <SelectValue placeholder="Select a session" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-gray-900 border-pink-500/30">
+                      {sessions.map((session) => (
+                        <SelectItem
+                          key={session.id}
+                          value={session.id}
+                          className="text-gray-300 hover:bg-pink-500/20"
+                        >
+                          {session.name} - {new Date(session.session_date).toLocaleDateString()} {session.start_time}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
               {selectedEvent && (
                 <div className="p-4 bg-pink-500/10 rounded-lg border border-pink-500/20">
                   <h3 className="font-medium text-pink-300 mb-2">{selectedEvent.name}</h3>
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-2 text-sm text-pink-200">
                     <div className="flex items-center">
                       <Calendar className="h-4 w-4 mr-1" />
-                      {new Date(selectedEvent.event_date).toLocaleDateString()}
+                      {new Date(selectedSession?.session_date ?? selectedEvent.event_date).toLocaleDateString()}
                     </div>
                     <div className="flex items-center">
                       <Clock className="h-4 w-4 mr-1" />
-                      {selectedEvent.start_time} - {selectedEvent.end_time}
+                      {selectedSession?.start_time ?? selectedEvent.start_time} - {selectedSession?.end_time ?? selectedEvent.end_time}
                     </div>
                     <div className="flex items-center">
                       <MapPin className="h-4 w-4 mr-1" />
@@ -231,34 +394,77 @@ export default function Scanner({ user }: ScannerProps) {
                 Scan Attendee
               </CardTitle>
               <CardDescription className="text-gray-400">
-                Scan the QR code or enter the backup code to check in attendees
+                Scan the QR code with the camera or from an image, or enter the backup code, to check attendees in or out
               </CardDescription>
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="scan-input" className="text-gray-300">QR Code or Backup Code</Label>
-                  <Input
-                    id="scan-input"
-                    value={scanInput}
-                    onChange={(e) => setScanInput(e.target.value)}
-                    placeholder="Scan QR code or enter backup code (e.g., ABC12345)"
-                    onKeyPress={(e) => e.key === 'Enter' && handleScan()}
-                    className="input-dark placeholder:text-gray-500"
-                  />
-                  <p className="text-xs text-gray-500">
-                    QR codes are long strings, backup codes are 8 characters (e.g., ABC12345)
+                <Tabs value={scanMode} onValueChange={(value) => setScanMode(value as ScanMode)}>
+                  <TabsList className="grid w-full grid-cols-2 bg-gray-800 border-pink-500/30">
+                    <TabsTrigger value="check_in" className="data-[state=active]:bg-pink-500/20 data-[state=active]:text-pink-300">
+                      <LogIn className="h-4 w-4 mr-2" />
+                      Check In
+                    </TabsTrigger>
+                    <TabsTrigger value="check_out" className="data-[state=active]:bg-pink-500/20 data-[state=active]:text-pink-300">
+                      <LogOut className="h-4 w-4 mr-2" />
+                      Check Out
+                    </TabsTrigger>
+                  </TabsList>
+                </Tabs>
+
+                <Tabs value={inputMode} onValueChange={(value) => setInputMode(value as InputMode)}>
+                  <TabsList className="grid w-full grid-cols-3 bg-gray-800 border-pink-500/30">
+                    <TabsTrigger value="camera" className="data-[state=active]:bg-pink-500/20 data-[state=active]:text-pink-300">
+                      <Camera className="h-4 w-4 mr-2" />
+                      Camera
+                    </TabsTrigger>
+                    <TabsTrigger value="image" className="data-[state=active]:bg-pink-500/20 data-[state=active]:text-pink-300">
+                      <ImageUp className="h-4 w-4 mr-2" />
+                      Image
+                    </TabsTrigger>
+                    <TabsTrigger value="manual" className="data-[state=active]:bg-pink-500/20 data-[state=active]:text-pink-300">
+                      <Keyboard className="h-4 w-4 mr-2" />
+                      Manual Entry
+                    </TabsTrigger>
+                  </TabsList>
+                </Tabs>
+
+                {inputMode === 'camera' && <QRScanner onScan={handleDecodedScan} />}
+                {inputMode === 'image' && <QRImageScanner onScan={handleDecodedScan} disabled={scanning} />}
+                {inputMode !== 'manual' && scanning && (
+                  <p className="flex items-center justify-center text-sm text-pink-300">
+                    <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                    {scanMode === 'check_out' ? 'Checking out...' : 'Checking in...'}
                   </p>
-                </div>
+                )}
 
-                <Button
-                  onClick={handleScan}
-                  disabled={scanning || !scanInput.trim()}
-                  className="w-full btn-pink"
-                >
-                  {scanning ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
-                  Check In Attendee
-                </Button>
+                {inputMode === 'manual' && (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="scan-input" className="text-gray-300">QR Code or Backup Code</Label>
+                      <Input
+                        id="scan-input"
+                        value={scanInput}
+                        onChange={(e) => setScanInput(e.target.value)}
+                        placeholder="Paste QR code text or enter backup code (e.g., K7QM2XPL)"
+                        onKeyPress={(e) => e.key === 'Enter' && handleScan()}
+                        className="input-dark placeholder:text-gray-500"
+                      />
+                      <p className="text-xs text-gray-500">
+                        QR codes are long strings, backup codes are 8 characters (e.g., K7QM2XPL)
+                      </p>
+                    </div>
+
+                    <Button
+                      onClick={handleScan}
+                      disabled={scanning || !scanInput.trim()}
+                      className="w-full btn-pink"
+                    >
+                      {scanning ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+                      {scanMode === 'check_out' ? 'Check Out Attendee' : 'Check In Attendee'}
+                    </Button>
+                  </>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -280,17 +486,80 @@ export default function Scanner({ user }: ScannerProps) {
           </Alert>
         )}
 
+        {/* Walk-in registration */}
+        {selectedEvent && scanMode === 'check_in' && !getWalkInBlocker(selectedEvent) && (
+          <Card className="mb-6 card-dark">
+            <CardHeader>
+              <CardTitle className="flex items-center text-white">
+                <UserPlus className="h-5 w-5 mr-2 text-pink-500" />
+                Walk-in Registration
+              </CardTitle>
+              <CardDescription className="text-gray-400">
+                For attendees who didn't register in advance. They are registered and checked in at once, if the event has room.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleWalkIn} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="walk-in-email" className="text-gray-300">Email</Label>
+                    <Input
+                      id="walk-in-email"
+                      type="email"
+                      value={walkIn.email}
+                      onChange={(e) => setWalkIn({ ...walkIn, email: e.target.value })}
+                      placeholder="name@nmamit.in"
+                      required
+                      className="input-dark placeholder:text-gray-500"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="walk-in-name" className="text-gray-300">Name</Label>
+                    <Input
+                      id="walk-in-name"
+                      value={walkIn.name}
+                      onChange={(e) => setWalkIn({ ...walkIn, name: e.target.value })}
+                      required
+                      className="input-dark"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="walk-in-student-id" className="text-gray-300">Student ID (Optional)</Label>
+                    <Input
+                      id="walk-in-student-id"
+                      value={walkIn.studentId}
+                      onChange={(e) => setWalkIn({ ...walkIn, studentId: e.target.value })}
+                      placeholder="Enter their student ID"
+                      className="input-dark placeholder:text-gray-500"
+                    />
+                  </div>
+                </div>
+                <Button
+                  type="submit"
+                  disabled={registeringWalkIn || !walkIn.email.trim() || !walkIn.name.trim()}
+                  className="w-full btn-pink"
+                >
+                  {registeringWalkIn ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+                  Register and Check In
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Instructions */}
         <Card className="card-dark">
           <CardHeader>
             <CardTitle className="text-white">Instructions</CardTitle>
           </CardHeader>
           <CardContent className="space-y-2 text-sm text-gray-400">
-            <p>1. Select the event you want to take attendance for</p>
+            <p>1. Select the event (and session, for multi-session events) you want to take attendance for</p>
             <p>2. Ask attendees to show their QR code or provide their backup code</p>
-            <p>3. Scan the QR code or manually enter the backup code</p>
-            <p>4. Click "Check In Attendee" to mark them as present</p>
+            <p>3. Hold the QR code up to the camera, use "Image" for a photo or screenshot of it, or switch to "Manual Entry" to type the backup code</p>
+            <p>4. Scanned codes are checked in straight away; typed codes need "Check In Attendee"</p>
             <p>5. The system will prevent duplicate check-ins automatically</p>
+            <p>6. Switch to "Check Out" as attendees leave to record their time on site</p>
+            <p>7. Register attendees who turn up without registering with the walk-in form</p>
           </CardContent>
         </Card>
       </div>
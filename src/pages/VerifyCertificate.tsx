@@ -0,0 +1,96 @@
+import { useState, useEffect } from 'react'
+import { useParams } from 'react-router-dom'
+import { CertificateVerification, normalizeVerificationCode } from '@/lib/models'
+import { repository } from '@/lib/repository'
+import { canVerifyPublicly } from '@/lib/certificates'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Loader2, Sparkles, ShieldCheck, ShieldX, ShieldQuestion } from 'lucide-react'
+
+// Public page behind the QR code on a certificate; works without logging in.
+// Only the Supabase backend can vouch for certificates issued on another machine.
+export default function VerifyCertificate() {
+  const { code = '' } = useParams()
+  const [verification, setVerification] = useState<CertificateVerification | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setLoading(true)
+    setError(null)
+    repository.verifyCertificate(code)
+      .then(setVerification)
+      .catch((err) => {
+        setError('Could not check this certificate right now. Please try again later.')
+        console.error('Error verifying certificate:', err)
+      })
+      .finally(() => setLoading(false))
+  }, [code])
+
+  return (
+    <div className="min-h-screen auth-background flex items-center justify-center p-4">
+      <div className="auth-content w-full max-w-md">
+        <Card className="card-dark border-pink-500/30 shadow-2xl">
+          <CardHeader className="text-center space-y-4">
+            <div className="flex items-center justify-center space-x-2 mb-2">
+              <Sparkles className="h-8 w-8 text-pink-500" />
+              <CardTitle className="text-3xl font-bold brand-text">
+                SwiftAttend
+              </CardTitle>
+            </div>
+            <CardDescription className="text-gray-400 text-lg">
+              Certificate Verification
+            </CardDescription>
+            <div className="w-16 h-1 pink-gradient mx-auto rounded-full"></div>
+          </CardHeader>
+          <CardContent className="space-y-6 text-center">
+            {loading ? (
+              <Loader2 className="h-12 w-12 animate-spin text-pink-500 mx-auto" />
+            ) : error ? (
+              <p className="text-red-400">{error}</p>
+            ) : verification ? (
+              <div className="space-y-4">
+                <ShieldCheck className="h-16 w-16 text-green-400 mx-auto" />
+                <p className="text-green-400 font-medium text-lg">This certificate is authentic</p>
+                <div className="bg-gray-800/50 p-4 rounded-lg space-y-2 text-left">
+                  <p className="text-gray-400 text-sm">Awarded to</p>
+                  <p className="text-white text-xl font-semibold">{verification.recipient_name}</p>
+                  <p className="text-gray-400 text-sm pt-2">For participating in</p>
+                  <p className="text-pink-300 font-medium">{verification.event_name}</p>
+                  <p className="text-gray-300 text-sm">
+                    {new Date(verification.event_date).toLocaleDateString('en-US', {
+                      year: 'numeric',
+                      month: 'long',
+                      day: 'numeric'
+                    })}
+                  </p>
+                  <p className="text-gray-500 text-xs pt-2">
+                    Issued {new Date(verification.issued_at).toLocaleDateString()}
+                  </p>
+                </div>
+              </div>
+            ) : !canVerifyPublicly ? (
+              <div className="space-y-4">
+                <ShieldQuestion className="h-16 w-16 text-pink-400 mx-auto" />
+                <p className="text-pink-300 font-medium text-lg">This certificate can't be checked here</p>
+                <p className="text-gray-400 text-sm">
+                  This SwiftAttend installation keeps its records in the browser that issued them, so certificates can only be verified on that device. Ask the event organiser to confirm this code.
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <ShieldX className="h-16 w-16 text-red-400 mx-auto" />
+                <p className="text-red-400 font-medium text-lg">No certificate found</p>
+                <p className="text-gray-400 text-sm">
+                  No certificate was issued with this code. Check that it matches the one printed on the certificate.
+                </p>
+              </div>
+            )}
+            <p className="text-gray-500 text-sm">
+              Verification code: <span className="font-mono text-pink-300">{normalizeVerificationCode(code)}</span>
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}